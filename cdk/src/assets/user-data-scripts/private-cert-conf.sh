@@ -1,2 +0,0 @@
-# Append the domain name to /etc/hosts
-echo "127.0.0.1   DOMAIN_NAME_PLACEHOLDER" | sudo tee -a /etc/hosts > /dev/null
\ No newline at end of file
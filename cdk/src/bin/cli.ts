@@ -1,8 +1,23 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { NitroEnclavesAcmStreamlineConfig } from '../config/types';
-import { NitroEnclavesAcmStreamline } from './nitro_enclaves_acm_streamline';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import * as dotenv from 'dotenv';
+import { NitroEnclavesAcmStreamlineConfig, NitroEnclavesAcmStreamlineConfigFile, SetupEnvironment } from '../config/types';
+import { ConfigLoader, LoadedConfigFile } from '../config/config-loader';
+import { ConfigValidationError, ConfigValidator, ValidationReport } from '../config/config-validator';
+import { NitroEnclavesAcmStreamline } from '../lib/nitro-enclaves-acm-streamline';
+import { SetupStage } from '../lib/setup-stage';
+import { deploySetup } from '../lib/deploy/deploy-setup';
+import { destroySetup } from '../lib/destroy/destroy-setup';
+import { exportTemplates, MAX_TEMPLATE_BODY_SIZE } from '../lib/export/export-templates';
+import { getTsNodeCommand, quoteShellArg } from '../lib/shell';
+import { getServerType, getServerTypeNames } from '../lib/user-data/server-types';
+
+// Env vars of the config (e.g. AWS_REGION) can be set in a .env file of the current directory
+dotenv.config();
 
 const program = new Command();
 
@@ -12,90 +27,414 @@ program
   .version('1.0.0');
 
 program
-  // argument for a subcommand that is either deploy or destroy
-  .argument('<subcommand>', 'Subcommand to execute deploy or destroy (deploy | destroy)')
+  // argument for a subcommand that is either deploy, destroy, validate or export
+  .argument('<subcommand>', 'Subcommand to execute (deploy | destroy | validate | export). validate checks the configuration without synthesizing, '
+    + 'export writes standalone CloudFormation templates deployable without the CDK bootstrap')
+  // Config file (lowest precedence: config file < env vars < CLI flags)
+  .option('-f, --config <path>', 'YAML or JSON config file (see schema/setup-config-file.schema.json)')
+  .option('--print-config', 'Print the effective configuration and exit')
+  .option('--environment <name>', 'Environment of the config file to deploy, destroy or validate (default: all of them, in their order)')
   // Setup Name
-  .requiredOption('-S, --setup-name <string>', 'Name of the setup')
+  .option('-S, --setup-name <string>', 'Name of the setup (required unless set in the config file)')
   // Certificate config
   .option('-n, --certificate-name <string>', 'Certificate name')
-  .option('-d, --domain-name <string>', 'Domain name for the certificate', 'example.com')
+  .option('-d, --domain-name <string>', 'Domain name for the certificate (default: "example.com")')
+  .option('--subject-alternative-names <names...>', 'Additional domain names (SANs) of the certificate. Further certificates can be set in the config file (additionalCertificates)')
   .option('--is-private', 'Whether the certificate is private')
   .option('-z, --hosted-zone-id <string>', 'Route53 hosted zone ID')
   .option('-v, --validation-type <string>', 'Certificate validation type (DNS or EMAIL)')
   .option('-c, --certificate-arn <string>', 'Existing certificate ARN')
   .option('-p, --pca-arn <string>', 'Private Certificate Authority ARN')
+  .option('--create-private-ca', 'Create a root AWS Private CA issuing the private certificates (instead of --pca-arn)')
+  .option('--private-ca-common-name <string>', 'Common name of the created private CA')
   // Role config
   .option('-r, --role-name <string>', 'Role name')
+  .option('--existing-role-arn <arn>', 'Existing role of the instances, only the certificate associations and permissions are added to it')
+  .option('--disable-session-manager', 'Do not grant Session Manager access (AmazonSSMManagedInstanceCore) to the instance')
+  .option('--session-logs-s3', 'Log Session Manager sessions to a created S3 bucket')
+  .option('--session-logs-cloudwatch', 'Log Session Manager sessions to a created CloudWatch log group')
   // Instance config
   .option('-i, --instance-name <string>', 'Instance name')
-  .option('-k, --key-pair-name <string>', 'Key pair name', 'my-key-pair-name')
-  .option('-s, --web-server-type <string>', 'Server type (NGINX or APACHE)')
+  .option('--existing-instance-ids <ids...>', 'Existing enclave-enabled instances to configure through Systems Manager instead of launching one, requires --existing-role-arn')
+  .option('-k, --key-pair-name <string>', 'Key pair name (default: "my-key-pair-name")')
+  .option('-s, --web-server-type <string>', `Server type:\n${getServerTypeNames().map(name => `  ${name}: ${getServerType(name)!.description}`).join('\n')}`)
   .option('-t, --instance-type <string>', 'Instance type')
   .option('-m, --ami-type <string>', 'AMI type (AL2 or AL2023)')
+  .option('--ami-id <id>', 'Custom AMI of the instances, based on the Amazon Linux version of --ami-type')
+  .option('--ami-ssm-parameter <name>', 'SSM parameter holding the AMI ID of the instances, resolved on each deployment')
+  .option('--preinstalled-ami', 'The custom AMI already contains the web server and ACM for Nitro Enclaves, their installation is skipped')
   .option('-e, --encrypt-volume', 'Encrypt root EBS storage volume ')
-  .option('-o, --allow-ssh-port', 'Allow SSH access (port 22) in the security group of the new EC2 instance.')
+  .option('-o, --allow-ssh-port', 'Allow SSH access (port 22) in the security group of the new EC2 instance, requires --ssh-cidrs.')
+  .option('--ssh-cidrs <cidrs...>', 'IPv4/IPv6 CIDR blocks allowed to connect over SSH')
+  .option('--https-cidrs <cidrs...>', 'IPv4/IPv6 CIDR blocks allowed to connect over HTTP/HTTPS (default: 0.0.0.0/0)')
+  .option('--https-port <port>', 'Port the web server listens on for HTTPS (default: 443)', (value: string) => parseInt(value, 10))
+  .option('--disable-http', 'Do not open port 80 in the security group')
+  .option('--security-group-ids <ids...>', 'Existing security groups to attach to the instance')
+  .option('--enclave-cpu-count <number>', 'vCPUs reserved for the enclave (default: 2)', (value: string) => parseInt(value, 10))
+  .option('--enclave-memory-mib <number>', 'Memory reserved for the enclave in MiB (default: 512)', (value: string) => parseInt(value, 10))
+  .option('--fleet', 'Deploy an Auto Scaling group behind a Network Load Balancer instead of a single instance')
+  .option('--min-capacity <number>', 'Minimum fleet size (default: 2)', (value: string) => parseInt(value, 10))
+  .option('--max-capacity <number>', 'Maximum fleet size (default: 4)', (value: string) => parseInt(value, 10))
+  .option('--desired-capacity <number>', 'Desired fleet size, reset on each deployment (default: unset, the fleet starts at min capacity and keeps its size)', (value: string) => parseInt(value, 10))
+  .option('--vpc-id <string>', 'Existing VPC to launch the instance in (default: default VPC)')
+  .option('--subnet-ids <ids...>', 'Subnets of the existing VPC to launch the instance in')
+  .option('--create-vpc', 'Create a dedicated VPC for the instance')
+  .option('--private-subnets', 'Launch the instance in private subnets, with VPC endpoints for ACM, KMS, S3 and SSM')
+  .option('--volume-size <number>', 'Size of the root EBS volume in GiB (default: 8)', (value: string) => parseInt(value, 10))
+  .option('--volume-type <string>', 'Type of the root EBS volume (gp2, gp3, io1 or io2, default: gp2)')
+  .option('--create-volume-key', 'Encrypt the root EBS volume with a created customer managed KMS key')
+  .option('--volume-kms-key-arn <arn>', 'Encrypt the root EBS volume with an existing customer managed KMS key')
+  .option('--detailed-monitoring', 'Enable 1-minute EC2 metrics')
+  .option('--termination-protection', 'Enable the API termination protection of the instance (single mode)')
+  .option('--owner <string>', 'Owner tag of the resources of the setup')
+  .option('--cost-center <string>', 'CostCenter tag of the resources of the setup')
+  // Monitoring config
+  .option('--monitoring', 'Create the MonitoringStack: certificate expiry alarms, ACM events, instance logs and a dashboard')
+  .option('--alarm-emails <emails...>', 'Email addresses notified of the alarms and certificate events')
+  // Image Builder config
+  .option('--golden-image', 'Create the ImageBuilderStack: a golden AMI with the web server and ACM for Nitro Enclaves, used by the instances')
+  .option('--image-build-schedule <expression>', 'Rebuild schedule of the golden image pipeline, e.g. "cron(0 0 ? * sun *)"')
+  // Compliance config
+  .option('--fail-on-compliance-errors', 'Fail the deployment on the error findings of the compliance checks (suppressions are set in the config file)')
+  .option('--skip-compliance-checks', 'Do not run the compliance checks on the synthesized stacks')
   // General config
   .option('-a, --aws-region <string>', 'AWS region')
   .option('-u, --aws-account-id <string>', 'AWS account ID')
+  // Deploy
+  .option('--require-approval <level>', 'deploy: approval of the security-sensitive changes (never, any-change or broadening), passed to cdk deploy')
+  // Destroy
+  .option('--all', 'destroy: every stack of the setup')
+  .option('--instance-stack', 'destroy: the instance stack')
+  .option('--role-stack', 'destroy: the role stack, and the instance stack depending on it')
+  .option('--certificate-stack', 'destroy: the certificate stack, and the stacks depending on it. Refused while its certificates are associated with other roles')
+  .option('--monitoring-stack', 'destroy: the monitoring stack, and the instance stack depending on it')
+  .option('--image-builder-stack', 'destroy: the image builder stack, and the instance stack depending on it')
+  .option('--dry-run', 'destroy: print the stacks and resources that would be deleted (or retained), without deleting anything')
+  .option('--yes', 'destroy: do not ask for a confirmation before deleting each stack')
+  // Export
+  .option('--output-dir <dir>', 'export: directory of the templates, with a subdirectory per environment (default: cdk-export)')
 
 program.parse(process.argv);
 
 const options = program.opts<{
-  setupName: string;
+  config?: string;
+  printConfig?: boolean;
+  environment?: string;
+  setupName?: string;
   // Certificate config
   certificateName?: string;
-  domainName: string;
-  isPrivate: boolean;
+  domainName?: string;
+  subjectAlternativeNames?: string[];
+  isPrivate?: boolean;
   hostedZoneId?: string;
   validationType?: 'DNS' | 'EMAIL';
   certificateArn?: string;
   pcaArn?: string;
+  createPrivateCa?: boolean;
+  privateCaCommonName?: string;
   // Role config
   roleName?: string;
+  existingRoleArn?: string;
+  disableSessionManager?: boolean;
+  sessionLogsS3?: boolean;
+  sessionLogsCloudwatch?: boolean;
   // Instance config
   instanceName?: string;
-  keyPairName: string;
-  webServerType: 'NGINX' | 'APACHE';
-  amiType: 'AL2' | 'AL2023';
-  instanceType: string;
-  encryptVolume: boolean;
-  allowSshPort: boolean;
+  existingInstanceIds?: string[];
+  keyPairName?: string;
+  webServerType?: string;
+  amiType?: 'AL2' | 'AL2023';
+  instanceType?: string;
+  amiId?: string;
+  amiSsmParameter?: string;
+  preinstalledAmi?: boolean;
+  encryptVolume?: boolean;
+  allowSshPort?: boolean;
+  sshCidrs?: string[];
+  httpsCidrs?: string[];
+  httpsPort?: number;
+  disableHttp?: boolean;
+  securityGroupIds?: string[];
+  enclaveCpuCount?: number;
+  enclaveMemoryMib?: number;
+  fleet?: boolean;
+  minCapacity?: number;
+  maxCapacity?: number;
+  desiredCapacity?: number;
+  vpcId?: string;
+  subnetIds?: string[];
+  createVpc?: boolean;
+  privateSubnets?: boolean;
+  volumeSize?: number;
+  volumeType?: 'gp2' | 'gp3' | 'io1' | 'io2';
+  createVolumeKey?: boolean;
+  volumeKmsKeyArn?: string;
+  detailedMonitoring?: boolean;
+  terminationProtection?: boolean;
+  owner?: string;
+  costCenter?: string;
+  // Monitoring config
+  monitoring?: boolean;
+  alarmEmails?: string[];
+  // Image Builder config
+  goldenImage?: boolean;
+  imageBuildSchedule?: string;
+  // Compliance config
+  failOnComplianceErrors?: boolean;
+  skipComplianceChecks?: boolean;
   // General config
-  awsRegion: string;
-  awsAccountId: string;
+  awsRegion?: string;
+  awsAccountId?: string;
+  // Deploy
+  requireApproval?: string;
+  // Destroy
+  all?: boolean;
+  instanceStack?: boolean;
+  roleStack?: boolean;
+  certificateStack?: boolean;
+  monitoringStack?: boolean;
+  imageBuilderStack?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+  // Export
+  outputDir?: string;
 }>();
 
-const config: NitroEnclavesAcmStreamlineConfig = {
+const subcommand = program.args[0];
+const isDestroySubcommand = subcommand === 'destroy';
+
+// Only the flags that were given override the config file and env vars
+const cliConfig: NitroEnclavesAcmStreamlineConfigFile = {
+  setupName: options.setupName,
   certificateConfig: {
-    stackName: `${options.setupName!}-CertificateStack`,
-    domainName: options.domainName!,
-    isPrivate: options.isPrivate || false,
-    certificateName: options.certificateName || 'AcmneCertificate',
+    domainName: options.domainName,
+    subjectAlternativeNames: options.subjectAlternativeNames,
+    isPrivate: options.isPrivate,
+    certificateName: options.certificateName,
     existingCertificateArn: options.certificateArn,
     hostedZoneId: options.hostedZoneId,
     validationType: options.validationType,
     pcaArn: options.pcaArn,
+    privateCa: {
+      mode: options.createPrivateCa ? 'create' : undefined,
+      subject: options.privateCaCommonName ? { commonName: options.privateCaCommonName } : undefined,
+    },
   },
   roleConfig: {
-    stackName: `${options.setupName!}-RoleStack`,
-    roleName: options.roleName || 'AcmneRole',
+    roleName: options.roleName,
+    existingRoleArn: options.existingRoleArn,
+    sessionManager: {
+      enabled: options.disableSessionManager ? false : undefined,
+      logToS3: options.sessionLogsS3,
+      logToCloudWatch: options.sessionLogsCloudwatch,
+    },
   },
   instanceConfig: {
-    stackName: `${options.setupName!}-InstanceStack`,
-    instanceName: options.instanceName || 'AcmneInstance',
-    keyPairName: options.keyPairName!,
-    instanceType: options.instanceType || 'c5.xlarge',
-    serverType: options.webServerType || 'NGINX',
-    amiType: options.amiType || 'AL2023',
-    encryptVolume: options.encryptVolume || false,
-    allowSSHPort: options.allowSshPort || false,
+    instanceName: options.instanceName,
+    existingInstanceIds: options.existingInstanceIds,
+    keyPairName: options.keyPairName,
+    instanceType: options.instanceType,
+    serverType: options.webServerType,
+    amiType: options.amiType,
+    encryptVolume: options.encryptVolume,
+    image: {
+      amiId: options.amiId,
+      ssmParameterName: options.amiSsmParameter,
+      preinstalled: options.preinstalledAmi,
+    },
+    allowSSHPort: options.allowSshPort,
+    vpc: {
+      mode: options.vpcId ? 'existing' : options.createVpc ? 'create' : undefined,
+      vpcId: options.vpcId,
+      subnetIds: options.subnetIds,
+      subnetType: options.privateSubnets ? 'PRIVATE' : undefined,
+    },
+    networkAccess: {
+      httpsPort: options.httpsPort,
+      httpsSources: { cidrs: options.httpsCidrs },
+      allowHttp: options.disableHttp ? false : undefined,
+      sshSources: { cidrs: options.sshCidrs },
+      additionalSecurityGroupIds: options.securityGroupIds,
+    },
+    enclave: {
+      cpuCount: options.enclaveCpuCount,
+      memoryMiB: options.enclaveMemoryMib,
+    },
+    deploymentMode: options.fleet ? 'fleet' : undefined,
+    fleet: {
+      minCapacity: options.minCapacity,
+      maxCapacity: options.maxCapacity,
+      desiredCapacity: options.desiredCapacity,
+    },
+    hardening: {
+      volumeKms: {
+        mode: options.volumeKmsKeyArn ? 'existing' : options.createVolumeKey ? 'create' : undefined,
+        keyArn: options.volumeKmsKeyArn,
+      },
+      volume: {
+        sizeGiB: options.volumeSize,
+        type: options.volumeType,
+      },
+      detailedMonitoring: options.detailedMonitoring,
+      terminationProtection: options.terminationProtection,
+      tags: {
+        owner: options.owner,
+        costCenter: options.costCenter,
+      },
+    },
+  },
+  monitoringConfig: {
+    // The monitoring stack is synthesized to be destroyed, even when monitoring is not configured
+    enabled: options.monitoring || (isDestroySubcommand && (options.all || options.monitoringStack)) || undefined,
+    notificationEmails: options.alarmEmails,
   },
-  region: options.awsRegion || 'us-east-1',
-  account: options.awsAccountId!,
+  imageBuilderConfig: {
+    // The image builder stack is synthesized to be destroyed, even when it is not configured
+    enabled: options.goldenImage || (isDestroySubcommand && (options.all || options.imageBuilderStack)) || undefined,
+    scheduleExpression: options.imageBuildSchedule,
+  },
+  complianceConfig: {
+    enabled: options.skipComplianceChecks ? false : undefined,
+    failOnError: options.failOnComplianceErrors,
+  },
+  region: options.awsRegion,
+  account: options.awsAccountId,
 };
 
-const isDestroySubcommand = program.args[0] === 'destroy';
+let configFile: LoadedConfigFile | undefined;
+let environments: SetupEnvironment[];
+try {
+  configFile = options.config ? ConfigLoader.loadFile(options.config) : undefined;
+  environments = ConfigLoader.resolveEnvironments({ configFile, cliConfig, environment: options.environment });
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+const getEnvironmentLabel = (environment: SetupEnvironment): string => environment.name ? ` (environment ${environment.name})` : '';
+
+if (options.printConfig) {
+  console.log(environments.map(environment => environment.name
+    ? `---\n# Environment ${environment.name}\n${ConfigLoader.print(environment.config)}`
+    : ConfigLoader.print(environment.config)).join(''));
+  process.exit(0);
+}
+
+// Report every error and warning at once, located in the config file when possible
+const reports: { label: string; report: ValidationReport }[] = [
+  ...environments.map(environment => ({
+    label: getEnvironmentLabel(environment),
+    report: ConfigLoader.locateIssues(subcommand === 'deploy'
+      ? ConfigValidator.validateDeployment(environment.config)
+      : ConfigValidator.validate(environment.config, isDestroySubcommand), configFile, environment.name),
+  })),
+  { label: ' (environments)', report: ConfigLoader.locateIssues(ConfigValidator.validateEnvironments(environments), configFile) },
+];
+const hasErrors = reports.some(({ report }) => report.hasErrors());
+if (subcommand === 'validate') {
+  const withIssues = reports.filter(({ report }) => report.issues.length > 0);
+  console.log(withIssues.length > 0
+    ? withIssues.map(({ label, report }) => `Configuration issues${label}:\n${report.format()}`).join('\n')
+    : 'Configuration is valid.');
+  process.exit(hasErrors ? 1 : 0);
+}
+for (const { label, report } of reports) {
+  if (report.hasErrors()) {
+    console.error(new ConfigValidationError(report, `Invalid configuration${label}`).message);
+  } else if (report.warnings.length > 0) {
+    console.warn(`Configuration warnings${label}:\n${report.format(report.warnings)}`);
+  }
+}
+if (hasErrors) {
+  process.exit(1);
+}
+
+// Command synthesizing the app again for the CDK CLI, restricted to one environment of the config file
+const getAppCommand = (environment?: string): string => getTsNodeCommand(path.resolve(__dirname, '..', '..'), [
+  ...process.argv.slice(1),
+  ...(environment && !options.environment ? ['--environment', environment] : []),
+]);
+
+// Run by the user: deploy the environments in order with the CDK CLI, which runs this command again (with CDK_OUTDIR set) to synthesize the app
+if (subcommand === 'deploy' && !process.env[cxapi.OUTDIR_ENV]) {
+  try {
+    deploySetup(environments, { requireApproval: options.requireApproval, getAppCommand });
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// Run by the user: delete the selected stacks with the CDK CLI, which runs this command again (with CDK_OUTDIR set) to synthesize the app
+if (isDestroySubcommand && !process.env[cxapi.OUTDIR_ENV]) {
+  const getSelectedStackNames = (config: NitroEnclavesAcmStreamlineConfig): string[] => [
+    ...(options.all || options.instanceStack ? [config.instanceConfig.stackName] : []),
+    ...(options.all || options.monitoringStack ? [config.monitoringConfig!.stackName] : []),
+    ...(options.all || options.imageBuilderStack ? [config.imageBuilderConfig!.stackName] : []),
+    ...(options.all || options.roleStack ? [config.roleConfig?.stackName || 'RoleStack'] : []),
+    ...(options.all || options.certificateStack ? [config.certificateConfig.stackName] : []),
+  ];
+  if (getSelectedStackNames(environments[0].config).length === 0) {
+    console.error('No stack selected: use --all, --instance-stack, --role-stack, --certificate-stack, --monitoring-stack or --image-builder-stack.');
+    process.exit(1);
+  }
+  try {
+    for (const environment of environments) {
+      if (environment.name) {
+        console.log(`Environment ${environment.name} (${environment.config.account}/${environment.config.region})`);
+      }
+      destroySetup(environment.config, {
+        stackNames: getSelectedStackNames(environment.config),
+        dryRun: options.dryRun,
+        force: options.yes,
+        appCommand: getAppCommand(environment.name),
+        environment: environment.name,
+      });
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// Run by the user: write the templates of each environment, and the commands deploying them in order
+if (subcommand === 'export' && !process.env[cxapi.OUTDIR_ENV]) {
+  const outputDir = options.outputDir || 'cdk-export';
+  try {
+    for (const environment of environments) {
+      const templates = exportTemplates(environment.config, {
+        outputDir: environment.name ? path.join(outputDir, environment.name) : outputDir,
+        // The CDK CLI looks up the context values from the cdk project, the paths of the options are relative to the current directory
+        appCommand: `cd ${quoteShellArg(process.cwd())} && ${getAppCommand(environment.name)}`,
+      });
+      console.log(`Templates${getEnvironmentLabel(environment)}, to deploy in this order (the parameters default to the configured values):`);
+      for (const template of templates) {
+        const parameters = Object.entries(template.parameters).map(([name, value]) => `${name}=${value}`);
+        console.log([
+          `aws cloudformation deploy --stack-name ${template.stackName} --template-file ${quoteShellArg(template.templateFile)}`,
+          `--region ${environment.config.region} --capabilities CAPABILITY_IAM CAPABILITY_NAMED_IAM`,
+          ...(template.size > MAX_TEMPLATE_BODY_SIZE ? ['--s3-bucket <bucket>'] : []),
+          ...(parameters.length > 0 ? ['--parameter-overrides', ...parameters.map(quoteShellArg)] : []),
+        ].join(' '));
+      }
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  console.log('The stack names are part of the export names imported by the next templates: keep them.');
+  process.exit(0);
+}
 
-console.log('ACM for Nitro Enclaves configuration:\n', config)
-const streamline = new NitroEnclavesAcmStreamline(config, isDestroySubcommand);
-streamline.deploy();
\ No newline at end of file
+// Synthesized for the CDK CLI: the stacks of a multi-environment config file are in a stage per environment
+const app = new cdk.App();
+for (const environment of environments) {
+  console.log(`ACM for Nitro Enclaves configuration${getEnvironmentLabel(environment)}:\n`, environment.config);
+  if (environment.name) {
+    new SetupStage(app, environment.name, { config: environment.config, isDestroySubcommand });
+  } else {
+    new NitroEnclavesAcmStreamline(environment.config, isDestroySubcommand, app).deploy();
+  }
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { existsSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { stringify } from 'yaml';
+import { ConsolePrompter } from '../lib/init/prompter';
+import { SetupWizard } from '../lib/init/setup-wizard';
+import { quoteShellArg } from '../lib/shell';
+
+const program = new Command();
+
+program
+  .name('setup-tool init')
+  .description('Interactive wizard writing a config file for setup-tool deploy')
+  .option('-o, --output <path>', 'Config file to write (default: setup.yaml)')
+  .option('--force', 'Overwrite the config file if it exists');
+
+program.parse(process.argv);
+
+const options = program.opts<{ output?: string; force?: boolean }>();
+const CONFIG_FILE_SCHEMA = path.join(__dirname, '..', '..', 'schema', 'setup-config-file.schema.json');
+
+const run = async (): Promise<void> => {
+  const prompter = new ConsolePrompter();
+  let output = options.output || 'setup.yaml';
+  while (existsSync(output) && !options.force && !(await prompter.confirm(`${output} already exists, overwrite it?`))) {
+    output = await prompter.input('Config file to write');
+  }
+
+  prompter.print('ACM for Nitro Enclaves setup: press Enter to use the [default] value of a question.\n');
+  const result = await new SetupWizard(prompter).run();
+  // Schema reference of the YAML language server, relative to the config file
+  const schema = path.relative(path.dirname(path.resolve(output)), CONFIG_FILE_SCHEMA);
+  writeFileSync(output, `# yaml-language-server: $schema=${schema}\n#\n# Written by setup-tool init\n${stringify(result.config)}`);
+
+  prompter.print(`\nConfig file written to ${output}.`);
+  if (result.report.issues.length > 0) {
+    prompter.print(`Configuration issues${result.report.hasErrors() ? ', fix the errors before deploying' : ''}:\n${result.report.format()}`);
+  }
+  prompter.print(`Deploy the setup with:\n  setup-tool deploy --config ${quoteShellArg(output)}`);
+  prompter.print(`or, without the config file:\n  setup-tool deploy ${result.deployArgs.map(quoteShellArg).join(' ')}`);
+};
+
+run().then(() => process.exit(0), (error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
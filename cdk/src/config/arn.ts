@@ -0,0 +1,33 @@
+// config/arn.ts
+
+export interface ParsedArn {
+  partition: string;
+  service: string;
+  region: string;
+  account: string;
+  resource: string;
+}
+
+// arn:<partition>:<service>:<region>:<account>:<resource>, undefined if malformed
+export const parseArn = (arn: string): ParsedArn | undefined => {
+  const parts = arn.split(':');
+  if (parts.length < 6 || parts[0] !== 'arn' || !parts[1] || !parts[2]) {
+    return undefined;
+  }
+  return {
+    partition: parts[1],
+    service: parts[2],
+    region: parts[3],
+    account: parts[4],
+    resource: parts.slice(5).join(':'),
+  };
+};
+
+// Partition a region belongs to (e.g. cn-north-1 -> aws-cn)
+export const getRegionPartition = (region: string): string => {
+  if (region.startsWith('cn-')) return 'aws-cn';
+  if (region.startsWith('us-gov-')) return 'aws-us-gov';
+  if (region.startsWith('us-iso-')) return 'aws-iso';
+  if (region.startsWith('us-isob-')) return 'aws-iso-b';
+  return 'aws';
+};
@@ -0,0 +1,28 @@
+// config/certificates.ts
+import { CertificateDefinition, NitroEnclavesAcmStreamlineConfig } from './types';
+
+export const DEFAULT_CERTIFICATE_NAME = 'AcmneCertificate';
+
+export interface NamedCertificateDefinition extends CertificateDefinition {
+  certificateName: string;
+}
+
+// Primary and additional certificates, each with a name (AcmneCertificate, AcmneCertificate2, ...)
+// Private certificates without a pcaArn get the one of an existing privateCa
+export const getCertificateDefinitions = (certificateConfig: NitroEnclavesAcmStreamlineConfig['certificateConfig']): NamedCertificateDefinition[] => {
+  const { stackName, additionalCertificates, privateCa, ...primary } = certificateConfig;
+  const defaultPcaArn = privateCa?.mode === 'existing' ? privateCa.pcaArn : undefined;
+  return [primary, ...(additionalCertificates || [])].map((definition, index) => ({
+    ...definition,
+    certificateName: definition.certificateName || (index === 0 ? DEFAULT_CERTIFICATE_NAME : `${DEFAULT_CERTIFICATE_NAME}${index + 1}`),
+    pcaArn: definition.pcaArn || (definition.isPrivate ? defaultPcaArn : undefined),
+  }));
+};
+
+// Private certificates issued by the CA created in CertificateStack
+export const usesCreatedPrivateCa = (certificateConfig: NitroEnclavesAcmStreamlineConfig['certificateConfig'], definition: CertificateDefinition): boolean =>
+  certificateConfig.privateCa?.mode === 'create' && definition.isPrivate && !definition.pcaArn && !definition.existingCertificateArn;
+
+// Config path of a certificate definition, for validation reports
+export const getCertificatePath = (index: number): string =>
+  index === 0 ? 'certificateConfig' : `certificateConfig.additionalCertificates.${index - 1}`;
@@ -0,0 +1,276 @@
+// config/config-loader.ts
+import Ajv, { ErrorObject } from 'ajv';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { Document, LineCounter, parseDocument, stringify } from 'yaml';
+import { DeepPartial, EnvironmentDefinition, NitroEnclavesAcmStreamlineConfig, NitroEnclavesAcmStreamlineConfigFile, SetupEnvironment } from './types';
+import { ConfigValidationError, ValidationReport } from './config-validator';
+
+// JSON Schemas generated from types.ts (npm run schema)
+const SCHEMA_FOLDER = path.join(__dirname, '..', '..', 'schema');
+const CONFIG_FILE_SCHEMA = 'setup-config-file.schema.json';
+const CONFIG_SCHEMA = 'setup-config.schema.json';
+// Environment names are part of the setup name and of the stage paths
+const ENVIRONMENT_NAME_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+// Environment variables that can override config file values
+const ENV_VARIABLES: { [name: string]: string[] } = {
+  DOMAIN_NAME: ['certificateConfig', 'domainName'],
+  CERTIFICATE_ARN: ['certificateConfig', 'existingCertificateArn'],
+  HOSTED_ZONE_ID: ['certificateConfig', 'hostedZoneId'],
+  PCA_ARN: ['certificateConfig', 'pcaArn'],
+  KEY_PAIR_NAME: ['instanceConfig', 'keyPairName'],
+  AWS_REGION: ['region'],
+  AWS_ACCOUNT: ['account'],
+};
+
+export interface LoadedConfigFile {
+  path: string;
+  config: NitroEnclavesAcmStreamlineConfigFile;
+  document: Document;
+  lineCounter: LineCounter;
+}
+
+export interface ConfigSources {
+  // Lowest precedence: YAML or JSON config file
+  configFile?: LoadedConfigFile;
+  // Highest precedence: values given as CLI flags
+  cliConfig?: NitroEnclavesAcmStreamlineConfigFile;
+  // Environment of a multi-environment config file, whose values override the shared ones (required when it declares environments)
+  environment?: string;
+}
+
+export class ConfigLoader {
+  // Parse a YAML or JSON config file and validate it against the config file schema
+  static loadFile(filePath: string): LoadedConfigFile {
+    const content = readFileSync(filePath, 'utf8');
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter });
+
+    if (document.errors.length > 0) {
+      const report = new ValidationReport();
+      for (const error of document.errors) {
+        const location = error.linePos ? `${filePath}:${error.linePos[0].line}:${error.linePos[0].col}` : filePath;
+        report.error('INVALID_SYNTAX', '<root>', error.message.split('\n')[0], location);
+      }
+      throw new ConfigValidationError(report, `Unable to parse config file ${filePath}`);
+    }
+
+    const loaded: LoadedConfigFile = {
+      path: filePath,
+      config: (document.toJS() || {}) as NitroEnclavesAcmStreamlineConfigFile,
+      document,
+      lineCounter,
+    };
+    ConfigLoader.validateSchema(CONFIG_FILE_SCHEMA, loaded.config, `Invalid config file ${filePath}`, loaded);
+    ConfigLoader.validateEnvironments(loaded);
+    return loaded;
+  }
+
+  // Config values set through environment variables (and .env)
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): NitroEnclavesAcmStreamlineConfigFile {
+    const config: ConfigObject = {};
+    for (const [name, fieldPath] of Object.entries(ENV_VARIABLES)) {
+      if (env[name]) {
+        setIn(config, fieldPath, env[name]);
+      }
+    }
+    return config;
+  }
+
+  // Merge defaults < config file < env vars < environment of the config file < CLI flags into the effective configuration
+  static resolve(sources: ConfigSources, env: NodeJS.ProcessEnv = process.env): NitroEnclavesAcmStreamlineConfig {
+    const fileConfig = sources.configFile?.config || {};
+    const cliConfig = sources.cliConfig || {};
+    const setupName = cliConfig.setupName || fileConfig.setupName;
+    if (!setupName) {
+      throw new Error('A setup name is required (--setup-name or setupName in the config file).');
+    }
+    const { name: environmentName, ...environmentConfig } = getEnvironment(fileConfig, sources.environment) || {};
+
+    const merged = [fileConfig, ConfigLoader.fromEnv(env), environmentConfig, cliConfig]
+      .reduce<ConfigObject>((result, layer) => deepMerge(result, layer),
+        getBaseConfig(environmentName ? `${setupName}-${environmentName}` : setupName));
+    delete merged.setupName;
+    delete merged.environments;
+    delete merged.$schema;
+
+    ConfigLoader.validateSchema(CONFIG_SCHEMA, merged, 'Invalid configuration', sources.configFile);
+    // Checked against the schema of the configuration above
+    return merged as unknown as NitroEnclavesAcmStreamlineConfig;
+  }
+
+  // Effective configuration of the selected environment, or of every environment in their order (a single one without environments)
+  static resolveEnvironments(sources: ConfigSources, env: NodeJS.ProcessEnv = process.env): SetupEnvironment[] {
+    const environmentNames = sources.environment
+      ? [sources.environment]
+      : (sources.configFile?.config.environments || []).map(environment => environment.name);
+    if (environmentNames.length === 0) {
+      return [{ config: ConfigLoader.resolve(sources, env) }];
+    }
+    return environmentNames.map(name => ({ name, config: ConfigLoader.resolve({ ...sources, environment: name }, env) }));
+  }
+
+  // Effective configuration, as a config file
+  static print(config: NitroEnclavesAcmStreamlineConfig): string {
+    return stringify(config);
+  }
+
+  // Attach the config file location of the offending fields to the issues of a report (in the environment overrides first)
+  static locateIssues(report: ValidationReport, configFile?: LoadedConfigFile, environment?: string): ValidationReport {
+    if (configFile) {
+      const environmentIndex = (configFile.config.environments || []).findIndex(definition => definition.name === environment);
+      for (const issue of report.issues) {
+        const fieldPath = issue.path.split('.');
+        issue.location = issue.location
+          || (environmentIndex >= 0 ? locate(configFile, ['environments', `${environmentIndex}`, ...fieldPath]) : undefined)
+          || locate(configFile, fieldPath);
+      }
+    }
+    return report;
+  }
+
+  // Unique environment names, usable in the setup name
+  private static validateEnvironments(configFile: LoadedConfigFile): void {
+    const report = new ValidationReport();
+    const names = new Set<string>();
+    (configFile.config.environments || []).forEach((environment, index) => {
+      if (!ENVIRONMENT_NAME_PATTERN.test(environment.name)) {
+        report.error('INVALID_ENVIRONMENT_NAME', `environments.${index}.name`, `"${environment.name}" is not a valid environment name (letters, digits and hyphens).`);
+      } else if (names.has(environment.name)) {
+        report.error('DUPLICATE_ENVIRONMENT_NAME', `environments.${index}.name`, `Environment "${environment.name}" is declared more than once.`);
+      }
+      names.add(environment.name);
+    });
+    if (report.hasErrors()) {
+      throw new ConfigValidationError(ConfigLoader.locateIssues(report, configFile), `Invalid config file ${configFile.path}`);
+    }
+  }
+
+  private static validateSchema(schemaFile: string, value: unknown, title: string, configFile?: LoadedConfigFile): void {
+    const schema = JSON.parse(readFileSync(path.join(SCHEMA_FOLDER, schemaFile), 'utf8'));
+    const validate = new Ajv({ allErrors: true, strict: false }).compile(schema);
+    if (!validate(value)) {
+      const report = new ValidationReport();
+      for (const error of validate.errors || []) {
+        addSchemaError(report, error);
+      }
+      throw new ConfigValidationError(ConfigLoader.locateIssues(report, configFile), title);
+    }
+  }
+}
+
+// Values used when neither the config file, env vars nor CLI flags provide one
+const getBaseConfig = (setupName: string): DeepPartial<NitroEnclavesAcmStreamlineConfig> => ({
+  certificateConfig: {
+    stackName: `${setupName}-CertificateStack`,
+    certificateName: 'AcmneCertificate',
+    domainName: 'example.com',
+    isPrivate: false,
+  },
+  roleConfig: {
+    stackName: `${setupName}-RoleStack`,
+    roleName: 'AcmneRole',
+  },
+  instanceConfig: {
+    stackName: `${setupName}-InstanceStack`,
+    instanceName: 'AcmneInstance',
+    keyPairName: 'my-key-pair-name',
+    instanceType: 'c5.xlarge',
+    serverType: 'NGINX',
+    amiType: 'AL2023',
+    encryptVolume: false,
+    allowSSHPort: false,
+    hardening: {
+      tags: { setupName },
+    },
+  },
+  monitoringConfig: {
+    stackName: `${setupName}-MonitoringStack`,
+    dashboardName: setupName,
+  },
+  imageBuilderConfig: {
+    stackName: `${setupName}-ImageBuilderStack`,
+  },
+  region: 'us-east-1',
+});
+
+// Environment selected in a multi-environment config file, undefined without environments
+const getEnvironment = (fileConfig: NitroEnclavesAcmStreamlineConfigFile, name?: string): EnvironmentDefinition | undefined => {
+  const environments = fileConfig.environments || [];
+  const names = environments.map(environment => environment.name).join(', ');
+  if (!name) {
+    if (environments.length > 0) {
+      throw new Error(`The config file declares the environments ${names}: select one (--environment).`);
+    }
+    return undefined;
+  }
+  const environment = environments.find(definition => definition.name === name);
+  if (!environment) {
+    throw new Error(`Unknown environment "${name}", the config file declares: ${names || 'none'}.`);
+  }
+  return environment;
+};
+
+const addSchemaError = (report: ValidationReport, error: ErrorObject): void => {
+  const fieldPath = error.instancePath.split('/').slice(1);
+  let message = error.message || 'is invalid';
+  if (error.keyword === 'additionalProperties') {
+    fieldPath.push(error.params.additionalProperty);
+    message = 'is not a known configuration field';
+  } else if (error.keyword === 'required') {
+    fieldPath.push(error.params.missingProperty);
+    message = 'is required';
+  } else if (error.keyword === 'enum') {
+    message = `must be one of ${error.params.allowedValues.join(', ')}`;
+  }
+
+  report.error(`SCHEMA_${error.keyword.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`, fieldPath.join('.') || '<root>', message);
+};
+
+// <file>:<line>:<column> of a field, undefined when it is not in the config file
+const locate = (configFile: LoadedConfigFile, fieldPath: string[]): string | undefined => {
+  const node = configFile.document.getIn(fieldPath, true) as { range?: [number, number, number] } | undefined;
+  if (!node?.range) {
+    return undefined;
+  }
+  const { line, col } = configFile.lineCounter.linePos(node.range[0]);
+  return `${configFile.path}:${line}:${col}`;
+};
+
+// Section of a configuration being merged or built
+type ConfigObject = { [key: string]: unknown };
+
+const isPlainObject = (value: unknown): value is ConfigObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Undefined values do not override (nor create empty sections), arrays are replaced as a whole
+const deepMerge = (target: ConfigObject, source: object): ConfigObject => {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (isPlainObject(value)) {
+      const current = result[key];
+      const merged = deepMerge(isPlainObject(current) ? current : {}, value);
+      if (Object.keys(merged).length > 0) {
+        result[key] = merged;
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+export const setIn = (target: object, fieldPath: string[], value: unknown): void => {
+  const parent = fieldPath.slice(0, -1).reduce<ConfigObject>((node, key) => {
+    const child = node[key];
+    if (isPlainObject(child)) {
+      return child;
+    }
+    return (node[key] = {});
+  }, target as ConfigObject);
+  parent[fieldPath[fieldPath.length - 1]] = value;
+};
@@ -1,73 +1,1030 @@
 // config/config-validator.ts
-import { NitroEnclavesAcmStreamlineConfig } from './types';
+import { isIPv6 } from 'net';
+import {
+  CertificateDefinition,
+  EnclaveConfig,
+  FleetConfig,
+  HardeningConfig,
+  IngressSources,
+  NetworkAccessConfig,
+  NitroEnclavesAcmStreamlineConfig,
+  SessionManagerConfig,
+  SetupEnvironment,
+  TlsConfig,
+  VpcConfig,
+} from './types';
+import { getCertificateDefinitions, getCertificatePath } from './certificates';
+import { getRegionPartition, parseArn } from './arn';
+import { getServerType, getServerTypeNames } from '../lib/user-data/server-types';
+import { getSetupTags } from '../lib/tags';
+import { getComplianceRule, getComplianceRules } from '../lib/compliance/compliance-rules';
+import { DEFAULT_ENCLAVE_RESOURCES, getEnclaveSupport, getInstanceTypeInfo, THREADS_PER_CORE } from './instance-types';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  // Stable identifier of the check (e.g. ARN_REGION_MISMATCH)
+  code: string;
+  // Offending field (e.g. certificateConfig.pcaArn)
+  path: string;
+  message: string;
+  // <file>:<line>:<column>, when the field comes from a config file
+  location?: string;
+}
+
+export class ValidationReport {
+  public readonly issues: ValidationIssue[] = [];
+
+  get errors(): ValidationIssue[] {
+    return this.issues.filter(issue => issue.severity === 'error');
+  }
+
+  get warnings(): ValidationIssue[] {
+    return this.issues.filter(issue => issue.severity === 'warning');
+  }
+
+  hasErrors(): boolean {
+    return this.errors.length > 0;
+  }
+
+  error(code: string, path: string, message: string, location?: string): void {
+    this.issues.push({ severity: 'error', code, path, message, location });
+  }
+
+  warning(code: string, path: string, message: string, location?: string): void {
+    this.issues.push({ severity: 'warning', code, path, message, location });
+  }
+
+  format(issues: ValidationIssue[] = this.issues): string {
+    return issues
+      .map(issue => `  ${issue.severity.toUpperCase().padEnd(7)} ${issue.code}: ${issue.location ? `${issue.location} ` : ''}${issue.path}: ${issue.message}`)
+      .join('\n');
+  }
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly report: ValidationReport, title: string = 'Invalid configuration') {
+    super(`${title}:\n${report.format(report.errors)}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const DEFAULT_KEY_PAIR_NAME = 'my-key-pair-name';
+// Warnings of the placeholders: the setup synthesizes, but cannot be deployed with them
+const DEPLOYMENT_ERRORS = ['DEFAULT_KEY_PAIR_NAME'];
+const ACCOUNT_PATTERN = /^\d{12}$/;
+const REGION_PATTERN = /^[a-z]{2}(-gov|-iso[a-z]?)?-[a-z]+-\d+$/;
+const STACK_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9-]{0,127}$/;
+const ROLE_NAME_PATTERN = /^[\w+=,.@-]{1,64}$/;
+const INSTANCE_TYPE_PATTERN = /^[a-z0-9-]+\.[a-z0-9-]+$/;
+const VPC_ID_PATTERN = /^vpc-[0-9a-f]{8,17}$/;
+const SUBNET_ID_PATTERN = /^subnet-[0-9a-f]{8,17}$/;
+const CIDR_V4_PATTERN = /^(\d{1,3}\.){3}\d{1,3}\/(\d|[12]\d|3[0-2])$/;
+const PREFIX_LIST_ID_PATTERN = /^pl-[0-9a-f]{8,17}$/;
+const SECURITY_GROUP_ID_PATTERN = /^sg-[0-9a-f]{8,17}$/;
+const INSTANCE_ID_PATTERN = /^i-[0-9a-f]{8,17}$/;
+const AMI_ID_PATTERN = /^ami-[0-9a-f]{8,17}$/;
+const SSM_PARAMETER_NAME_PATTERN = /^\/?[A-Za-z0-9_.\-/]{1,1011}$/;
+const SEMANTIC_VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const SCHEDULE_EXPRESSION_PATTERN = /^(cron|rate)\(.+\)$/;
+const WORLD_CIDRS = ['0.0.0.0/0', '::/0'];
+const LOG_RETENTION_DAYS = [1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827, 2192, 2557, 2922, 3288, 3653];
+// Memory of the enclave running the ACM for Nitro Enclaves service, resources kept by the parent instance
+const MIN_ENCLAVE_MEMORY_MIB = 256;
+const MIN_PARENT_VCPUS = 2;
+const MIN_PARENT_MEMORY_MIB = 1024;
+const TLS_PROTOCOLS = ['TLSv1.2', 'TLSv1.3'];
+const CIPHERS_PATTERN = /^[A-Za-z0-9!+@=_:.-]+$/;
+const HOSTED_ZONE_ID_PATTERN = /^Z[A-Z0-9]{1,31}$/;
+const DASHBOARD_NAME_PATTERN = /^[A-Za-z0-9_-]{1,255}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// ACM starts renewing managed certificates 60 days before they expire
+const MAX_EXPIRY_THRESHOLD_DAYS = 60;
+// Default ACM quota of domain names per certificate (domainName included)
+const MAX_DEFAULT_CERTIFICATE_NAMES = 10;
+const VOLUME_TYPES = ['gp2', 'gp3', 'io1', 'io2'];
+// EBS limits of the provisioned IOPS per volume type: [min, max, max per GiB]
+const VOLUME_IOPS_LIMITS: { [type: string]: [number, number, number] } = {
+  gp3: [3000, 16000, 500],
+  io1: [100, 64000, 50],
+  io2: [100, 256000, 1000],
+};
+const RESERVED_TAG_PREFIX = 'aws:';
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+// FQDN with at least two labels, optionally with a leading wildcard label (*.example.com)
+export const isValidDomainName = (domainName: string): boolean => {
+  const name = domainName.endsWith('.') ? domainName.slice(0, -1) : domainName;
+  const labels = (name.startsWith('*.') ? name.slice(2) : name).split('.');
+  return name.length <= 253 && labels.length >= 2 && labels.every(label => DOMAIN_LABEL_PATTERN.test(label));
+};
 
 export class ConfigValidator {
-    static validateCertificateStack(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): void {
-        if (!isDestroySubcommand) {
-            if (!config.certificateConfig.existingCertificateArn) {
-                if (!config.certificateConfig?.domainName) {
-                    throw new Error('domainName is required in CertificateStack.');
-                }
-
-                if (config.certificateConfig?.isPrivate === undefined) {
-                    throw new Error('isPrivate is required in CertificateStack.');
-                }
-
-                if (config.certificateConfig?.isPrivate) {
-                    // Validation for private certificates
-                    if (!config.certificateConfig.pcaArn) {
-                        throw new Error('pcaArn is required for private certificates in CertificateStack.');
-                    }
-                    if (config.certificateConfig.validationType) {
-                        throw new Error('validationType should not be specified for private certificates in CertificateStack.');
-                    }
-                    if (config.certificateConfig.hostedZoneId) {
-                        throw new Error('hostedZoneId should not be specified for private certificates in CertificateStack.');
-                    }
-                } else {
-                    if (config.certificateConfig?.pcaArn) {
-                        throw new Error('pcaArn should not be specified for public certificates in CertificateStack.');
-                    }
-                    // Validation for public certificates
-                    if (config.certificateConfig?.hostedZoneId && config.certificateConfig?.validationType) {
-                        throw new Error('validationType should not be specified when Route53 is the DNS provider (hostedZoneId is present) in CertificateStack.');
-                    }
-                    if (!config.certificateConfig?.hostedZoneId && !config.certificateConfig?.validationType) {
-                        throw new Error('Either hostedZoneId or validationType must be specified for public certificates in CertificateStack.');
-                    }
-                    if (config.certificateConfig?.validationType && !['DNS', 'EMAIL'].includes(config.certificateConfig.validationType)) {
-                        throw new Error('validationType must be either "DNS" or "EMAIL" in CertificateStack.');
-                    }
-                }
-            }
+  // Run every check and collect the issues; the deployment-only checks are skipped for destroy
+  static validate(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): ValidationReport {
+    const report = new ValidationReport();
+    ConfigValidator.validateEnv(config, report);
+    if (!isDestroySubcommand) {
+      ConfigValidator.validateCertificateStack(config, report);
+      ConfigValidator.validateRoleStack(config, report);
+      ConfigValidator.validateInstanceStack(config, report);
+      ConfigValidator.validateMonitoringStack(config, report);
+      ConfigValidator.validateCompliance(config, report);
+      ConfigValidator.validateImageBuilderStack(config, report);
+    }
+    return report;
+  }
+
+  // Checks of a deployment: those of validate, with the placeholder warnings as errors
+  static validateDeployment(config: NitroEnclavesAcmStreamlineConfig): ValidationReport {
+    const report = ConfigValidator.validate(config);
+    report.issues
+      .filter(issue => DEPLOYMENT_ERRORS.includes(issue.code))
+      .forEach(issue => issue.severity = 'error');
+    return report;
+  }
+
+  // Checks across the environments of a multi-environment config file: their stacks must not collide in a shared account and region
+  static validateEnvironments(environments: SetupEnvironment[]): ValidationReport {
+    const report = new ValidationReport();
+    const stackOwners = new Map<string, string>();
+    environments.forEach((environment, index) => {
+      const config = environment.config;
+      const stackNames: [string, string | undefined][] = [
+        ['certificateConfig', config.certificateConfig.stackName],
+        ['roleConfig', config.roleConfig?.stackName],
+        ['instanceConfig', config.instanceConfig.stackName],
+        ['monitoringConfig', config.monitoringConfig?.enabled ? config.monitoringConfig.stackName : undefined],
+        ['imageBuilderConfig', config.imageBuilderConfig?.enabled ? config.imageBuilderConfig.stackName : undefined],
+      ];
+      for (const [section, stackName] of stackNames) {
+        const key = `${config.account}/${config.region}/${stackName}`;
+        const owner = stackOwners.get(key);
+        if (stackName && owner) {
+          report.error('DUPLICATE_STACK_NAME', `environments.${index}.${section}.stackName`,
+            `Stack "${stackName}" is also deployed by the environment ${owner} in ${config.account}/${config.region}.`);
+        } else if (stackName) {
+          stackOwners.set(key, environment.name || `#${index}`);
+        }
+      }
+    });
+    return report;
+  }
+
+  // Validate and throw a ConfigValidationError listing every error, if any
+  static assertValid(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): ValidationReport {
+    const report = ConfigValidator.validate(config, isDestroySubcommand);
+    if (report.hasErrors()) {
+      throw new ConfigValidationError(report);
+    }
+    return report;
+  }
+
+  static validateCertificateStack(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    ConfigValidator.validateStackName(config.certificateConfig?.stackName, 'certificateConfig.stackName', report);
+    if (!config.certificateConfig) {
+      report.error('MISSING_DOMAIN_NAME', 'certificateConfig.domainName', 'domainName is required in CertificateStack.');
+      return;
+    }
+
+    const definitions = getCertificateDefinitions(config.certificateConfig);
+    if (config.certificateConfig.privateCa) {
+      ConfigValidator.validatePrivateCa(config, report);
+      if (!definitions.some(definition => definition.isPrivate && !definition.existingCertificateArn)) {
+        report.warning('IGNORED_FIELD', 'certificateConfig.privateCa', 'privateCa is ignored as no private certificate is created.');
+      }
+    }
+    definitions.forEach((definition, index) => {
+      ConfigValidator.validateCertificate(config, definition, getCertificatePath(index), report);
+      if (definitions.findIndex(other => other.certificateName === definition.certificateName) < index) {
+        report.error('DUPLICATE_CERTIFICATE_NAME', `${getCertificatePath(index)}.certificateName`, `certificateName "${definition.certificateName}" is used by several certificates.`);
+      }
+    });
+  }
+
+  private static validatePrivateCa(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const path = 'certificateConfig.privateCa';
+    const privateCa = config.certificateConfig.privateCa!;
+    const createFields = ['type', 'parentCaArn', 'subject', 'keyAlgorithm', 'validityYears', 'crl', 'ocsp', 'removalPolicy'] as const;
+
+    if (privateCa.mode === 'existing') {
+      if (!privateCa.pcaArn) {
+        report.error('MISSING_PCA_ARN', `${path}.pcaArn`, 'pcaArn is required when using an existing private CA.');
+      } else {
+        ConfigValidator.validateArn(config, report, `${path}.pcaArn`, privateCa.pcaArn, {
+          service: 'acm-pca',
+          resourcePrefix: 'certificate-authority/',
+          accountMismatchSeverity: 'warning',
+        });
+      }
+      createFields.filter(field => privateCa[field] !== undefined).forEach(field => {
+        report.warning('IGNORED_FIELD', `${path}.${field}`, `${field} is ignored when using an existing private CA.`);
+      });
+      return;
+    }
+    if (privateCa.mode !== 'create') {
+      report.error('INVALID_PRIVATE_CA_MODE', `${path}.mode`, 'Invalid private CA mode. Must be existing or create.');
+      return;
+    }
+
+    if (privateCa.pcaArn) {
+      report.error('CONFLICTING_FIELD', `${path}.pcaArn`, 'pcaArn can only be specified when using an existing private CA.');
+    }
+    if (privateCa.type && !['ROOT', 'SUBORDINATE'].includes(privateCa.type)) {
+      report.error('INVALID_PRIVATE_CA_TYPE', `${path}.type`, 'Invalid private CA type. Must be ROOT or SUBORDINATE.');
+    }
+    if (privateCa.type === 'SUBORDINATE') {
+      if (!privateCa.parentCaArn) {
+        report.error('MISSING_PARENT_CA_ARN', `${path}.parentCaArn`, 'parentCaArn (the root CA signing the subordinate CA) is required for a SUBORDINATE private CA.');
+      } else {
+        ConfigValidator.validateArn(config, report, `${path}.parentCaArn`, privateCa.parentCaArn, {
+          service: 'acm-pca',
+          resourcePrefix: 'certificate-authority/',
+          accountMismatchSeverity: 'warning',
+        });
+      }
+    } else if (privateCa.parentCaArn) {
+      report.warning('IGNORED_FIELD', `${path}.parentCaArn`, 'parentCaArn is ignored for a ROOT private CA.');
+    }
+    if (privateCa.keyAlgorithm && !['RSA_2048', 'RSA_4096', 'EC_prime256v1', 'EC_secp384r1'].includes(privateCa.keyAlgorithm)) {
+      report.error('INVALID_KEY_ALGORITHM', `${path}.keyAlgorithm`, 'Invalid key algorithm. Must be RSA_2048, RSA_4096, EC_prime256v1 or EC_secp384r1.');
+    }
+    if (privateCa.validityYears !== undefined && (!Number.isInteger(privateCa.validityYears) || privateCa.validityYears < 1 || privateCa.validityYears > 100)) {
+      report.error('INVALID_VALIDITY', `${path}.validityYears`, 'validityYears must be an integer between 1 and 100.');
+    }
+    if (privateCa.subject) {
+      if (!privateCa.subject.commonName || privateCa.subject.commonName.length > 64) {
+        report.error('INVALID_CA_SUBJECT', `${path}.subject.commonName`, 'The CA subject commonName is required, up to 64 characters.');
+      }
+      if (privateCa.subject.country && !/^[A-Z]{2}$/.test(privateCa.subject.country)) {
+        report.error('INVALID_CA_SUBJECT', `${path}.subject.country`, `"${privateCa.subject.country}" is not a two-letter country code (e.g. US).`);
+      }
+    }
+    const crlExpirationDays = privateCa.crl?.expirationDays;
+    if (crlExpirationDays !== undefined && (!Number.isInteger(crlExpirationDays) || crlExpirationDays < 1 || crlExpirationDays > 5000)) {
+      report.error('INVALID_CRL_EXPIRATION', `${path}.crl.expirationDays`, 'crl.expirationDays must be an integer between 1 and 5000.');
+    }
+    report.warning('PRIVATE_CA_COST', `${path}.mode`, 'A general-purpose AWS Private CA is billed monthly until it is deleted, even when no certificate is issued.');
+  }
+
+  private static validateCertificate(config: NitroEnclavesAcmStreamlineConfig, certificateConfig: CertificateDefinition, path: string, report: ValidationReport): void {
+    if (!certificateConfig.domainName) {
+      report.error('MISSING_DOMAIN_NAME', `${path}.domainName`, 'domainName is required in CertificateStack.');
+    } else if (!isValidDomainName(certificateConfig.domainName)) {
+      report.error('INVALID_DOMAIN_NAME', `${path}.domainName`, `"${certificateConfig.domainName}" is not a valid fully qualified domain name or wildcard (*.example.com).`);
+    }
+
+    const subjectAlternativeNames = certificateConfig.subjectAlternativeNames || [];
+    subjectAlternativeNames.forEach((name, index) => {
+      if (!isValidDomainName(name)) {
+        report.error('INVALID_DOMAIN_NAME', `${path}.subjectAlternativeNames.${index}`, `"${name}" is not a valid fully qualified domain name or wildcard (*.example.com).`);
+      } else if (name === certificateConfig.domainName || subjectAlternativeNames.indexOf(name) < index) {
+        report.warning('DUPLICATE_DOMAIN_NAME', `${path}.subjectAlternativeNames.${index}`, `"${name}" is listed more than once.`);
+      }
+    });
+    if (subjectAlternativeNames.length >= MAX_DEFAULT_CERTIFICATE_NAMES) {
+      report.warning('TOO_MANY_DOMAIN_NAMES', `${path}.subjectAlternativeNames`, `ACM allows ${MAX_DEFAULT_CERTIFICATE_NAMES} domain names per certificate by default, a quota increase may be needed.`);
+    }
+
+    if (certificateConfig.existingCertificateArn) {
+      ConfigValidator.validateArn(config, report, `${path}.existingCertificateArn`, certificateConfig.existingCertificateArn, {
+        service: 'acm',
+        resourcePrefix: 'certificate/',
+        // Certificates can neither be associated across regions nor shared across accounts
+        accountMismatchSeverity: 'error',
+      });
+      // hostedZoneId is still used for the Route 53 records of the domain
+      for (const field of ['pcaArn', 'validationType', 'removalPolicy'] as const) {
+        if (certificateConfig[field]) {
+          report.warning('IGNORED_FIELD', `${path}.${field}`, `${field} is ignored when existingCertificateArn is specified.`);
+        }
+      }
+      return;
+    }
+
+    if (certificateConfig.isPrivate === undefined) {
+      report.error('MISSING_IS_PRIVATE', `${path}.isPrivate`, 'isPrivate is required in CertificateStack.');
+    } else if (certificateConfig.isPrivate) {
+      // Validation for private certificates
+      const privateCa = config.certificateConfig.privateCa;
+      if (!certificateConfig.pcaArn) {
+        if (!privateCa) {
+          report.error('MISSING_PCA_ARN', `${path}.pcaArn`, 'pcaArn (or certificateConfig.privateCa) is required for private certificates in CertificateStack.');
+        }
+      } else if (privateCa?.mode !== 'existing' || certificateConfig.pcaArn !== privateCa.pcaArn) {
+        // The pcaArn of an existing privateCa is validated once, in validatePrivateCa
+        ConfigValidator.validateArn(config, report, `${path}.pcaArn`, certificateConfig.pcaArn, {
+          service: 'acm-pca',
+          resourcePrefix: 'certificate-authority/',
+          // A CA can be shared from another account through AWS RAM
+          accountMismatchSeverity: 'warning',
+        });
+      }
+      if (certificateConfig.validationType) {
+        report.error('CONFLICTING_FIELD', `${path}.validationType`, 'validationType should not be specified for private certificates in CertificateStack.');
+      }
+      if (certificateConfig.hostedZoneId) {
+        report.error('CONFLICTING_FIELD', `${path}.hostedZoneId`, 'hostedZoneId should not be specified for private certificates in CertificateStack.');
+      }
+    } else {
+      // Validation for public certificates
+      if (certificateConfig.pcaArn) {
+        report.error('CONFLICTING_FIELD', `${path}.pcaArn`, 'pcaArn should not be specified for public certificates in CertificateStack.');
+      }
+      if (certificateConfig.hostedZoneId && certificateConfig.validationType) {
+        report.error('CONFLICTING_FIELD', `${path}.validationType`, 'validationType should not be specified when Route53 is the DNS provider (hostedZoneId is present) in CertificateStack.');
+      }
+      if (!certificateConfig.hostedZoneId && !certificateConfig.validationType) {
+        report.error('MISSING_VALIDATION', `${path}.validationType`, 'Either hostedZoneId or validationType must be specified for public certificates in CertificateStack.');
+      }
+      if (certificateConfig.validationType && !['DNS', 'EMAIL'].includes(certificateConfig.validationType)) {
+        report.error('INVALID_VALIDATION_TYPE', `${path}.validationType`, 'validationType must be either "DNS" or "EMAIL" in CertificateStack.');
+      }
+      if (certificateConfig.hostedZoneId && !HOSTED_ZONE_ID_PATTERN.test(certificateConfig.hostedZoneId)) {
+        report.warning('INVALID_HOSTED_ZONE_ID', `${path}.hostedZoneId`, `"${certificateConfig.hostedZoneId}" does not look like a Route53 hosted zone ID (e.g. Z123456789).`);
+      }
+    }
+  }
+
+  static validateRoleStack(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    if (!config.roleConfig) {
+      return;
+    }
+    ConfigValidator.validateStackName(config.roleConfig.stackName, 'roleConfig.stackName', report);
+    if (config.roleConfig.roleName && !ROLE_NAME_PATTERN.test(config.roleConfig.roleName)) {
+      report.error('INVALID_ROLE_NAME', 'roleConfig.roleName', 'roleName must be 1 to 64 characters among letters, digits and +=,.@_-');
+    }
+    if (config.roleConfig.existingRoleArn) {
+      ConfigValidator.validateArn(config, report, 'roleConfig.existingRoleArn', config.roleConfig.existingRoleArn, {
+        service: 'iam',
+        resourcePrefix: 'role/',
+        accountMismatchSeverity: 'error',
+        global: true,
+      });
+    }
+    if (config.roleConfig.sessionManager) {
+      ConfigValidator.validateSessionManager(config.roleConfig.sessionManager, report);
+    }
+  }
+
+  private static validateSessionManager(sessionManager: SessionManagerConfig, report: ValidationReport): void {
+    const path = 'roleConfig.sessionManager';
+    if (sessionManager.enabled === false) {
+      for (const field of ['logToS3', 'logToCloudWatch', 'encryptSessions', 'logRetentionDays', 'idleSessionTimeoutMinutes'] as const) {
+        if (sessionManager[field] !== undefined) {
+          report.warning('IGNORED_FIELD', `${path}.${field}`, `${field} is ignored when Session Manager is disabled.`);
+        }
+      }
+      return;
+    }
+    if (sessionManager.logRetentionDays !== undefined) {
+      if (!sessionManager.logToCloudWatch) {
+        report.warning('IGNORED_FIELD', `${path}.logRetentionDays`, 'logRetentionDays is ignored unless logToCloudWatch is true.');
+      } else if (!LOG_RETENTION_DAYS.includes(sessionManager.logRetentionDays)) {
+        report.error('INVALID_LOG_RETENTION', `${path}.logRetentionDays`, `${sessionManager.logRetentionDays} is not a CloudWatch Logs retention period (${LOG_RETENTION_DAYS.join(', ')}).`);
+      }
+    }
+    const idleTimeout = sessionManager.idleSessionTimeoutMinutes;
+    if (idleTimeout !== undefined && (!Number.isInteger(idleTimeout) || idleTimeout < 1 || idleTimeout > 60)) {
+      report.error('INVALID_IDLE_SESSION_TIMEOUT', `${path}.idleSessionTimeoutMinutes`, 'idleSessionTimeoutMinutes must be an integer between 1 and 60.');
+    }
+    if ((sessionManager.logToS3 || sessionManager.logToCloudWatch) && sessionManager.encryptSessions === false) {
+      report.warning('UNENCRYPTED_SESSION_LOGS', `${path}.encryptSessions`, 'Session logs are not encrypted with a KMS key.');
+    }
+  }
+
+  static validateInstanceStack(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const instanceConfig = config.instanceConfig;
+    ConfigValidator.validateStackName(instanceConfig?.stackName, 'instanceConfig.stackName', report);
+
+    const serverType = getServerType(instanceConfig?.serverType);
+    if (!serverType) {
+      report.error('INVALID_SERVER_TYPE', 'instanceConfig.serverType', `Invalid server type. Must be one of ${getServerTypeNames().join(', ')}.`);
+    } else if (serverType.maxCertificates && getCertificateDefinitions(config.certificateConfig).length > serverType.maxCertificates) {
+      report.error('TOO_MANY_CERTIFICATES', 'certificateConfig.additionalCertificates', `${instanceConfig.serverType} serves at most ${serverType.maxCertificates} certificate(s).`);
+    }
+    if (!['AL2', 'AL2023'].includes(instanceConfig?.amiType!)) {
+      report.error('INVALID_AMI_TYPE', 'instanceConfig.amiType', 'Invalid AMI type. Must be AL2 or AL2023.');
+    }
+
+    if (instanceConfig?.existingInstanceIds) {
+      ConfigValidator.validateExistingInstances(config, report);
+    } else if (!instanceConfig?.keyPairName) {
+      report.error('MISSING_KEY_PAIR_NAME', 'instanceConfig.keyPairName', 'EC2 keyPairName is required in InstanceStack.');
+    } else if (instanceConfig.keyPairName === DEFAULT_KEY_PAIR_NAME) {
+      report.warning('DEFAULT_KEY_PAIR_NAME', 'instanceConfig.keyPairName', `keyPairName is still the "${DEFAULT_KEY_PAIR_NAME}" placeholder, set it to an existing EC2 key pair before deploying.`);
+    }
+
+    if (!instanceConfig?.instanceType) {
+      report.error('MISSING_INSTANCE_TYPE', 'instanceConfig.instanceType', 'instanceType is required in InstanceStack.');
+    } else if (!INSTANCE_TYPE_PATTERN.test(instanceConfig.instanceType)) {
+      report.error('INVALID_INSTANCE_TYPE', 'instanceConfig.instanceType', `"${instanceConfig.instanceType}" is not a valid instance type (e.g. c5.xlarge).`);
+    } else {
+      const support = getEnclaveSupport(instanceConfig.instanceType);
+      if (support.supported === false) {
+        report.error('UNSUPPORTED_INSTANCE_TYPE', 'instanceConfig.instanceType', `${instanceConfig.instanceType} cannot run Nitro Enclaves: ${support.reason}.`);
+      } else {
+        if (support.supported === undefined) {
+          report.warning('UNKNOWN_INSTANCE_TYPE', 'instanceConfig.instanceType', `Unable to verify that ${instanceConfig.instanceType} supports Nitro Enclaves: ${support.reason}.`);
+        }
+        ConfigValidator.validateEnclave(instanceConfig.enclave || {}, instanceConfig.instanceType, report);
+      }
+    }
+
+    // Brownfield: only the configuration of the web server and the enclave applies (and the tags of the created resources)
+    if (instanceConfig?.existingInstanceIds) {
+      ConfigValidator.validateNetworkAccess({ httpsPort: instanceConfig.networkAccess?.httpsPort }, report);
+      if (instanceConfig.tls) {
+        ConfigValidator.validateTls(instanceConfig.tls, instanceConfig, report);
+      }
+      const { tags, ...hardening } = instanceConfig.hardening || {};
+      ConfigValidator.validateTags(tags || {}, report);
+      for (const field of Object.keys(hardening)) {
+        report.warning('IGNORED_FIELD', `instanceConfig.hardening.${field}`, `${field} is ignored for existing instances.`);
+      }
+      return;
+    }
+
+    if (instanceConfig?.hardening) {
+      ConfigValidator.validateHardening(config, instanceConfig.hardening, report);
+    }
+    if (instanceConfig?.image) {
+      ConfigValidator.validateImage(config, report);
+    }
+
+    if (instanceConfig?.vpc) {
+      ConfigValidator.validateVpc(instanceConfig.vpc, report);
+    }
+
+    if (instanceConfig?.deploymentMode && !['single', 'fleet'].includes(instanceConfig.deploymentMode)) {
+      report.error('INVALID_DEPLOYMENT_MODE', 'instanceConfig.deploymentMode', 'Invalid deployment mode. Must be single or fleet.');
+    }
+    if (instanceConfig?.deploymentMode === 'fleet') {
+      ConfigValidator.validateFleet(instanceConfig.fleet || {}, report);
+      if (instanceConfig.vpc?.subnetIds?.length === 1) {
+        report.warning('SINGLE_AZ_FLEET', 'instanceConfig.vpc.subnetIds', 'The fleet is restricted to a single subnet, use subnets in several Availability Zones for high availability.');
+      }
+    } else if (instanceConfig?.fleet) {
+      report.warning('IGNORED_FIELD', 'instanceConfig.fleet', 'fleet is ignored unless deploymentMode is fleet.');
+    }
+
+    if (instanceConfig?.dns) {
+      ConfigValidator.validateDns(config, report);
+    }
+
+    if (instanceConfig?.tls) {
+      ConfigValidator.validateTls(instanceConfig.tls, instanceConfig, report);
+    }
+
+    const networkAccess = instanceConfig?.networkAccess || {};
+    ConfigValidator.validateNetworkAccess(networkAccess, report);
+    const hasSshSources = ConfigValidator.countSources(networkAccess.sshSources) > 0;
+    if (instanceConfig?.allowSSHPort) {
+      if (!hasSshSources) {
+        report.error('MISSING_SSH_SOURCES', 'instanceConfig.networkAccess.sshSources', 'allowSSHPort requires at least one allowed source (CIDR, prefix list or security group) in networkAccess.sshSources.');
+      }
+      report.warning('SSH_PORT_OPEN', 'instanceConfig.allowSSHPort', 'SSH (port 22) is open, AWS Systems Manager Session Manager is recommended instead.');
+    } else if (hasSshSources) {
+      report.warning('IGNORED_FIELD', 'instanceConfig.networkAccess.sshSources', 'sshSources is ignored unless allowSSHPort is true.');
+    }
+    if (instanceConfig && !instanceConfig.allowSSHPort && config.roleConfig?.sessionManager?.enabled === false) {
+      report.warning('NO_INSTANCE_ACCESS', 'roleConfig.sessionManager.enabled', 'Neither SSH nor Session Manager is enabled, the instance will not be reachable for administration.');
+    }
+    if (instanceConfig && !instanceConfig.encryptVolume && !instanceConfig.hardening?.volumeKms) {
+      report.warning('UNENCRYPTED_VOLUME', 'instanceConfig.encryptVolume', 'The root EBS volume is not encrypted.');
+    }
+  }
+
+  private static validateExistingInstances(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.existingInstanceIds';
+    const instanceConfig = config.instanceConfig;
+    const instanceIds = instanceConfig.existingInstanceIds!;
+    if (instanceIds.length === 0) {
+      report.error('MISSING_INSTANCE_IDS', path, 'existingInstanceIds must list at least one instance.');
+    }
+    instanceIds.forEach((instanceId, index) => {
+      if (!INSTANCE_ID_PATTERN.test(instanceId)) {
+        report.error('INVALID_INSTANCE_ID', `${path}.${index}`, `"${instanceId}" is not a valid EC2 instance ID (e.g. i-0123456789abcdef0).`);
+      }
+    });
+
+    if (!config.roleConfig?.existingRoleArn) {
+      report.error('MISSING_EXISTING_ROLE', 'roleConfig.existingRoleArn', 'existingInstanceIds requires existingRoleArn, the role attached to the instances.');
+    } else {
+      const policies = ['AmazonSSMManagedInstanceCore', ...(config.monitoringConfig?.enabled && (config.monitoringConfig.logs ?? true) ? ['CloudWatchAgentServerPolicy'] : [])];
+      report.warning('EXISTING_ROLE_POLICIES', 'roleConfig.existingRoleArn', `Managed policies are not attached to an existing role, make sure it already has ${policies.join(' and ')}.`);
+    }
+
+    for (const field of ['vpc', 'deploymentMode', 'fleet', 'dns', 'image'] as const) {
+      if (instanceConfig[field] !== undefined) {
+        report.warning('IGNORED_FIELD', `instanceConfig.${field}`, `${field} is ignored for existing instances.`);
+      }
+    }
+    if (instanceConfig.allowSSHPort) {
+      report.warning('IGNORED_FIELD', 'instanceConfig.allowSSHPort', 'allowSSHPort is ignored for existing instances, their security groups are left as they are.');
+    }
+    const { httpsPort, ...networkAccess } = instanceConfig.networkAccess || {};
+    for (const field of Object.keys(networkAccess)) {
+      report.warning('IGNORED_FIELD', `instanceConfig.networkAccess.${field}`, `${field} is ignored for existing instances, their security groups are left as they are.`);
+    }
+  }
+
+  private static validateImage(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.image';
+    const image = config.instanceConfig.image!;
+    if (image.amiId && image.ssmParameterName) {
+      report.error('CONFLICTING_FIELD', `${path}.ssmParameterName`, 'amiId and ssmParameterName cannot both be specified.');
+    }
+    if (image.amiId && !AMI_ID_PATTERN.test(image.amiId)) {
+      report.error('INVALID_AMI_ID', `${path}.amiId`, `"${image.amiId}" is not a valid AMI ID (ami-xxxxxxxx).`);
+    }
+    if (image.ssmParameterName && !SSM_PARAMETER_NAME_PATTERN.test(image.ssmParameterName)) {
+      report.error('INVALID_PARAMETER_NAME', `${path}.ssmParameterName`, `"${image.ssmParameterName}" is not a valid SSM parameter name.`);
+    }
+    if (config.imageBuilderConfig?.enabled) {
+      for (const field of ['amiId', 'ssmParameterName', 'preinstalled'] as const) {
+        if (image[field] !== undefined) {
+          report.warning('IGNORED_FIELD', `${path}.${field}`, `${field} is ignored when imageBuilderConfig is enabled, the instances use the golden image.`);
+        }
+      }
+    } else if (image.preinstalled && !image.amiId && !image.ssmParameterName) {
+      report.error('MISSING_AMI', `${path}.preinstalled`, 'preinstalled requires a custom AMI (amiId or ssmParameterName), the stock Amazon Linux images have no ACM for Nitro Enclaves packages.');
+    }
+  }
+
+  static validateImageBuilderStack(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const imageBuilderConfig = config.imageBuilderConfig;
+    if (!imageBuilderConfig?.enabled) {
+      return;
+    }
+    const path = 'imageBuilderConfig';
+    if (config.instanceConfig?.existingInstanceIds) {
+      report.warning('IGNORED_FIELD', `${path}.enabled`, 'imageBuilderConfig is ignored for existing instances, which are not launched from an image.');
+      return;
+    }
+    ConfigValidator.validateStackName(imageBuilderConfig.stackName, `${path}.stackName`, report);
+    if (imageBuilderConfig.recipeVersion !== undefined && !SEMANTIC_VERSION_PATTERN.test(imageBuilderConfig.recipeVersion)) {
+      report.error('INVALID_RECIPE_VERSION', `${path}.recipeVersion`, `"${imageBuilderConfig.recipeVersion}" is not a <major>.<minor>.<patch> version.`);
+    }
+    const buildInstanceType = imageBuilderConfig.buildInstanceType;
+    if (buildInstanceType !== undefined) {
+      if (!INSTANCE_TYPE_PATTERN.test(buildInstanceType)) {
+        report.error('INVALID_INSTANCE_TYPE', `${path}.buildInstanceType`, `"${buildInstanceType}" is not a valid instance type (e.g. c5.xlarge).`);
+      } else {
+        const buildArchitecture = getInstanceTypeInfo(buildInstanceType)?.architecture;
+        const instanceArchitecture = getInstanceTypeInfo(config.instanceConfig?.instanceType || '')?.architecture;
+        if (buildArchitecture && instanceArchitecture && buildArchitecture !== instanceArchitecture) {
+          report.error('ARCHITECTURE_MISMATCH', `${path}.buildInstanceType`, `The image is built for ${buildArchitecture}, ${config.instanceConfig.instanceType} instances are ${instanceArchitecture}.`);
+        }
+      }
+    }
+    if (imageBuilderConfig.subnetId !== undefined) {
+      if (!SUBNET_ID_PATTERN.test(imageBuilderConfig.subnetId)) {
+        report.error('INVALID_SUBNET_ID', `${path}.subnetId`, `"${imageBuilderConfig.subnetId}" is not a valid subnet ID (subnet-xxxxxxxx).`);
+      }
+      if (!imageBuilderConfig.securityGroupIds?.length) {
+        report.error('MISSING_SECURITY_GROUPS', `${path}.securityGroupIds`, 'securityGroupIds is required with subnetId.');
+      }
+    }
+    (imageBuilderConfig.securityGroupIds || []).forEach((securityGroupId, index) => {
+      if (!SECURITY_GROUP_ID_PATTERN.test(securityGroupId)) {
+        report.error('INVALID_SECURITY_GROUP_ID', `${path}.securityGroupIds.${index}`, `"${securityGroupId}" is not a valid security group ID (sg-xxxxxxxx).`);
+      }
+    });
+    if (imageBuilderConfig.scheduleExpression !== undefined && !SCHEDULE_EXPRESSION_PATTERN.test(imageBuilderConfig.scheduleExpression)) {
+      report.error('INVALID_SCHEDULE', `${path}.scheduleExpression`, `"${imageBuilderConfig.scheduleExpression}" is not a cron(...) or rate(...) expression.`);
+    }
+    if (imageBuilderConfig.parameterName !== undefined && !SSM_PARAMETER_NAME_PATTERN.test(imageBuilderConfig.parameterName)) {
+      report.error('INVALID_PARAMETER_NAME', `${path}.parameterName`, `"${imageBuilderConfig.parameterName}" is not a valid SSM parameter name.`);
+    }
+  }
+
+  private static validateHardening(config: NitroEnclavesAcmStreamlineConfig, hardening: HardeningConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.hardening';
+    const isFleet = config.instanceConfig.deploymentMode === 'fleet';
+    if (hardening.requireImdsv2 === false) {
+      report.warning('IMDSV1_ENABLED', `${path}.requireImdsv2`, 'IMDSv1 is enabled, the instance metadata (and the role credentials) can be read without a session token.');
+    }
+    const hopLimit = hardening.imdsHopLimit;
+    if (hopLimit !== undefined && (!Number.isInteger(hopLimit) || hopLimit < 1 || hopLimit > 64)) {
+      report.error('INVALID_HOP_LIMIT', `${path}.imdsHopLimit`, 'imdsHopLimit must be an integer between 1 and 64.');
+    }
+
+    const volumeKms = hardening.volumeKms;
+    if (volumeKms) {
+      if (!['create', 'existing'].includes(volumeKms.mode)) {
+        report.error('INVALID_KMS_MODE', `${path}.volumeKms.mode`, 'Invalid volumeKms mode. Must be create or existing.');
+      } else if (volumeKms.mode === 'existing') {
+        if (!volumeKms.keyArn) {
+          report.error('MISSING_KMS_KEY_ARN', `${path}.volumeKms.keyArn`, 'keyArn is required when volumeKms mode is existing.');
+        } else {
+          ConfigValidator.validateArn(config, report, `${path}.volumeKms.keyArn`, volumeKms.keyArn, {
+            service: 'kms',
+            resourcePrefix: 'key/',
+            // A key can be shared from another account through its key policy
+            accountMismatchSeverity: 'warning',
+          });
+        }
+        if (isFleet) {
+          report.warning('KMS_KEY_POLICY', `${path}.volumeKms.keyArn`, 'The key policy must allow the AWSServiceRoleForAutoScaling service-linked role to use the key (and create grants), otherwise the fleet instances fail to launch.');
+        }
+      } else if (volumeKms.keyArn) {
+        report.warning('IGNORED_FIELD', `${path}.volumeKms.keyArn`, 'keyArn is ignored when volumeKms mode is create.');
+      }
+    }
+
+    const volume = hardening.volume || {};
+    const sizeGiB = volume.sizeGiB ?? 8;
+    if (!Number.isInteger(sizeGiB) || sizeGiB < 8 || sizeGiB > 16384) {
+      report.error('INVALID_VOLUME_SIZE', `${path}.volume.sizeGiB`, 'sizeGiB must be an integer between 8 (size of the AMI) and 16384.');
+    }
+    if (volume.type !== undefined && !VOLUME_TYPES.includes(volume.type)) {
+      report.error('INVALID_VOLUME_TYPE', `${path}.volume.type`, `Invalid volume type. Must be one of ${VOLUME_TYPES.join(', ')}.`);
+    } else if (volume.type === 'io1' || volume.type === 'io2') {
+      if (volume.iops === undefined) {
+        report.error('MISSING_IOPS', `${path}.volume.iops`, `iops is required for ${volume.type} volumes.`);
+      }
+    } else if (volume.iops !== undefined && volume.type !== 'gp3') {
+      report.warning('IGNORED_FIELD', `${path}.volume.iops`, 'iops is ignored for gp2 volumes, their performance depends on their size.');
+    }
+    const limits = VOLUME_IOPS_LIMITS[volume.type || ''];
+    if (limits && volume.iops !== undefined) {
+      const [min, max, maxPerGiB] = limits;
+      if (!Number.isInteger(volume.iops) || volume.iops < min || volume.iops > max) {
+        report.error('INVALID_IOPS', `${path}.volume.iops`, `iops must be an integer between ${min} and ${max} for ${volume.type} volumes.`);
+      } else if (Number.isInteger(sizeGiB) && volume.iops > sizeGiB * maxPerGiB) {
+        report.error('INVALID_IOPS', `${path}.volume.iops`, `${volume.type} volumes allow at most ${maxPerGiB} IOPS per GiB (${sizeGiB * maxPerGiB} for ${sizeGiB} GiB).`);
+      }
+    }
+
+    if (hardening.terminationProtection && isFleet) {
+      report.warning('IGNORED_FIELD', `${path}.terminationProtection`, 'terminationProtection is ignored in fleet mode, the Auto Scaling group replaces its instances.');
+    }
+    ConfigValidator.validateTags(hardening.tags || {}, report);
+  }
+
+  private static validateTags(tags: NonNullable<HardeningConfig['tags']>, report: ValidationReport): void {
+    const path = 'instanceConfig.hardening.tags';
+    for (const [key, value] of Object.entries(getSetupTags(tags))) {
+      const fieldPath = Object.keys(tags.additionalTags || {}).includes(key) ? `${path}.additionalTags.${key}` : path;
+      if (key.toLowerCase().startsWith(RESERVED_TAG_PREFIX)) {
+        report.error('INVALID_TAG', fieldPath, `Tag key "${key}" uses the reserved ${RESERVED_TAG_PREFIX} prefix.`);
+      } else if (key.length > 128) {
+        report.error('INVALID_TAG', fieldPath, `Tag key "${key}" exceeds 128 characters.`);
+      }
+      if (value.length > 256) {
+        report.error('INVALID_TAG', fieldPath, `The value of tag "${key}" exceeds 256 characters.`);
+      }
+    }
+  }
+
+  private static validateVpc(vpc: VpcConfig, report: ValidationReport): void {
+    if (!['default', 'existing', 'create'].includes(vpc.mode)) {
+      report.error('INVALID_VPC_MODE', 'instanceConfig.vpc.mode', 'Invalid VPC mode. Must be default, existing or create.');
+    }
+    if (vpc.mode === 'existing') {
+      if (!vpc.vpcId) {
+        report.error('MISSING_VPC_ID', 'instanceConfig.vpc.vpcId', 'vpcId is required when using an existing VPC.');
+      } else if (!VPC_ID_PATTERN.test(vpc.vpcId)) {
+        report.error('INVALID_VPC_ID', 'instanceConfig.vpc.vpcId', `"${vpc.vpcId}" is not a valid VPC ID (vpc-xxxxxxxx).`);
+      }
+    } else {
+      for (const field of ['vpcId', 'subnetIds'] as const) {
+        if (vpc[field]) {
+          report.error('CONFLICTING_FIELD', `instanceConfig.vpc.${field}`, `${field} can only be specified when using an existing VPC.`);
         }
+      }
     }
+    (vpc.subnetIds || []).forEach((subnetId, index) => {
+      if (!SUBNET_ID_PATTERN.test(subnetId)) {
+        report.error('INVALID_SUBNET_ID', `instanceConfig.vpc.subnetIds.${index}`, `"${subnetId}" is not a valid subnet ID (subnet-xxxxxxxx).`);
+      }
+    });
 
-    static validateRoleStack(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): void {
-        // Insert additional RoleStack validation if needed
-        return
-    }
-
-    static validateInstanceStack(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): void {
-        if (!isDestroySubcommand) {
-            if (!['NGINX', 'APACHE'].includes(config.instanceConfig?.serverType!)) {
-                throw new Error('Invalid server type. Must be NGINX or APACHE.')
-            }
-            if (!['AL2', 'AL2023'].includes(config.instanceConfig?.amiType!)) {
-                throw new Error('Invalid AMI type. Must be AL2 or AL2023.')
-            }
-            if (!config.instanceConfig?.keyPairName) {
-                throw new Error('EC2 keyPairName is required in InstanceStack.')
-            }
-            if (!config.instanceConfig?.instanceType) {
-                throw new Error('instanceType is required in InstanceStack.')
-            }
+    if (vpc.mode !== 'create') {
+      for (const field of ['cidr', 'maxAzs'] as const) {
+        if (vpc[field] !== undefined) {
+          report.warning('IGNORED_FIELD', `instanceConfig.vpc.${field}`, `${field} is ignored unless creating a VPC.`);
         }
+      }
+    } else if (vpc.cidr && !CIDR_V4_PATTERN.test(vpc.cidr)) {
+      report.error('INVALID_CIDR', 'instanceConfig.vpc.cidr', `"${vpc.cidr}" is not a valid IPv4 CIDR block (e.g. 10.0.0.0/16).`);
+    }
 
+    if (vpc.subnetType === 'PRIVATE') {
+      if (vpc.mode === 'default') {
+        report.error('NO_PRIVATE_SUBNETS', 'instanceConfig.vpc.subnetType', 'The default VPC only has public subnets, use an existing or created VPC for private deployments.');
+      }
+      if (vpc.createVpcEndpoints === false) {
+        report.warning('NO_VPC_ENDPOINTS', 'instanceConfig.vpc.createVpcEndpoints', 'Without VPC endpoints, the private subnets need a NAT gateway to reach ACM, KMS, S3 and SSM.');
+      }
     }
+  }
 
-    static validateEnv(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): void {
-        if (!config.region) throw new Error('AWS region must be specified.');
-        if (!config.account) throw new Error('AWS account must be specified.');
+  private static validateDns(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.dns';
+    const dns = config.instanceConfig.dns!;
+    const hasHostedZone = getCertificateDefinitions(config.certificateConfig).some(definition => definition.hostedZoneId);
+    if (!hasHostedZone) {
+      report.warning('IGNORED_FIELD', path, 'dns is ignored unless a certificate has a hostedZoneId.');
+      return;
+    }
+
+    const isFleet = config.instanceConfig.deploymentMode === 'fleet';
+    const isPrivate = config.instanceConfig.vpc?.subnetType === 'PRIVATE';
+    if (dns.elasticIp && (isFleet || isPrivate)) {
+      report.warning('IGNORED_FIELD', `${path}.elasticIp`, 'elasticIp is only used for a single instance in public subnets.');
+    } else if (dns.elasticIp === false && !isFleet && !isPrivate && (dns.createRecords ?? true)) {
+      report.warning('EPHEMERAL_PUBLIC_IP', `${path}.elasticIp`, 'Without an Elastic IP, the DNS records break when the instance public IP changes (e.g. on stop/start).');
+    }
+
+    if (dns.healthCheck ?? true) {
+      if (isPrivate) {
+        report.warning('IGNORED_FIELD', `${path}.healthCheck`, 'Route 53 health checks cannot reach instances in private subnets, no health check is created.');
+      } else if (config.region && config.region !== 'us-east-1') {
+        report.warning('HEALTH_CHECK_ALARM_REGION', `${path}.healthCheck`, 'Route 53 health check metrics are only available in us-east-1, the health check alarm is not created.');
+      }
+      if (dns.healthCheckPath && !dns.healthCheckPath.startsWith('/')) {
+        report.error('INVALID_HEALTH_CHECK_PATH', `${path}.healthCheckPath`, 'healthCheckPath must start with "/".');
+      }
+    }
+    if (dns.alarmTopicArn) {
+      ConfigValidator.validateArn(config, report, `${path}.alarmTopicArn`, dns.alarmTopicArn, {
+        service: 'sns',
+        resourcePrefix: '',
+        accountMismatchSeverity: 'warning',
+      });
+    }
+  }
+
+  // The allocator reserves the enclave resources at boot, it fails unless the parent instance keeps at least one core
+  private static validateEnclave(enclave: EnclaveConfig, instanceType: string, report: ValidationReport): void {
+    const path = 'instanceConfig.enclave';
+    const cpuCount = enclave.cpuCount ?? DEFAULT_ENCLAVE_RESOURCES.cpuCount;
+    const memoryMiB = enclave.memoryMiB ?? DEFAULT_ENCLAVE_RESOURCES.memoryMiB;
+    if (!Number.isInteger(cpuCount) || cpuCount < 1) {
+      report.error('INVALID_ENCLAVE_CPU_COUNT', `${path}.cpuCount`, 'cpuCount must be a positive integer.');
+      return;
+    }
+    if (!Number.isInteger(memoryMiB) || memoryMiB < MIN_ENCLAVE_MEMORY_MIB) {
+      report.error('INVALID_ENCLAVE_MEMORY', `${path}.memoryMiB`, `memoryMiB must be an integer of at least ${MIN_ENCLAVE_MEMORY_MIB} (enclave image of the ACM for Nitro Enclaves service).`);
+      return;
+    }
+
+    const info = getInstanceTypeInfo(instanceType);
+    if (!info) {
+      if (enclave.cpuCount !== undefined || enclave.memoryMiB !== undefined) {
+        report.warning('UNKNOWN_INSTANCE_RESOURCES', path, `${instanceType} is not in the built-in instance type table, the enclave allocation cannot be checked against its vCPUs and memory.`);
+      }
+      return;
+    }
+    const threadsPerCore = THREADS_PER_CORE[info.architecture];
+    const parentVcpus = info.vcpus - cpuCount;
+    if (cpuCount % threadsPerCore !== 0) {
+      report.error('INVALID_ENCLAVE_CPU_COUNT', `${path}.cpuCount`, `cpuCount must be a multiple of ${threadsPerCore} on ${instanceType}: enclaves are given full cores.`);
+    } else if (parentVcpus < threadsPerCore) {
+      report.error('ENCLAVE_CPU_EXCEEDS_INSTANCE', `${path}.cpuCount`, `${instanceType} has ${info.vcpus} vCPUs, at most ${info.vcpus - threadsPerCore} can be allocated to the enclave (the parent instance keeps at least one core).`);
+    } else if (parentVcpus < MIN_PARENT_VCPUS) {
+      report.warning('LOW_PARENT_VCPUS', `${path}.cpuCount`, `Only ${parentVcpus} vCPU is left to the parent instance for the web server.`);
+    }
+    const parentMemoryMiB = info.memoryMiB - memoryMiB;
+    if (parentMemoryMiB < MIN_PARENT_MEMORY_MIB) {
+      report.error('ENCLAVE_MEMORY_EXCEEDS_INSTANCE', `${path}.memoryMiB`, `${instanceType} has ${info.memoryMiB} MiB of memory, at most ${info.memoryMiB - MIN_PARENT_MEMORY_MIB} MiB can be allocated to the enclave (the parent instance keeps ${MIN_PARENT_MEMORY_MIB} MiB).`);
+    }
+  }
+
+  private static validateTls(tls: TlsConfig, instanceConfig: NitroEnclavesAcmStreamlineConfig['instanceConfig'], report: ValidationReport): void {
+    const path = 'instanceConfig.tls';
+    if (tls.protocols !== undefined) {
+      if (tls.protocols.length === 0) {
+        report.error('INVALID_TLS_PROTOCOLS', `${path}.protocols`, 'At least one TLS protocol is required.');
+      }
+      tls.protocols.forEach((protocol, index) => {
+        if (!TLS_PROTOCOLS.includes(protocol)) {
+          report.error('INVALID_TLS_PROTOCOLS', `${path}.protocols.${index}`, `Invalid TLS protocol "${protocol}". Must be ${TLS_PROTOCOLS.join(' or ')}.`);
+        }
+      });
+      // Tomcat uses the TLS implementation of the JDK
+      if (instanceConfig.amiType === 'AL2' && instanceConfig.serverType !== 'TOMCAT' && tls.protocols.includes('TLSv1.3')) {
+        report.warning('TLS13_UNSUPPORTED', `${path}.protocols`, 'OpenSSL 1.0.2 on AL2 does not support TLSv1.3, only TLSv1.2 is negotiated. Use AL2023 for TLSv1.3.');
+      }
+    }
+    // Written as is in the web server configuration
+    if (tls.ciphers !== undefined && !CIPHERS_PATTERN.test(tls.ciphers)) {
+      report.error('INVALID_TLS_CIPHERS', `${path}.ciphers`, 'ciphers must be an OpenSSL cipher list (e.g. ECDHE-RSA-AES128-GCM-SHA256:ECDHE-ECDSA-AES128-GCM-SHA256).');
+    }
+    const hstsMaxAge = tls.hstsMaxAgeSeconds;
+    if (hstsMaxAge !== undefined && (!Number.isInteger(hstsMaxAge) || hstsMaxAge < 0)) {
+      report.error('INVALID_HSTS_MAX_AGE', `${path}.hstsMaxAgeSeconds`, 'hstsMaxAgeSeconds must be a positive integer (0 tells browsers to forget the policy).');
+    }
+  }
+
+  private static validateFleet(fleet: FleetConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.fleet';
+    const fields = ['minCapacity', 'maxCapacity', 'desiredCapacity', 'maxBatchSize', 'minInstancesInService', 'signalTimeoutMinutes'] as const;
+    const invalidFields = fields.filter(field => fleet[field] !== undefined && (!Number.isInteger(fleet[field]) || fleet[field]! < 0));
+    invalidFields.forEach(field => report.error('INVALID_FLEET_SIZE', `${path}.${field}`, `${field} must be a non-negative integer.`));
+    if (invalidFields.length > 0) {
+      return;
+    }
+
+    // Same defaults as the EnclaveInstance construct
+    const minCapacity = fleet.minCapacity ?? 2;
+    const maxCapacity = fleet.maxCapacity ?? Math.max(4, minCapacity);
+    if (maxCapacity < 1) {
+      report.error('INVALID_FLEET_SIZE', `${path}.maxCapacity`, 'maxCapacity must be at least 1.');
+    }
+    if (minCapacity > maxCapacity) {
+      report.error('INVALID_FLEET_SIZE', `${path}.minCapacity`, `minCapacity (${minCapacity}) cannot exceed maxCapacity (${maxCapacity}).`);
+    }
+    const desiredCapacity = fleet.desiredCapacity;
+    if (desiredCapacity !== undefined && (desiredCapacity < minCapacity || desiredCapacity > maxCapacity)) {
+      report.error('INVALID_FLEET_SIZE', `${path}.desiredCapacity`, `desiredCapacity (${desiredCapacity}) must be between minCapacity (${minCapacity}) and maxCapacity (${maxCapacity}).`);
+    }
+    if (fleet.maxBatchSize === 0) {
+      report.error('INVALID_FLEET_SIZE', `${path}.maxBatchSize`, 'maxBatchSize must be at least 1.');
+    }
+    const minInstancesInService = fleet.minInstancesInService ?? minCapacity;
+    if (minInstancesInService >= maxCapacity) {
+      report.error('INVALID_FLEET_SIZE', `${path}.minInstancesInService`, `minInstancesInService (${minInstancesInService}) must be lower than maxCapacity (${maxCapacity}) for rolling updates to launch new instances.`);
+    } else if (minInstancesInService === 0) {
+      report.warning('ROLLING_UPDATE_DOWNTIME', `${path}.minInstancesInService`, 'With minInstancesInService set to 0, rolling updates may take every instance out of service.');
+    }
+    if (minCapacity < 2) {
+      report.warning('SINGLE_INSTANCE_FLEET', `${path}.minCapacity`, 'A fleet with fewer than 2 instances is not highly available.');
+    }
+  }
+
+  private static validateNetworkAccess(networkAccess: NetworkAccessConfig, report: ValidationReport): void {
+    const path = 'instanceConfig.networkAccess';
+    const httpsPort = networkAccess.httpsPort;
+    if (httpsPort !== undefined) {
+      if (!Number.isInteger(httpsPort) || httpsPort < 1 || httpsPort > 65535) {
+        report.error('INVALID_PORT', `${path}.httpsPort`, `${httpsPort} is not a valid port (1 to 65535).`);
+      } else if (httpsPort === 22 || httpsPort === 80) {
+        report.error('CONFLICTING_PORT', `${path}.httpsPort`, `httpsPort cannot be ${httpsPort}, it is reserved for ${httpsPort === 22 ? 'SSH' : 'HTTP'}.`);
+      }
+    }
+
+    for (const field of ['httpsSources', 'httpSources', 'sshSources'] as const) {
+      ConfigValidator.validateIngressSources(networkAccess[field], `${path}.${field}`, report);
+    }
+    if (networkAccess.allowHttp === false && networkAccess.httpSources) {
+      report.warning('IGNORED_FIELD', `${path}.httpSources`, 'httpSources is ignored when allowHttp is false.');
+    }
+    (networkAccess.sshSources?.cidrs || []).forEach((cidr, index) => {
+      if (WORLD_CIDRS.includes(cidr)) {
+        report.warning('SSH_OPEN_TO_WORLD', `${path}.sshSources.cidrs.${index}`, `SSH is open to ${cidr}, restrict it to known addresses.`);
+      }
+    });
+    (networkAccess.additionalSecurityGroupIds || []).forEach((securityGroupId, index) => {
+      if (!SECURITY_GROUP_ID_PATTERN.test(securityGroupId)) {
+        report.error('INVALID_SECURITY_GROUP_ID', `${path}.additionalSecurityGroupIds.${index}`, `"${securityGroupId}" is not a valid security group ID (sg-xxxxxxxx).`);
+      }
+    });
+  }
+
+  private static validateIngressSources(sources: IngressSources | undefined, path: string, report: ValidationReport): void {
+    (sources?.cidrs || []).forEach((cidr, index) => {
+      if (!ConfigValidator.isValidCidr(cidr)) {
+        report.error('INVALID_CIDR', `${path}.cidrs.${index}`, `"${cidr}" is not a valid IPv4 or IPv6 CIDR block (e.g. 203.0.113.0/24).`);
+      }
+    });
+    (sources?.prefixListIds || []).forEach((prefixListId, index) => {
+      if (!PREFIX_LIST_ID_PATTERN.test(prefixListId)) {
+        report.error('INVALID_PREFIX_LIST_ID', `${path}.prefixListIds.${index}`, `"${prefixListId}" is not a valid prefix list ID (pl-xxxxxxxx).`);
+      }
+    });
+    (sources?.securityGroupIds || []).forEach((securityGroupId, index) => {
+      if (!SECURITY_GROUP_ID_PATTERN.test(securityGroupId)) {
+        report.error('INVALID_SECURITY_GROUP_ID', `${path}.securityGroupIds.${index}`, `"${securityGroupId}" is not a valid security group ID (sg-xxxxxxxx).`);
+      }
+    });
+  }
+
+  private static countSources(sources: IngressSources | undefined): number {
+    return (sources?.cidrs?.length || 0) + (sources?.prefixListIds?.length || 0) + (sources?.securityGroupIds?.length || 0);
+  }
+
+  private static isValidCidr(cidr: string): boolean {
+    if (CIDR_V4_PATTERN.test(cidr)) {
+      return cidr.split('/')[0].split('.').every(octet => Number(octet) <= 255);
+    }
+    const [address, prefix, ...rest] = cidr.split('/');
+    return rest.length === 0 && isIPv6(address) && /^\d{1,3}$/.test(prefix || '') && Number(prefix) <= 128;
+  }
+
+  static validateMonitoringStack(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const monitoringConfig = config.monitoringConfig;
+    if (!monitoringConfig?.enabled) {
+      return;
+    }
+    const path = 'monitoringConfig';
+    ConfigValidator.validateStackName(monitoringConfig.stackName, `${path}.stackName`, report);
+    if (monitoringConfig.dashboardName !== undefined && !DASHBOARD_NAME_PATTERN.test(monitoringConfig.dashboardName)) {
+      report.error('INVALID_DASHBOARD_NAME', `${path}.dashboardName`, 'dashboardName must be 1 to 255 characters among letters, digits, _ and -.');
+    }
+    const threshold = monitoringConfig.expiryThresholdDays;
+    if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 1)) {
+      report.error('INVALID_EXPIRY_THRESHOLD', `${path}.expiryThresholdDays`, 'expiryThresholdDays must be a positive integer.');
+    } else if (threshold !== undefined && threshold > MAX_EXPIRY_THRESHOLD_DAYS) {
+      report.warning('HIGH_EXPIRY_THRESHOLD', `${path}.expiryThresholdDays`, `ACM renews managed certificates from ${MAX_EXPIRY_THRESHOLD_DAYS} days before expiry, the alarm fires before any renewal attempt.`);
+    }
+    (monitoringConfig.notificationEmails || []).forEach((email, index) => {
+      if (!EMAIL_PATTERN.test(email)) {
+        report.error('INVALID_EMAIL', `${path}.notificationEmails.${index}`, `"${email}" is not a valid email address.`);
+      }
+    });
+    if (monitoringConfig.notificationTopicArn) {
+      ConfigValidator.validateArn(config, report, `${path}.notificationTopicArn`, monitoringConfig.notificationTopicArn,
+        { service: 'sns', resourcePrefix: '', accountMismatchSeverity: 'warning' });
+    } else if (!monitoringConfig.notificationEmails?.length) {
+      report.warning('NO_NOTIFICATIONS', path, 'Neither notificationEmails nor notificationTopicArn is set, alarms and certificate events reach a topic without subscribers.');
+    }
+    if (monitoringConfig.logs === false) {
+      if (monitoringConfig.logRetentionDays !== undefined) {
+        report.warning('IGNORED_FIELD', `${path}.logRetentionDays`, 'logRetentionDays is ignored when logs is false.');
+      }
+    } else if (monitoringConfig.logRetentionDays !== undefined && !LOG_RETENTION_DAYS.includes(monitoringConfig.logRetentionDays)) {
+      report.error('INVALID_LOG_RETENTION', `${path}.logRetentionDays`, `${monitoringConfig.logRetentionDays} is not a CloudWatch Logs retention period (${LOG_RETENTION_DAYS.join(', ')}).`);
+    }
+  }
+
+  static validateCompliance(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    const complianceConfig = config.complianceConfig;
+    if (!complianceConfig) {
+      return;
+    }
+    const path = 'complianceConfig';
+    if (complianceConfig.enabled === false) {
+      for (const field of ['failOnError', 'suppressions'] as const) {
+        if (complianceConfig[field] !== undefined) {
+          report.warning('IGNORED_FIELD', `${path}.${field}`, `${field} is ignored when enabled is false.`);
+        }
+      }
+      return;
+    }
+    (complianceConfig.suppressions || []).forEach((suppression, index) => {
+      if (!getComplianceRule(suppression.ruleId)) {
+        report.warning('UNKNOWN_RULE_ID', `${path}.suppressions.${index}.ruleId`, `"${suppression.ruleId}" is not a compliance rule (${getComplianceRules().map(rule => rule.id).join(', ')}).`);
+      }
+      if (!suppression.justification?.trim()) {
+        report.error('MISSING_JUSTIFICATION', `${path}.suppressions.${index}.justification`, 'Each suppression must be justified.');
+      }
+    });
+  }
+
+  static validateEnv(config: NitroEnclavesAcmStreamlineConfig, report: ValidationReport): void {
+    if (!config.region) {
+      report.error('MISSING_REGION', 'region', 'AWS region must be specified.');
+    } else if (!REGION_PATTERN.test(config.region)) {
+      report.error('INVALID_REGION', 'region', `"${config.region}" is not a valid AWS region (e.g. us-east-1).`);
+    }
+    if (!config.account) {
+      report.error('MISSING_ACCOUNT', 'account', 'AWS account must be specified.');
+    } else if (!ACCOUNT_PATTERN.test(config.account)) {
+      report.error('INVALID_ACCOUNT', 'account', `"${config.account}" is not a valid AWS account ID (12 digits).`);
+    }
+  }
+
+  private static validateStackName(stackName: string | undefined, path: string, report: ValidationReport): void {
+    if (stackName && !STACK_NAME_PATTERN.test(stackName)) {
+      report.error('INVALID_STACK_NAME', path, `"${stackName}" is not a valid CloudFormation stack name (letters, digits and hyphens, starting with a letter).`);
+    }
+  }
+
+  // Well-formed ARN of the expected service, in the partition/region/account of the deployment
+  private static validateArn(
+    config: NitroEnclavesAcmStreamlineConfig,
+    report: ValidationReport,
+    path: string,
+    arn: string,
+    // global: ARN without a region (e.g. IAM)
+    expected: { service: string; resourcePrefix: string; accountMismatchSeverity: ValidationSeverity; global?: boolean },
+  ): void {
+    const parsed = parseArn(arn);
+    if (!parsed) {
+      report.error('INVALID_ARN', path, `"${arn}" is not a well-formed ARN (arn:<partition>:<service>:<region>:<account>:<resource>).`);
+      return;
+    }
+    if (parsed.service !== expected.service || !parsed.resource.startsWith(expected.resourcePrefix)) {
+      report.error('ARN_SERVICE_MISMATCH', path, `Expected an arn:<partition>:${expected.service}:<region>:<account>:${expected.resourcePrefix}<id> ARN, got "${arn}".`);
+      return;
+    }
+    if (config.region && parsed.partition !== getRegionPartition(config.region)) {
+      report.error('ARN_PARTITION_MISMATCH', path, `ARN partition "${parsed.partition}" does not match the partition of region ${config.region} (${getRegionPartition(config.region)}).`);
+    }
+    if (!expected.global && config.region && parsed.region !== config.region) {
+      report.error('ARN_REGION_MISMATCH', path, `ARN region "${parsed.region}" does not match the deployment region ${config.region}.`);
+    }
+    if (config.account && parsed.account !== config.account) {
+      const message = `ARN account "${parsed.account}" does not match the deployment account ${config.account}.`;
+      if (expected.accountMismatchSeverity === 'error') {
+        report.error('ARN_ACCOUNT_MISMATCH', path, message);
+      } else {
+        report.warning('ARN_ACCOUNT_MISMATCH', path, `${message} Make sure it is shared with this account.`);
+      }
     }
+  }
 }
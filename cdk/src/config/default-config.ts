@@ -1,8 +1,6 @@
 // config/default-config.ts
 import { NitroEnclavesAcmStreamlineConfig } from './types';
 
-require('dotenv').config();
-
 export const getDefaultConfig = (): NitroEnclavesAcmStreamlineConfig => ({
   // Certificate Configuration
   certificateConfig: {
@@ -12,14 +10,14 @@ export const getDefaultConfig = (): NitroEnclavesAcmStreamlineConfig => ({
     isPrivate: true,
 
     // If using an existing ACM certificate
-    // existingCertificateArn: process.env.CERTIFICATE_ARN || 'arn:aws:acm:my-region-1:123456789:certificate/xxx-yyyy',
+    // existingCertificateArn: process.env.CERTIFICATE_ARN || 'arn:aws:acm:my-region-1:123456789012:certificate/xxx-yyyy',
 
     // If creating a public certificate
     // hostedZoneId: process.env.HOSTED_ZONE_ID || 'Z123456789', // If Route53 is the DNS provider
     // validationType: 'DNS', // If using an external DNS provider
 
     // If creating a private certificate
-    pcaArn: process.env.PCA_ARN || 'arn:aws:acm-pca:us-east-1:123456789:certificate-authority/xxx-yyyy',
+    pcaArn: process.env.PCA_ARN || 'arn:aws:acm-pca:us-east-1:123456789012:certificate-authority/xxx-yyyy',
   },
 
   // Role Configration
@@ -40,5 +38,6 @@ export const getDefaultConfig = (): NitroEnclavesAcmStreamlineConfig => ({
     allowSSHPort: false,
   },
   region: process.env.AWS_REGION || 'us-east-1',
-  account: process.env.AWS_ACCOUNT || '123456789',
+  // Account of the AWS credentials of the CDK CLI, unless set
+  account: process.env.AWS_ACCOUNT || process.env.CDK_DEFAULT_ACCOUNT || '123456789012',
 });
@@ -0,0 +1,145 @@
+// config/instance-types.ts
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+
+/*
+  Nitro Enclaves requirements: https://docs.aws.amazon.com/enclaves/latest/user/nitro-enclave.html#nitro-enclave-reqs
+  - Intel or AMD-based instances with at least 4 vCPUs, AWS Graviton-based instances with at least 2 vCPUs
+  - Burstable, first generation Graviton, Mac and previous generation (Xen-based) families are not supported
+*/
+
+const UNSUPPORTED_FAMILIES = [
+  // Burstable, first generation Graviton and Mac instances
+  't2', 't3', 't3a', 't4g', 'a1', 'mac1', 'mac2', 'mac2-m2', 'mac2-m2pro',
+  // Flex instances
+  'c7i-flex', 'm7i-flex',
+  // Xen-based previous generation instances
+  'c3', 'c4', 'm3', 'm4', 'r3', 'r4', 'x1', 'x1e', 'd2', 'h1', 'i2', 'i3', 'p2', 'p3', 'g3', 'g3s', 'f1',
+];
+
+const MIN_VCPUS = {
+  [ec2.InstanceArchitecture.X86_64]: 4,
+  [ec2.InstanceArchitecture.ARM_64]: 2,
+};
+
+// vCPUs are allocated to the enclave by full cores (Intel and AMD instances run 2 threads per core)
+export const THREADS_PER_CORE = {
+  [ec2.InstanceArchitecture.X86_64]: 2,
+  [ec2.InstanceArchitecture.ARM_64]: 1,
+};
+
+// Resources reserved by the Nitro Enclaves allocator when instanceConfig.enclave is not set (allocator.yaml defaults)
+export const DEFAULT_ENCLAVE_RESOURCES = { cpuCount: 2, memoryMiB: 512 };
+
+/*
+  Nitro Enclaves capable families (current generation, non bare metal sizes), with their memory per vCPU:
+  https://docs.aws.amazon.com/ec2/latest/instancetypes/instance-types.html
+*/
+interface InstanceFamily {
+  architecture: ec2.InstanceArchitecture;
+  memoryPerVcpuGiB: number;
+  sizes: string[];
+}
+
+const SIZES_24 = ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge', '24xlarge'];
+const SIZES_32 = [...SIZES_24, '32xlarge'];
+const SIZES_48 = [...SIZES_32, '48xlarge'];
+const SIZES_7I = [...SIZES_24, '48xlarge'];
+const SIZES_5 = ['large', 'xlarge', '2xlarge', '4xlarge', '9xlarge', '12xlarge', '18xlarge', '24xlarge'];
+const SIZES_5Z = ['large', 'xlarge', '2xlarge', '3xlarge', '6xlarge', '12xlarge'];
+const SIZES_GRAVITON = ['medium', 'large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge'];
+const SIZES_GRAVITON4 = [...SIZES_GRAVITON, '24xlarge', '48xlarge'];
+
+const x86 = (memoryPerVcpuGiB: number, sizes: string[]): InstanceFamily => ({ architecture: ec2.InstanceArchitecture.X86_64, memoryPerVcpuGiB, sizes });
+const arm = (memoryPerVcpuGiB: number, sizes: string[]): InstanceFamily => ({ architecture: ec2.InstanceArchitecture.ARM_64, memoryPerVcpuGiB, sizes });
+
+const INSTANCE_FAMILIES: { [family: string]: InstanceFamily } = {
+  // Compute optimized
+  'c5': x86(2, SIZES_5), 'c5d': x86(2, SIZES_5), 'c5a': x86(2, SIZES_24), 'c5ad': x86(2, SIZES_24),
+  'c5n': x86(5.25, ['large', 'xlarge', '2xlarge', '4xlarge', '9xlarge', '18xlarge']),
+  'c6i': x86(2, SIZES_32), 'c6id': x86(2, SIZES_32), 'c6in': x86(2, SIZES_32), 'c6a': x86(2, SIZES_48),
+  'c7i': x86(2, SIZES_7I), 'c7a': x86(2, ['medium', ...SIZES_48]),
+  'c6g': arm(2, SIZES_GRAVITON), 'c6gd': arm(2, SIZES_GRAVITON), 'c6gn': arm(2, SIZES_GRAVITON),
+  'c7g': arm(2, SIZES_GRAVITON), 'c7gd': arm(2, SIZES_GRAVITON), 'c8g': arm(2, SIZES_GRAVITON4),
+  // General purpose
+  'm5': x86(4, SIZES_24), 'm5d': x86(4, SIZES_24), 'm5a': x86(4, SIZES_24), 'm5ad': x86(4, SIZES_24),
+  'm5n': x86(4, SIZES_24), 'm5dn': x86(4, SIZES_24), 'm5zn': x86(4, SIZES_5Z),
+  'm6i': x86(4, SIZES_32), 'm6id': x86(4, SIZES_32), 'm6in': x86(4, SIZES_32), 'm6idn': x86(4, SIZES_32), 'm6a': x86(4, SIZES_48),
+  'm7i': x86(4, SIZES_7I), 'm7a': x86(4, ['medium', ...SIZES_48]),
+  'm6g': arm(4, SIZES_GRAVITON), 'm6gd': arm(4, SIZES_GRAVITON),
+  'm7g': arm(4, SIZES_GRAVITON), 'm7gd': arm(4, SIZES_GRAVITON), 'm8g': arm(4, SIZES_GRAVITON4),
+  // Memory optimized
+  'r5': x86(8, SIZES_24), 'r5d': x86(8, SIZES_24), 'r5a': x86(8, SIZES_24), 'r5ad': x86(8, SIZES_24),
+  'r5n': x86(8, SIZES_24), 'r5dn': x86(8, SIZES_24), 'r5b': x86(8, SIZES_24), 'z1d': x86(8, SIZES_5Z),
+  'r6i': x86(8, SIZES_32), 'r6id': x86(8, SIZES_32), 'r6a': x86(8, SIZES_48),
+  'r7i': x86(8, SIZES_7I), 'r7a': x86(8, ['medium', ...SIZES_48]),
+  'x2idn': x86(16, ['16xlarge', '24xlarge', '32xlarge']), 'x2iedn': x86(32, ['xlarge', '2xlarge', '4xlarge', '8xlarge', '16xlarge', '24xlarge', '32xlarge']),
+  'r6g': arm(8, SIZES_GRAVITON), 'r6gd': arm(8, SIZES_GRAVITON),
+  'r7g': arm(8, SIZES_GRAVITON), 'r7gd': arm(8, SIZES_GRAVITON), 'r8g': arm(8, SIZES_GRAVITON4),
+  'x2gd': arm(16, SIZES_GRAVITON),
+  // Storage optimized
+  'i3en': x86(8, [...SIZES_5Z, '24xlarge']), 'i4i': x86(8, SIZES_32),
+};
+
+export interface InstanceTypeInfo {
+  vcpus: number;
+  memoryMiB: number;
+  architecture: ec2.InstanceArchitecture;
+}
+
+export interface EnclaveSupport {
+  // undefined when support cannot be determined from the instance type name
+  supported?: boolean;
+  reason?: string;
+}
+
+// vCPUs of an instance size (e.g. 2xlarge -> 8), undefined for metal and unknown sizes
+const getSizeVcpus = (size: string): number | undefined => {
+  if (size === 'medium') return 1;
+  if (size === 'large') return 2;
+  const match = size.match(/^(\d*)xlarge$/);
+  return match ? 4 * Number(match[1] || 1) : undefined;
+};
+
+// Instance types of the built-in table, e.g. for the InstanceType parameter of a standalone template
+export const getInstanceTypeNames = (): string[] => Object.entries(INSTANCE_FAMILIES)
+  .flatMap(([familyName, family]) => family.sizes.map(size => `${familyName}.${size}`));
+
+// undefined when the instance type is not in the built-in table
+export const getInstanceTypeInfo = (instanceType: string): InstanceTypeInfo | undefined => {
+  const [familyName, size] = instanceType.split('.');
+  const family = INSTANCE_FAMILIES[familyName];
+  if (!family?.sizes.includes(size)) {
+    return undefined;
+  }
+  const vcpus = getSizeVcpus(size)!;
+  return { vcpus, memoryMiB: vcpus * family.memoryPerVcpuGiB * 1024, architecture: family.architecture };
+};
+
+export const getEnclaveSupport = (instanceType: string): EnclaveSupport => {
+  const [family, size] = instanceType.split('.');
+  if (UNSUPPORTED_FAMILIES.includes(family)) {
+    return { supported: false, reason: `the ${family} instance family does not support Nitro Enclaves` };
+  }
+  if (size === 'metal' || size?.startsWith('metal-')) {
+    return { supported: false, reason: 'bare metal instances are not supported by this setup' };
+  }
+
+  let architecture: ec2.InstanceArchitecture;
+  try {
+    architecture = new ec2.InstanceType(instanceType).architecture;
+  } catch {
+    return { supported: undefined, reason: `unable to parse instance type ${instanceType}` };
+  }
+
+  const vcpus = getSizeVcpus(size);
+  if (vcpus === undefined) {
+    return { supported: undefined, reason: `unknown instance size ${size}` };
+  }
+  if (vcpus < MIN_VCPUS[architecture]) {
+    return {
+      supported: false,
+      reason: `Nitro Enclaves requires at least ${MIN_VCPUS[architecture]} vCPUs on ${architecture} instances (${instanceType} has ${vcpus})`,
+    };
+  }
+  return { supported: true };
+};
@@ -1,34 +1,270 @@
 // config/types.ts
+// A certificate served by the instance
+export interface CertificateDefinition {
+    certificateName?: string;
+    domainName: string;
+    subjectAlternativeNames?: string[]; // e.g. ['www.example.com', '*.example.com']
+    isPrivate: boolean;
+    // If using a public certificate
+    hostedZoneId?: string; // If Route53 is the DNS provider
+    validationType?: 'DNS' | 'EMAIL'; // If using an external DNS provider
+
+    // If using a private certificate
+    pcaArn?: string;
+
+    // If using an existing certificate
+    existingCertificateArn?: string;
+
+    // Created certificate, when its stack is deleted. Default: DESTROY
+    removalPolicy?: 'DESTROY' | 'RETAIN';
+  }
+
+// Distinguished name of a created private CA
+export interface PrivateCaSubject {
+    commonName: string;
+    organization?: string;
+    organizationalUnit?: string;
+    country?: string; // Two-letter code
+    state?: string;
+    locality?: string;
+  }
+
+// AWS Private CA issuing the private certificates without a pcaArn
+export interface PrivateCaConfig {
+    mode: 'existing' | 'create';
+    pcaArn?: string; // existing
+    // create
+    type?: 'ROOT' | 'SUBORDINATE'; // Default: ROOT
+    parentCaArn?: string; // Root CA signing a SUBORDINATE CA
+    subject?: PrivateCaSubject; // Default: CN=ACM for Nitro Enclaves Private CA
+    keyAlgorithm?: 'RSA_2048' | 'RSA_4096' | 'EC_prime256v1' | 'EC_secp384r1'; // Default: RSA_2048
+    validityYears?: number; // Default: 10 (ROOT), 5 (SUBORDINATE)
+    crl?: {
+      enabled: boolean;
+      expirationDays?: number; // Default: 7
+      s3BucketName?: string; // Default: a created bucket
+    };
+    ocsp?: boolean; // Default: false
+    removalPolicy?: 'DESTROY' | 'RETAIN'; // CA and activation, when the CertificateStack is deleted. Default: DESTROY
+  }
+
+// Where the instance is launched
+export interface VpcConfig {
+    // default: default VPC | existing: vpcId (and subnetIds) | create: dedicated VPC
+    mode: 'default' | 'existing' | 'create';
+    vpcId?: string;
+    subnetIds?: string[];
+    // If creating a VPC
+    cidr?: string; // Default: 10.0.0.0/16
+    maxAzs?: number; // Default: 2
+    // PRIVATE subnets need no public IP, the AWS services being reached through VPC endpoints
+    subnetType?: 'PUBLIC' | 'PRIVATE'; // Default: PUBLIC
+    createVpcEndpoints?: boolean; // ACM, KMS, SSM interface endpoints and S3 gateway endpoint. Default: true for PRIVATE
+  }
+
+// Allowed sources of an ingress rule
+export interface IngressSources {
+    cidrs?: string[]; // IPv4 or IPv6 CIDR blocks
+    prefixListIds?: string[]; // Managed prefix lists (pl-xxxxxxxx)
+    securityGroupIds?: string[]; // Source security groups (sg-xxxxxxxx)
+  }
+
+// Security group ingress of the instance
+export interface NetworkAccessConfig {
+    httpsPort?: number; // Port the web server listens on for HTTPS. Default: 443
+    httpsSources?: IngressSources; // Default: 0.0.0.0/0
+    allowHttp?: boolean; // Open port 80. Default: true
+    httpSources?: IngressSources; // Default: httpsSources
+    sshSources?: IngressSources; // Required when allowSSHPort is true
+    additionalSecurityGroupIds?: string[]; // Existing security groups to attach to the instance
+  }
+
+// AWS Systems Manager Session Manager access to the instance
+export interface SessionManagerConfig {
+    enabled?: boolean; // Attach AmazonSSMManagedInstanceCore to the role. Default: true
+    logToS3?: boolean; // Log sessions to a created S3 bucket. Default: false
+    logToCloudWatch?: boolean; // Log sessions to a created CloudWatch log group. Default: false
+    encryptSessions?: boolean; // Encrypt the session data and logs with a created KMS key. Default: true
+    logRetentionDays?: number; // CloudWatch log group retention. Default: 90
+    idleSessionTimeoutMinutes?: number; // Default: 20
+  }
+
+// Auto Scaling group behind a Network Load Balancer (deploymentMode: 'fleet')
+export interface FleetConfig {
+    minCapacity?: number; // Default: 2
+    maxCapacity?: number; // Default: 4
+    desiredCapacity?: number; // Reset on each deployment when set. Default: unset, the group starts at minCapacity and keeps its size
+    maxBatchSize?: number; // Instances replaced at once during rolling updates. Default: 1
+    minInstancesInService?: number; // Instances kept in service during rolling updates. Default: minCapacity
+    signalTimeoutMinutes?: number; // Time given to a new instance to configure its web server. Default: 15
+  }
+
+// Route 53 records and health check of the certificate domains having a hostedZoneId
+export interface DnsConfig {
+    createRecords?: boolean; // A records (alias records in fleet mode). Default: true
+    elasticIp?: boolean; // Allocate an Elastic IP to the instance (single mode, public subnets). Default: true
+    healthCheck?: boolean; // HTTPS health check and alarm on the primary domain. Default: true
+    healthCheckPath?: string; // Default: /
+    alarmTopicArn?: string; // SNS topic notified when the health check fails
+  }
+
+// vCPUs and memory reserved for the enclave of the ACM for Nitro Enclaves service (allocator.yaml and acm.yaml)
+export interface EnclaveConfig {
+    cpuCount?: number; // Multiple of 2 on Intel and AMD instances (full cores). Default: 2
+    memoryMiB?: number; // Default: 512
+  }
+
+// TLS settings of the web server (every server block / VirtualHost)
+export interface TlsConfig {
+    protocols?: ('TLSv1.2' | 'TLSv1.3')[]; // Default: TLSv1.2
+    ciphers?: string; // OpenSSL cipher list. Default: the web server defaults
+    hstsMaxAgeSeconds?: number; // Send a Strict-Transport-Security header. Default: no header
+  }
+
+// Root EBS volume of the instances
+export interface VolumeConfig {
+    sizeGiB?: number; // Default: 8
+    type?: 'gp2' | 'gp3' | 'io1' | 'io2'; // Default: gp2
+    iops?: number; // gp3, io1 and io2 only (required for io1 and io2)
+  }
+
+// Customer managed KMS key of the root volume, instead of the AWS managed aws/ebs key
+export interface VolumeKmsConfig {
+    mode: 'create' | 'existing';
+    keyArn?: string; // existing
+  }
+
+// Tags of every stack of the setup, propagated to their resources
+export interface TagsConfig {
+    setupName?: string; // SetupName tag. Default: the setup name (setup-tool)
+    owner?: string; // Owner tag
+    costCenter?: string; // CostCenter tag
+    additionalTags?: { [key: string]: string };
+  }
+
+// Instance hardening profile
+export interface HardeningConfig {
+    requireImdsv2?: boolean; // Instance metadata tokens required. Default: true
+    imdsHopLimit?: number; // Metadata response hop limit. Default: 1
+    volumeKms?: VolumeKmsConfig; // Encrypts the root volume. Default: AWS managed key (encryptVolume)
+    volume?: VolumeConfig; // Default: 8 GiB gp2
+    detailedMonitoring?: boolean; // 1-minute EC2 metrics. Default: false
+    terminationProtection?: boolean; // API termination protection, single mode only. Default: false
+    tags?: TagsConfig;
+  }
+
+// AMI of the instances, instead of the latest stock Amazon Linux image of amiType
+export interface ImageConfig {
+    amiId?: string; // Custom AMI, based on the Amazon Linux version of amiType
+    ssmParameterName?: string; // SSM parameter holding the AMI ID, resolved on each deployment
+    preinstalled?: boolean; // The AMI already contains the web server and ACM for Nitro Enclaves (golden image), their installation is skipped. Default: false
+  }
+
+// Image Builder pipeline baking the web server, ACM for Nitro Enclaves and the allocator configuration into an AMI (ImageBuilderStack)
+export interface ImageBuilderConfig {
+    stackName: string;
+    enabled?: boolean; // Create the ImageBuilderStack, whose image is used by the instances. Default: false
+    recipeVersion?: string; // Semantic version of the image recipe. Default: 1.0.0
+    buildInstanceType?: string; // Default: instanceConfig.instanceType
+    subnetId?: string; // Subnet of the build instance, with internet access. Default: a subnet of the default VPC
+    securityGroupIds?: string[]; // Security groups of the build instance, required with subnetId
+    scheduleExpression?: string; // Rebuild schedule of the pipeline, e.g. cron(0 0 ? * sun *). Default: manual builds only
+    parameterName?: string; // SSM parameter updated with the ID of each image. Default: /imagebuilder/acmne/<stackName>/image-id
+  }
+
+// Certificate expiry alarms, renewal events, logs and dashboard of the setup (MonitoringStack)
+export interface MonitoringConfig {
+    stackName: string;
+    enabled?: boolean; // Create the MonitoringStack. Default: false
+    dashboardName?: string; // Default: the setup name
+    expiryThresholdDays?: number; // Alarm when a certificate expires in less days (ACM DaysToExpiry). Default: 30
+    notificationEmails?: string[]; // Subscribed to the notification topic
+    notificationTopicArn?: string; // Existing SNS topic notified instead of a created one
+    logs?: boolean; // CloudWatch agent shipping the ACM service, web server and health check logs. Default: true
+    logRetentionDays?: number; // Default: 30
+  }
+
+// Finding of a compliance rule accepted for a resource
+export interface ComplianceSuppression {
+    ruleId: string; // e.g. ACMNE-EC2-2
+    resource?: string; // Construct path of the resource (or of a parent construct), as reported by the finding. Default: every resource
+    justification: string;
+  }
+
+// Compliance rule pack run on the synthesized stacks
+export interface ComplianceConfig {
+    enabled?: boolean; // Default: true
+    failOnError?: boolean; // Error findings fail the synthesis (and the deployment) instead of being reported as warnings. Default: false
+    suppressions?: ComplianceSuppression[];
+  }
+
 export interface NitroEnclavesAcmStreamlineConfig {
-    certificateConfig: {
+    // The primary certificate
+    certificateConfig: CertificateDefinition & {
       stackName: string;
-      certificateName?: string;
-      domainName: string;
-      isPrivate: boolean;
-      // If using a public certificate
-      hostedZoneId?: string; // If Route53 is the DNS provider
-      validationType?: 'DNS' | 'EMAIL'; // If using an external DNS provider
-
-      // If using a private certificate
-      pcaArn?: string;
-
-      // If using an existing certificate
-      existingCertificateArn?: string;
+      // Further certificates, each served on its own server block / VirtualHost
+      additionalCertificates?: CertificateDefinition[];
+      // CA of the private certificates without a pcaArn
+      privateCa?: PrivateCaConfig;
     };
     roleConfig?: {
       stackName: string;
       roleName?: string;
+      // Role already attached to the instances (brownfield): only the certificate associations and their permissions are added to it
+      existingRoleArn?: string;
+      sessionManager?: SessionManagerConfig; // Default: enabled, without session logging
     };
     instanceConfig: {
       stackName: string;
       instanceName?: string;
       keyPairName: string;
-      serverType: 'NGINX' | 'APACHE';
+      serverType: string; // NGINX, APACHE, TOMCAT, HAPROXY or a type added with registerServerType
       amiType: 'AL2' | 'AL2023';
       instanceType: string;
       encryptVolume: boolean;
       allowSSHPort: boolean;
+      vpc?: VpcConfig; // Default: public subnets of the default VPC
+      networkAccess?: NetworkAccessConfig; // Default: HTTP/HTTPS from 0.0.0.0/0
+      deploymentMode?: 'single' | 'fleet'; // Default: single
+      fleet?: FleetConfig; // Fleet mode only
+      dns?: DnsConfig; // Default: records, Elastic IP and health check when a certificate has a hostedZoneId
+      tls?: TlsConfig; // Default: TLSv1.2 only
+      enclave?: EnclaveConfig; // Default: 2 vCPUs and 512 MiB
+      hardening?: HardeningConfig; // Default: IMDSv2 required, 8 GiB gp2 volume, no tags
+      image?: ImageConfig; // Default: the latest Amazon Linux image of amiType (or the golden image of imageBuilderConfig)
+      // Enclave-enabled instances configured through Systems Manager instead of launching one (brownfield, requires roleConfig.existingRoleArn)
+      existingInstanceIds?: string[];
     };
+    monitoringConfig?: MonitoringConfig; // Default: disabled
+    complianceConfig?: ComplianceConfig; // Default: enabled, findings reported as warnings
+    imageBuilderConfig?: ImageBuilderConfig; // Default: disabled
     region: string;
     account: string;
   }
+
+
+// Recursively optional version of a configuration type (arrays are replaced as a whole)
+export type DeepPartial<T> = {
+    [K in keyof T]?: DeepPartialValue<T[K]>;
+  };
+type DeepPartialValue<V> = V extends unknown[] ? V : V extends object ? DeepPartial<V> : V;
+
+// Environment of a multi-environment config file (e.g. staging, production or a region), deployed as a CDK Stage
+export interface EnvironmentDefinition extends DeepPartial<NitroEnclavesAcmStreamlineConfig> {
+    name: string; // Stage name, the setup name of the environment is <setupName>-<name>
+  }
+
+// Effective configuration of an environment (ConfigLoader.resolveEnvironments)
+export interface SetupEnvironment {
+    name?: string; // Undefined for a config file without environments
+    config: NitroEnclavesAcmStreamlineConfig;
+  }
+
+// setup-tool config file (YAML or JSON): any subset of the configuration, merged with env vars and CLI flags
+export interface NitroEnclavesAcmStreamlineConfigFile extends DeepPartial<NitroEnclavesAcmStreamlineConfig> {
+    // Prefix of the default stack names (e.g. <setupName>-CertificateStack)
+    setupName?: string;
+    // Deployed in this order, each with the configuration above and its own account, region and overrides
+    environments?: EnvironmentDefinition[];
+    $schema?: string;
+  }
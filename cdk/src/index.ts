@@ -0,0 +1,36 @@
+// Library entry point: constructs and stacks that can be used from any CDK app
+export { AcmForNitroEnclaves, AcmForNitroEnclavesProps } from './lib/constructs/acm-for-nitro-enclaves';
+export { EnclaveCertificate, EnclaveCertificateProps } from './lib/constructs/certificate';
+export { EnclavePrivateCa, EnclavePrivateCaProps } from './lib/constructs/private-ca';
+export { EnclaveRole, EnclaveRoleProps } from './lib/constructs/role';
+export { EnclaveInstance, EnclaveInstanceProps } from './lib/constructs/instance';
+export { EnclaveConfigurationDocument, EnclaveConfigurationDocumentProps, EnclaveConfigurationProps, EnclaveConfigurationAssociationOptions } from './lib/constructs/configuration-document';
+export { EnclaveExistingInstances, EnclaveExistingInstancesProps } from './lib/constructs/existing-instances';
+export { EnclaveSessionManager, EnclaveSessionManagerProps } from './lib/constructs/session-manager';
+export { EnclaveDns, EnclaveDnsProps } from './lib/constructs/dns';
+export { EnclaveMonitoring, EnclaveMonitoringProps, MonitoredCertificate } from './lib/constructs/monitoring';
+export { EnclaveGoldenImage, EnclaveGoldenImageProps } from './lib/constructs/golden-image';
+export { CertificateStack, CertificateStackProps } from './lib/certificate-stack';
+export { RoleStack, RoleStackProps } from './lib/role-stack';
+export { InstanceStack, InstanceStackProps } from './lib/instance-stack';
+export { MonitoringStack, MonitoringStackProps } from './lib/monitoring-stack';
+export { ImageBuilderStack, ImageBuilderStackProps } from './lib/image-builder-stack';
+export { renderUserDataCommands, renderBootstrapCommands, renderImageBuildCommands, UserDataSettings, UserDataCertificate, BootstrapSettings, ImageBuildSettings } from './lib/user-data/user-data';
+export { renderAcmConfig, AcmConfig, AcmToken, EnclaveResources } from './lib/user-data/acm-config';
+export { renderAllocatorConfig } from './lib/user-data/allocator-config';
+export { renderNginxServerBlock, renderHttpdVirtualHost, renderHaproxyConfig, renderTomcatConnector, VirtualServer } from './lib/user-data/web-server-config';
+export { renderCloudWatchAgentConfig, MonitoringLogGroups } from './lib/user-data/cloudwatch-agent-config';
+export { registerServerType, getServerType, getServerTypeNames, ServerTypeProfile, ServerTypeContext } from './lib/user-data/server-types';
+export { NitroEnclavesAcmStreamline } from './lib/nitro-enclaves-acm-streamline';
+export { SetupStage, SetupStageProps } from './lib/setup-stage';
+export { ComplianceChecker, ComplianceFinding } from './lib/compliance/compliance-checker';
+export { registerComplianceRule, getComplianceRule, getComplianceRules, ComplianceRule, ComplianceSeverity } from './lib/compliance/compliance-rules';
+export { applySetupTags, getSetupTags, SETUP_TAG_KEYS } from './lib/tags';
+export { getDestroyPlan, formatDestroyPlan, DestroyPlan, PlannedStack, PlannedResource } from './lib/destroy/destroy-plan';
+export { exportTemplates, ExportOptions, ExportedTemplate, MAX_TEMPLATE_BODY_SIZE } from './lib/export/export-templates';
+export { NitroEnclavesAcmStreamlineConfig, EnvironmentDefinition, SetupEnvironment } from './config/types';
+export { ConfigLoader, ConfigSources, LoadedConfigFile } from './config/config-loader';
+export { SetupWizard, SetupWizardResult } from './lib/init/setup-wizard';
+export { ConsolePrompter, Prompter, InputOptions, Choice } from './lib/init/prompter';
+export { ConfigValidator } from './config/config-validator';
+export { getDefaultConfig } from './config/default-config';
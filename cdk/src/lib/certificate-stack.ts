@@ -1,58 +1,65 @@
 import * as cdk from 'aws-cdk-lib';
-import * as acm from 'aws-cdk-lib/aws-certificatemanager';
-import * as route53 from 'aws-cdk-lib/aws-route53';
-import * as acmpca from 'aws-cdk-lib/aws-acmpca';
 import { Construct } from 'constructs';
+import { EnclaveCertificate, EnclaveCertificateProps } from './constructs/certificate';
+import { EnclavePrivateCa, EnclavePrivateCaProps } from './constructs/private-ca';
+import { addDomainNameParameter, addSharedOutput } from './export/standalone-template';
 
 /*
   Step 1 - Create the ACM certificate: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#create-cert
 */
 
-interface CertificateStackProps extends cdk.StackProps {
-  certificateName?: string;
-  // Required props
-  domainName: string;
-  isPrivate: boolean;
-  // Public certificate only
-  hostedZoneId?: string; // If Route53 is the DNS provider
-  validationType?: 'DNS' | 'EMAIL'; // Otherwise
-  // Private certificate only
-  pcaArn?: string;
+export interface CertificateStackProps extends cdk.StackProps {
+  // One entry per certificate to create
+  certificates: EnclaveCertificateProps[];
+  // Private CA to create, issuing the private certificates without a pcaArn
+  privateCa?: EnclavePrivateCaProps;
+  // Standalone template (setup-tool export): the values read by the other stacks are named exports
+  standalone?: boolean;
+  // The domain name of the first certificate (the primary one) is a PrimaryDomainName parameter of the standalone template
+  domainNameParameter?: boolean;
 }
 
 export class CertificateStack extends cdk.Stack {
   public readonly certificateArn: string;
+  public readonly certificateArns: string[];
+  // Of the first certificate, imported from a standalone template
+  public readonly domainName: string;
+  public readonly privateCa?: EnclavePrivateCa;
+  // Created private CA, imported from a standalone template
+  public readonly certificateAuthorityArn?: string;
+  public readonly rootCertificatePem?: string;
 
-  constructor(scope: Construct, id: string, props?: CertificateStackProps) {
+  constructor(scope: Construct, id: string, props: CertificateStackProps) {
     super(scope, id, props);
 
-    let certificate = null;
-
-    // Provision a public certificate
-    if (!props?.isPrivate) {
-      // If route53 is the DNS provider, validation is done automatically
-      if (props?.hostedZoneId) {
-        const hostedZone = route53.HostedZone.fromHostedZoneId(this, 'HostedZone', props?.hostedZoneId!);
-        certificate = new acm.Certificate(this, props?.certificateName!, {
-          domainName: props?.domainName!,
-          validation: acm.CertificateValidation.fromDns(hostedZone),
-        });
-      } else {
-        certificate = new acm.Certificate(this, props?.certificateName!, {
-          domainName: props?.domainName!,
-          validation: props?.validationType === 'DNS' ? acm.CertificateValidation.fromDns() : acm.CertificateValidation.fromEmail(),
-        });
-      }
-    } else {
-      certificate = new acm.PrivateCertificate(this, props?.certificateName!, {
-        domainName: props?.domainName!,
-        certificateAuthority: acmpca.CertificateAuthority.fromCertificateAuthorityArn(this, 'CertificateAuthority', props?.pcaArn!),
-      });
+    if (props.privateCa) {
+      this.privateCa = new EnclavePrivateCa(this, 'EnclavePrivateCa', props.privateCa);
+      this.certificateAuthorityArn = addSharedOutput(this, 'PrivateCaArn', this.privateCa.certificateAuthorityArn, props.standalone);
+      this.rootCertificatePem = props.standalone
+        ? addSharedOutput(this, 'PrivateCaCertificate', this.privateCa.rootCertificatePem, true)
+        : this.privateCa.rootCertificatePem;
     }
 
-    this.certificateArn = certificate.certificateArn;
+    const certificates = props.certificates.map((certificateProps, index) => index === 0 && props.standalone && props.domainNameParameter
+      ? { ...certificateProps, domainName: addDomainNameParameter(this, certificateProps.domainName) }
+      : certificateProps);
+    const domainNames: string[] = [];
+    this.certificateArns = certificates.map((certificateProps, index) => {
+      const issuedByPrivateCa = this.privateCa && certificateProps.isPrivate && !certificateProps.pcaArn;
+      const certificate = new EnclaveCertificate(this, index === 0 ? 'EnclaveCertificate' : `EnclaveCertificate-${certificateProps.certificateName}`, {
+        ...certificateProps,
+        certificateAuthority: issuedByPrivateCa ? this.privateCa!.certificateAuthority : certificateProps.certificateAuthority,
+      });
+      if (issuedByPrivateCa) {
+        certificate.node.addDependency(this.privateCa!.activation);
+      }
+      const suffix = index === 0 ? '' : `-${certificateProps.certificateName}`;
 
-    new cdk.CfnOutput(this, 'CertificateArn', { value: this.certificateArn });
-    new cdk.CfnOutput(this, 'DomainName', { value: props!.domainName });
+      const certificateArn = addSharedOutput(this, `CertificateArn${suffix}`, certificate.certificateArn, props.standalone);
+      domainNames.push(addSharedOutput(this, `DomainName${suffix}`, certificateProps.domainName, props.standalone));
+      return certificateArn;
+    });
+    this.certificateArn = this.certificateArns[0];
+    this.domainName = domainNames[0];
   }
 }
@@ -0,0 +1,67 @@
+import * as cdk from 'aws-cdk-lib';
+import { IConstruct } from 'constructs';
+import { ComplianceConfig, ComplianceSuppression } from '../../config/types';
+import { ComplianceSeverity, getComplianceRules } from './compliance-rules';
+
+/*
+  CDK Aspect running the compliance rule pack on every CloudFormation resource of the scope it is added to
+  (with the READONLY priority, after the aspects modifying the resources).
+  Findings are reported as construct annotations, shown by cdk synth/deploy with the path of the resource:
+  errors fail the synthesis when failOnError is set, suppressed findings are kept as info with their justification.
+*/
+
+export interface ComplianceFinding {
+  ruleId: string;
+  severity: ComplianceSeverity;
+  // Construct path of the resource, as matched by the suppressions
+  path: string;
+  message: string;
+  // Justification of the matching suppression
+  suppressedBy?: string;
+}
+
+export class ComplianceChecker implements cdk.IAspect {
+  public readonly findings: ComplianceFinding[] = [];
+  private readonly config: ComplianceConfig;
+
+  constructor(config: ComplianceConfig = {}) {
+    this.config = config;
+  }
+
+  public visit(node: IConstruct): void {
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+    for (const rule of getComplianceRules()) {
+      for (const message of rule.check(node)) {
+        const suppression = this.getSuppression(rule.id, node.node.path);
+        const finding: ComplianceFinding = {
+          ruleId: rule.id,
+          severity: rule.severity,
+          path: node.node.path,
+          message,
+          suppressedBy: suppression?.justification,
+        };
+        this.findings.push(finding);
+        this.report(node, finding);
+      }
+    }
+  }
+
+  private report(node: IConstruct, finding: ComplianceFinding): void {
+    const text = `${finding.severity.toUpperCase()} ${finding.ruleId}: ${finding.message}`;
+    if (finding.suppressedBy) {
+      cdk.Annotations.of(node).addInfo(`${text} Suppressed: ${finding.suppressedBy}`);
+    } else if (finding.severity === 'error' && this.config.failOnError) {
+      cdk.Annotations.of(node).addError(text);
+    } else {
+      cdk.Annotations.of(node).addWarningV2(`acmne:compliance:${finding.ruleId}`, text);
+    }
+  }
+
+  // Suppression of the rule on the resource or on one of its parent constructs
+  private getSuppression(ruleId: string, path: string): ComplianceSuppression | undefined {
+    return (this.config.suppressions || []).find(suppression => suppression.ruleId === ruleId
+      && (!suppression.resource || path === suppression.resource || path.startsWith(`${suppression.resource}/`)));
+  }
+}
@@ -0,0 +1,220 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+
+/*
+  Compliance rule pack: each rule inspects the CloudFormation resources of the synthesized stacks
+  and returns one message per violation. Property values are resolved, tokens of other resources are left as intrinsics.
+*/
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceRule {
+  // Stable identifier, referenced by the suppressions (e.g. ACMNE-EC2-1)
+  id: string;
+  severity: ComplianceSeverity;
+  description: string;
+  check(resource: cdk.CfnResource): string[];
+}
+
+const WORLD_CIDRS = ['0.0.0.0/0', '::/0'];
+// Administration ports that must never be reachable from the internet
+const ADMIN_PORTS = [22, 3389];
+
+interface IngressRule {
+  cidrIp?: string;
+  cidrIpv6?: string;
+  ipProtocol?: string;
+  fromPort?: number;
+  toPort?: number;
+}
+
+// Resolved property, typed with the fields read by the checks
+const resolve = <T>(resource: cdk.CfnResource, value: unknown): T | undefined => cdk.Stack.of(resource).resolve(value);
+
+// Ingress rules of a security group, inline or as separate resources
+const getIngressRules = (resource: cdk.CfnResource): IngressRule[] => {
+  if (resource instanceof ec2.CfnSecurityGroup) {
+    return resolve<IngressRule[]>(resource, resource.securityGroupIngress) || [];
+  }
+  if (resource instanceof ec2.CfnSecurityGroupIngress) {
+    return [resolve<IngressRule>(resource, {
+      cidrIp: resource.cidrIp,
+      cidrIpv6: resource.cidrIpv6,
+      ipProtocol: resource.ipProtocol,
+      fromPort: resource.fromPort,
+      toPort: resource.toPort,
+    })!];
+  }
+  return [];
+};
+
+const isWorldOpen = (rule: IngressRule): boolean => WORLD_CIDRS.includes(rule.cidrIp || '') || WORLD_CIDRS.includes(rule.cidrIpv6 || '');
+
+const isAdminRule = (rule: IngressRule): boolean => rule.ipProtocol === '-1'
+  || ADMIN_PORTS.some(port => rule.fromPort !== undefined && rule.toPort !== undefined && rule.fromPort <= port && port <= rule.toPort);
+
+const describeIngress = (rule: IngressRule): string => {
+  const ports = rule.ipProtocol === '-1' ? 'all traffic' : rule.fromPort === rule.toPort ? `port ${rule.fromPort}` : `ports ${rule.fromPort}-${rule.toPort}`;
+  return `${ports} open to ${rule.cidrIp || rule.cidrIpv6}`;
+};
+
+interface BlockDeviceMapping {
+  deviceName?: string;
+  ebs?: { encrypted?: boolean };
+}
+
+const getBlockDeviceMappings = (resource: cdk.CfnResource): BlockDeviceMapping[] => {
+  if (resource instanceof ec2.CfnInstance) {
+    return resolve<BlockDeviceMapping[]>(resource, resource.blockDeviceMappings) || [];
+  }
+  if (resource instanceof ec2.CfnLaunchTemplate) {
+    return resolve<{ blockDeviceMappings?: BlockDeviceMapping[] }>(resource, resource.launchTemplateData)?.blockDeviceMappings || [];
+  }
+  return [];
+};
+
+interface PolicyStatementJson {
+  Effect?: string;
+  Action?: string | string[];
+  Resource?: unknown;
+}
+
+// Statements of the identity policies (the key policies and bucket policies are not identity policies)
+const getIdentityStatements = (resource: cdk.CfnResource): PolicyStatementJson[] => {
+  const documents: unknown[] = [];
+  if (resource instanceof iam.CfnPolicy || resource instanceof iam.CfnManagedPolicy) {
+    documents.push(resource.policyDocument);
+  } else if (resource instanceof iam.CfnRole) {
+    documents.push(...(resolve<{ policyDocument: unknown }[]>(resource, resource.policies) || []).map(policy => policy.policyDocument));
+  }
+  return documents.flatMap(document => {
+    const statements = resolve<{ Statement?: PolicyStatementJson | PolicyStatementJson[] }>(resource, document)?.Statement || [];
+    return Array.isArray(statements) ? statements : [statements];
+  });
+};
+
+const asArray = <T>(value: T | T[] | undefined): T[] => value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// ARN with the intrinsic parts replaced by a placeholder (Fn::Join is expanded): arn:${Token}:kms:us-east-1:*:key/${Token}
+const toArnPattern = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const join = (value as { 'Fn::Join'?: [string, unknown[]] } | undefined)?.['Fn::Join'];
+  if (join && Array.isArray(join[1])) {
+    return join[1].map(toArnPattern).join(join[0]);
+  }
+  return '${Token}';
+};
+
+const COMPLIANCE_RULES = new Map<string, ComplianceRule>();
+
+// Adds a rule to the pack run by the ComplianceChecker, or replaces the rule with the same ID
+export const registerComplianceRule = (rule: ComplianceRule): void => {
+  COMPLIANCE_RULES.set(rule.id, rule);
+};
+
+export const getComplianceRule = (id: string): ComplianceRule | undefined => COMPLIANCE_RULES.get(id);
+
+export const getComplianceRules = (): ComplianceRule[] => [...COMPLIANCE_RULES.values()];
+
+registerComplianceRule({
+  id: 'ACMNE-EC2-1',
+  severity: 'error',
+  description: 'SSH, RDP or all traffic open to the internet',
+  check: resource => getIngressRules(resource)
+    .filter(rule => isWorldOpen(rule) && isAdminRule(rule))
+    .map(rule => `Security group ingress: ${describeIngress(rule)}.`),
+});
+
+registerComplianceRule({
+  id: 'ACMNE-EC2-2',
+  severity: 'warning',
+  description: 'Ingress open to the internet',
+  check: resource => getIngressRules(resource)
+    .filter(rule => isWorldOpen(rule) && !isAdminRule(rule))
+    .map(rule => `Security group ingress: ${describeIngress(rule)}, restrict the sources unless the server is public.`),
+});
+
+registerComplianceRule({
+  id: 'ACMNE-EC2-3',
+  severity: 'error',
+  description: 'Unencrypted EBS volume',
+  check: resource => getBlockDeviceMappings(resource)
+    .filter(mapping => mapping.ebs && mapping.ebs.encrypted !== true)
+    .map(mapping => `EBS volume ${mapping.deviceName} is not encrypted.`),
+});
+
+registerComplianceRule({
+  id: 'ACMNE-EC2-4',
+  severity: 'warning',
+  description: 'IMDSv1 allowed',
+  check: resource => {
+    if (resource instanceof ec2.CfnInstance) {
+      // The metadata options of an instance can only be set through a launch template
+      return resource.launchTemplate ? [] : ['The instance has no launch template requiring IMDSv2.'];
+    }
+    if (resource instanceof ec2.CfnLaunchTemplate) {
+      const metadataOptions = resolve<{ metadataOptions?: { httpTokens?: string } }>(resource, resource.launchTemplateData)?.metadataOptions;
+      return metadataOptions?.httpTokens === 'required' ? [] : ['The launch template does not require IMDSv2 session tokens.'];
+    }
+    return [];
+  },
+});
+
+registerComplianceRule({
+  id: 'ACMNE-IAM-1',
+  severity: 'error',
+  description: 'Resource ARN with an account wildcard',
+  check: resource => getIdentityStatements(resource)
+    .flatMap(statement => asArray(statement.Resource).map(toArnPattern))
+    .filter(arn => arn.startsWith('arn:') && arn.split(':')[4] === '*')
+    .map(arn => `Policy statement on "${arn}" allows the resources of any account.`),
+});
+
+registerComplianceRule({
+  id: 'ACMNE-IAM-2',
+  severity: 'warning',
+  description: 'Wildcard actions on every resource',
+  check: resource => getIdentityStatements(resource)
+    .filter(statement => statement.Effect === 'Allow' && asArray(statement.Resource).includes('*'))
+    .flatMap(statement => asArray(statement.Action).filter(action => action === '*' || action.endsWith(':*')))
+    .map(action => `Policy statement allows ${action} on every resource.`),
+});
+
+registerComplianceRule({
+  id: 'ACMNE-KMS-1',
+  severity: 'warning',
+  description: 'KMS key without automatic rotation',
+  check: resource => resource instanceof kms.CfnKey && resolve(resource, resource.enableKeyRotation) !== true
+    ? ['Automatic rotation of the key material is disabled.']
+    : [],
+});
+
+registerComplianceRule({
+  id: 'ACMNE-S3-1',
+  severity: 'error',
+  description: 'S3 bucket without blocked public access',
+  check: resource => {
+    if (!(resource instanceof s3.CfnBucket)) {
+      return [];
+    }
+    const block = resolve<{ [field: string]: unknown }>(resource, resource.publicAccessBlockConfiguration) || {};
+    return ['blockPublicAcls', 'blockPublicPolicy', 'ignorePublicAcls', 'restrictPublicBuckets'].every(field => block[field] === true)
+      ? []
+      : ['Public access to the bucket is not fully blocked.'];
+  },
+});
+
+registerComplianceRule({
+  id: 'ACMNE-LOGS-1',
+  severity: 'warning',
+  description: 'Log group without retention',
+  check: resource => resource instanceof logs.CfnLogGroup && resolve(resource, resource.retentionInDays) === undefined
+    ? ['The log events never expire.']
+    : [],
+});
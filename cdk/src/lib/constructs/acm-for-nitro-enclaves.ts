@@ -0,0 +1,178 @@
+import * as cdk from 'aws-cdk-lib';
+import * as autoscaling from 'aws-cdk-lib/aws-autoscaling';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { NitroEnclavesAcmStreamlineConfig } from '../../config/types';
+import { getCertificateDefinitions, usesCreatedPrivateCa } from '../../config/certificates';
+import { EnclaveCertificate } from './certificate';
+import { EnclavePrivateCa } from './private-ca';
+import { EnclaveRole } from './role';
+import { EnclaveInstance, EnclaveInstanceCertificate } from './instance';
+import { EnclaveExistingInstances } from './existing-instances';
+import { EnclaveDns } from './dns';
+import { EnclaveMonitoring } from './monitoring';
+import { applySetupTags } from '../tags';
+import { ComplianceChecker } from '../compliance/compliance-checker';
+
+/*
+  Steps 1 to 6 of https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html in a single construct,
+  for use inside an existing Stack. The stackName fields of the configuration are ignored.
+*/
+
+export interface AcmForNitroEnclavesProps extends Pick<NitroEnclavesAcmStreamlineConfig, 'certificateConfig' | 'roleConfig' | 'instanceConfig' | 'monitoringConfig' | 'complianceConfig'> {}
+
+export class AcmForNitroEnclaves extends Construct {
+  // ARN of the primary certificate
+  public readonly certificateArn: string;
+  // ARNs of the primary and additional certificates
+  public readonly certificateArns: string[];
+  // Certificates created by the construct (existing certificates are not included)
+  public readonly certificates: EnclaveCertificate[] = [];
+  public readonly role: iam.IRole;
+  public readonly instanceProfile: iam.InstanceProfile;
+  // Single mode only
+  public readonly instance?: ec2.Instance;
+  // Fleet mode only
+  public readonly autoScalingGroup?: autoscaling.AutoScalingGroup;
+  public readonly loadBalancer?: elbv2.NetworkLoadBalancer;
+  // When a certificate has a hostedZoneId
+  public readonly dns?: EnclaveDns;
+  // When certificateConfig.privateCa.mode is create
+  public readonly privateCa?: EnclavePrivateCa;
+  // When monitoringConfig.enabled
+  public readonly monitoring?: EnclaveMonitoring;
+  // When instanceConfig.existingInstanceIds are given, instead of the instance
+  public readonly existingInstances?: EnclaveExistingInstances;
+  // Unless complianceConfig.enabled is false, findings collected when the stack is synthesized
+  public readonly complianceChecker?: ComplianceChecker;
+
+  constructor(scope: Construct, id: string, props: AcmForNitroEnclavesProps) {
+    super(scope, id);
+
+    const { certificateConfig, roleConfig, instanceConfig, monitoringConfig } = props;
+    applySetupTags(this, instanceConfig.hardening?.tags);
+    if (props.complianceConfig?.enabled ?? true) {
+      this.complianceChecker = new ComplianceChecker(props.complianceConfig);
+      cdk.Aspects.of(this).add(this.complianceChecker, { priority: cdk.AspectPriority.READONLY });
+    }
+    const certificateDefinitions = getCertificateDefinitions(certificateConfig);
+
+    // Private CA issuing the private certificates without a pcaArn
+    if (certificateDefinitions.some(definition => usesCreatedPrivateCa(certificateConfig, definition))) {
+      const { mode, pcaArn, ...privateCaProps } = certificateConfig.privateCa!;
+      this.privateCa = new EnclavePrivateCa(this, 'PrivateCa', privateCaProps);
+    }
+
+    // Step 1 - Skipped for the certificates with an existing ARN
+    this.certificateArns = certificateDefinitions.map((definition, index) => {
+      if (definition.existingCertificateArn) {
+        return definition.existingCertificateArn;
+      }
+      const issuedByPrivateCa = usesCreatedPrivateCa(certificateConfig, definition);
+      const certificate = new EnclaveCertificate(this, index === 0 ? 'Certificate' : `Certificate-${definition.certificateName}`, {
+        ...definition,
+        certificateAuthority: issuedByPrivateCa ? this.privateCa!.certificateAuthority : undefined,
+      });
+      if (issuedByPrivateCa) {
+        certificate.node.addDependency(this.privateCa!.activation);
+      }
+      this.certificates.push(certificate);
+      return certificate.certificateArn;
+    });
+    this.certificateArn = this.certificateArns[0];
+
+    // Expiry alarms, certificate events, log groups and dashboard
+    const instanceCertificates: EnclaveInstanceCertificate[] = certificateDefinitions.map((definition, index) => ({
+      certificateArn: this.certificateArns[index],
+      domainName: definition.domainName,
+      subjectAlternativeNames: definition.subjectAlternativeNames,
+      isPrivate: definition.isPrivate,
+      hostedZoneId: definition.hostedZoneId,
+    }));
+    if (monitoringConfig?.enabled) {
+      const certificateAuthorityArns = [
+        ...(this.privateCa ? [this.privateCa.certificateAuthorityArn] : []),
+        ...certificateDefinitions.filter(definition => definition.pcaArn && !definition.existingCertificateArn).map(definition => definition.pcaArn!),
+      ];
+      this.monitoring = new EnclaveMonitoring(this, 'Monitoring', {
+        ...monitoringConfig,
+        dashboardName: monitoringConfig.dashboardName || 'AcmneDashboard',
+        certificates: instanceCertificates,
+        certificateAuthorityArns: [...new Set(certificateAuthorityArns)],
+      });
+    }
+
+    // Steps 3, 4 & 5
+    const enclaveRole = new EnclaveRole(this, 'Role', {
+      roleName: roleConfig?.roleName,
+      existingRoleArn: roleConfig?.existingRoleArn,
+      certificateArns: this.certificateArns,
+      sessionManager: roleConfig?.sessionManager,
+      cloudWatchAgent: !!this.monitoring?.logGroups,
+    });
+    this.role = enclaveRole.role;
+    this.instanceProfile = enclaveRole.instanceProfile;
+
+    const trustedCaCertificates = this.privateCa ? [this.privateCa.rootCertificatePem] : undefined;
+    const monitoringLogGroups = this.monitoring?.logGroups;
+
+    // Step 2 on the existing instances, configured through Systems Manager
+    if (instanceConfig.existingInstanceIds?.length) {
+      this.existingInstances = new EnclaveExistingInstances(this, 'ExistingInstances', {
+        ...instanceConfig,
+        instanceIds: instanceConfig.existingInstanceIds,
+        certificates: instanceCertificates,
+        trustedCaCertificates,
+        monitoringLogGroups,
+      });
+      this.existingInstances.node.addDependency(enclaveRole);
+      if (this.monitoring) {
+        this.existingInstances.node.addDependency(this.monitoring);
+      }
+      return;
+    }
+
+    // Steps 2 & 6
+    const enclaveInstance = new EnclaveInstance(this, 'Instance', {
+      instanceProfile: this.instanceProfile,
+      instanceName: instanceConfig.instanceName,
+      keyPairName: instanceConfig.keyPairName,
+      serverType: instanceConfig.serverType,
+      amiType: instanceConfig.amiType,
+      instanceType: instanceConfig.instanceType,
+      certificates: instanceCertificates,
+      trustedCaCertificates,
+      encryptVolume: instanceConfig.encryptVolume,
+      allowSSHPort: instanceConfig.allowSSHPort,
+      vpc: instanceConfig.vpc,
+      networkAccess: instanceConfig.networkAccess,
+      deploymentMode: instanceConfig.deploymentMode,
+      fleet: instanceConfig.fleet,
+      tls: instanceConfig.tls,
+      enclave: instanceConfig.enclave,
+      monitoringLogGroups,
+      hardening: instanceConfig.hardening,
+      image: instanceConfig.image,
+    });
+    if (this.monitoring) {
+      enclaveInstance.node.addDependency(this.monitoring);
+    }
+    this.instance = enclaveInstance.instance;
+    this.autoScalingGroup = enclaveInstance.autoScalingGroup;
+    this.loadBalancer = enclaveInstance.loadBalancer;
+
+    // Route 53 records and health check
+    if (EnclaveDns.getRecordNames(instanceCertificates).length > 0) {
+      this.dns = new EnclaveDns(this, 'Dns', {
+        ...instanceConfig.dns,
+        certificates: instanceCertificates,
+        instance: this.instance,
+        loadBalancer: this.loadBalancer,
+        isPrivate: enclaveInstance.isPrivate,
+        httpsPort: enclaveInstance.httpsPort,
+      });
+    }
+  }
+}
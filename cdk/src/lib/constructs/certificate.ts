@@ -0,0 +1,73 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as acmpca from 'aws-cdk-lib/aws-acmpca';
+import { Construct } from 'constructs';
+
+/*
+  Step 1 - Create the ACM certificate: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#create-cert
+*/
+
+export interface EnclaveCertificateProps {
+  certificateName?: string;
+  subjectAlternativeNames?: string[];
+  // Required props
+  domainName: string;
+  isPrivate: boolean;
+  // Public certificate only
+  hostedZoneId?: string; // If Route53 is the DNS provider
+  validationType?: 'DNS' | 'EMAIL'; // Otherwise
+  // Private certificate only: an existing CA (pcaArn) or one created in the same app
+  pcaArn?: string;
+  certificateAuthority?: acmpca.ICertificateAuthority;
+  // Default: DESTROY
+  removalPolicy?: 'DESTROY' | 'RETAIN';
+}
+
+// Hosted zone from its ID only: record names must be fully qualified (trailing dot) as the zone name is unknown
+export function importHostedZone(scope: Construct, id: string, hostedZoneId: string): route53.IHostedZone {
+  return route53.HostedZone.fromHostedZoneId(scope, id, hostedZoneId);
+}
+
+export class EnclaveCertificate extends Construct {
+  public readonly certificate: acm.ICertificate;
+  public readonly certificateArn: string;
+
+  constructor(scope: Construct, id: string, props: EnclaveCertificateProps) {
+    super(scope, id);
+
+    const certificateName = props.certificateName || 'AcmneCertificate';
+
+    // Provision a public certificate
+    if (!props.isPrivate) {
+      // If route53 is the DNS provider, validation is done automatically
+      if (props.hostedZoneId) {
+        const hostedZone = importHostedZone(this, 'HostedZone', props.hostedZoneId);
+        this.certificate = new acm.Certificate(this, certificateName, {
+          domainName: props.domainName,
+          subjectAlternativeNames: props.subjectAlternativeNames,
+          validation: acm.CertificateValidation.fromDns(hostedZone),
+        });
+      } else {
+        this.certificate = new acm.Certificate(this, certificateName, {
+          domainName: props.domainName,
+          subjectAlternativeNames: props.subjectAlternativeNames,
+          validation: props.validationType === 'DNS' ? acm.CertificateValidation.fromDns() : acm.CertificateValidation.fromEmail(),
+        });
+      }
+    } else {
+      this.certificate = new acm.PrivateCertificate(this, certificateName, {
+        domainName: props.domainName,
+        subjectAlternativeNames: props.subjectAlternativeNames,
+        certificateAuthority: props.certificateAuthority
+          ?? acmpca.CertificateAuthority.fromCertificateAuthorityArn(this, 'CertificateAuthority', props.pcaArn!),
+      });
+    }
+
+    // A retained certificate keeps serving the clients of other instances after the stack is deleted
+    if (props.removalPolicy === 'RETAIN') {
+      this.certificate.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN);
+    }
+    this.certificateArn = this.certificate.certificateArn;
+  }
+}
@@ -0,0 +1,162 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import { createHash } from 'crypto';
+import { Construct } from 'constructs';
+import { DEFAULT_ENCLAVE_RESOURCES } from '../../config/instance-types';
+import { renderUserDataCommands, UserDataSettings } from '../user-data/user-data';
+import { EnclaveInstanceCertificate, EnclaveInstanceProps } from './instance';
+
+/*
+  Step 2 as a Systems Manager Command document, run by the user data at boot and by State Manager associations on each change:
+  https://docs.aws.amazon.com/systems-manager/latest/userguide/documents.html
+  Updates create a new version of the same document, so the name referenced by the user data (and the instances) never changes.
+  The ConfigurationVersion hash of the commands is passed to the associations: a configuration change updates them, which re-runs them.
+  In a standalone template (setup-tool export), the commands of each selectable server type are picked by a condition on the ServerType parameter.
+*/
+
+// Version applied last, a run of the same version is skipped
+export const CONFIGURATION_VERSION_PATH = '/var/lib/acmne/configuration-version';
+
+// Settings of the configuration commands
+export type EnclaveConfigurationProps = Pick<EnclaveInstanceProps,
+  'serverType' | 'amiType' | 'certificates' | 'networkAccess' | 'trustedCaCertificates' | 'tls' | 'enclave' | 'monitoringLogGroups' | 'image'
+  | 'serverTypes' | 'deployTimeValues'>;
+
+export interface EnclaveConfigurationDocumentProps extends EnclaveConfigurationProps {
+  // Default: 30 minutes
+  timeoutSeconds?: number;
+}
+
+export interface EnclaveConfigurationAssociationOptions {
+  // Default: one instance at a time
+  maxConcurrency?: string;
+  // Wait for the association to succeed on the targets before completing the deployment. Default: no wait
+  waitForSuccessTimeoutSeconds?: number;
+}
+
+export class EnclaveConfigurationDocument extends Construct {
+  public readonly document: ssm.CfnDocument;
+  public readonly documentName: string;
+  // Hash of the configuration commands, followed by their deploy-time values
+  public readonly configurationVersion: string;
+  public readonly timeoutSeconds: number;
+
+  constructor(scope: Construct, id: string, props: EnclaveConfigurationDocumentProps) {
+    super(scope, id);
+
+    const settings = EnclaveConfigurationDocument.getUserDataSettings(props);
+    const serverTypes = props.serverTypes || [props.serverType];
+    const commands = serverTypes.map(serverType => renderUserDataCommands({ ...settings, serverType }));
+    const hash = createHash('sha256')
+      .update(JSON.stringify(cdk.Stack.of(this).resolve(commands.length === 1 ? commands[0] : commands)))
+      .digest('hex')
+      .slice(0, 16);
+    // The hash only covers the references of the deploy-time values, such as the ARNs of the certificates created or imported
+    // by another stack: a replaced certificate changes the version, so that the associations write its ARN
+    const certificateArns = props.certificates.map(certificate => certificate.certificateArn).filter(arn => cdk.Token.isUnresolved(arn));
+    const deployTimeValues = [...new Set([...props.deployTimeValues || [], ...certificateArns])];
+    this.configurationVersion = deployTimeValues.length > 0 ? cdk.Fn.join('-', [hash, ...deployTimeValues]) : hash;
+    this.timeoutSeconds = props.timeoutSeconds || 1800;
+
+    this.document = new ssm.CfnDocument(this, 'Document', {
+      documentType: 'Command',
+      documentFormat: 'JSON',
+      updateMethod: 'NewVersion',
+      content: {
+        schemaVersion: '2.2',
+        description: 'Install and configure ACM for Nitro Enclaves and the web server',
+        parameters: {
+          ConfigurationVersion: {
+            type: 'String',
+            description: 'Version of the configuration, a change re-runs the associations',
+            default: this.configurationVersion,
+          },
+        },
+        mainSteps: [{
+          action: 'aws:runShellScript',
+          name: 'ConfigureAcmForNitroEnclaves',
+          inputs: {
+            runCommand: serverTypes.length === 1
+              ? this.getRunCommand(commands[0])
+              : this.selectServerType(props.serverType, serverTypes, commands.map(serverCommands => this.getRunCommand(serverCommands))),
+            timeoutSeconds: `${this.timeoutSeconds}`,
+          },
+        }],
+      },
+    });
+    this.documentName = this.document.ref;
+  }
+
+  private getRunCommand(serverCommands: string[]): string[] {
+    return [
+      '# One run at a time (user data and associations)',
+      'exec 9> /var/lock/acmne-configuration.lock',
+      'flock 9',
+      `if [ "$(cat ${CONFIGURATION_VERSION_PATH} 2> /dev/null)" = "${this.configurationVersion}" ]; then`,
+      `  echo "Configuration ${this.configurationVersion} is already applied"`,
+      '  exit 0',
+      'fi',
+      '',
+      ...serverCommands,
+      '',
+      '# The run fails unless the ACM service is running',
+      'if ! sudo systemctl is-active --quiet nitro-enclaves-acm.service; then',
+      '  echo "nitro-enclaves-acm is not running (is Nitro Enclaves enabled on this instance?)" >&2',
+      '  exit 1',
+      'fi',
+      'sudo mkdir -p /var/lib/acmne',
+      `echo ${this.configurationVersion} | sudo tee ${CONFIGURATION_VERSION_PATH} > /dev/null`,
+    ];
+  }
+
+  // Commands of the server type given by the ServerType parameter, through nested conditions (the last server type being the fallback)
+  private selectServerType(serverType: string, serverTypes: string[], runCommands: string[][]): cdk.IResolvable {
+    let selected: string[] | cdk.IResolvable = runCommands[runCommands.length - 1];
+    for (let index = serverTypes.length - 2; index >= 0; index--) {
+      const condition = new cdk.CfnCondition(this, `ServerType${serverTypes[index]}`, {
+        expression: cdk.Fn.conditionEquals(serverType, serverTypes[index]),
+      });
+      selected = cdk.Fn.conditionIf(condition.logicalId, runCommands[index], selected);
+    }
+    return selected as cdk.IResolvable;
+  }
+
+  // State Manager association running the latest version of the document on the targets, stopping at the first failure
+  public associate(id: string, targets: ssm.CfnAssociation.TargetProperty[], options: EnclaveConfigurationAssociationOptions = {}): ssm.CfnAssociation {
+    return new ssm.CfnAssociation(this, id, {
+      name: this.documentName,
+      documentVersion: '$LATEST',
+      targets: targets,
+      parameters: { ConfigurationVersion: [this.configurationVersion] },
+      maxConcurrency: options.maxConcurrency || '1',
+      maxErrors: '0',
+      waitForSuccessTimeoutSeconds: options.waitForSuccessTimeoutSeconds,
+    });
+  }
+
+  public static getUserDataSettings(props: EnclaveConfigurationProps): UserDataSettings {
+    return {
+      amiType: props.amiType,
+      serverType: props.serverType,
+      certificates: props.certificates,
+      httpsPort: props.networkAccess?.httpsPort || 443,
+      tls: props.tls,
+      enclave: props.enclave ? {
+        cpuCount: props.enclave.cpuCount ?? DEFAULT_ENCLAVE_RESOURCES.cpuCount,
+        memoryMiB: props.enclave.memoryMiB ?? DEFAULT_ENCLAVE_RESOURCES.memoryMiB,
+      } : undefined,
+      trustedCaCertificates: props.trustedCaCertificates,
+      localDomainNames: EnclaveConfigurationDocument.getPrivateDomainNames(props.certificates),
+      monitoring: props.monitoringLogGroups ? { logGroups: props.monitoringLogGroups } : undefined,
+      preinstalled: props.image?.preinstalled,
+    };
+  }
+
+  // Non wildcard names of the private certificates, resolved locally to test the web server from the instance
+  private static getPrivateDomainNames(certificates: EnclaveInstanceCertificate[]): string[] {
+    return certificates
+      .filter(certificate => certificate.isPrivate)
+      .flatMap(certificate => [certificate.domainName, ...(certificate.subjectAlternativeNames || [])])
+      .filter(name => !name.startsWith('*'));
+  }
+}
@@ -0,0 +1,120 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { DnsConfig } from '../../config/types';
+import { importHostedZone } from './certificate';
+import { EnclaveInstanceCertificate } from './instance';
+
+/*
+  Points the certificate domains (having a hostedZoneId) at the instance or the load balancer, and checks that
+  the enclave-backed web server completes the TLS handshake for the primary domain (SNI).
+  Route 53 health check metrics are only published in us-east-1, the alarm is not created in other regions.
+*/
+
+export interface EnclaveDnsProps extends DnsConfig {
+  certificates: EnclaveInstanceCertificate[];
+  // Single mode
+  instance?: ec2.Instance;
+  // Fleet mode
+  loadBalancer?: elbv2.INetworkLoadBalancer;
+  isPrivate: boolean;
+  // HTTPS port of the instance (the load balancer always listens on 443)
+  httpsPort: number;
+}
+
+export class EnclaveDns extends Construct {
+  public readonly elasticIp?: ec2.CfnEIP;
+  public readonly records: route53.ARecord[] = [];
+  public readonly healthCheck?: route53.CfnHealthCheck;
+  public readonly healthCheckAlarm?: cloudwatch.Alarm;
+
+  constructor(scope: Construct, id: string, props: EnclaveDnsProps) {
+    super(scope, id);
+
+    if (props.instance && !props.isPrivate && (props.elasticIp ?? true)) {
+      this.elasticIp = new ec2.CfnEIP(this, 'ElasticIp', {
+        domain: 'vpc',
+        instanceId: props.instance.instanceId,
+      });
+    }
+
+    if (props.createRecords ?? true) {
+      const target = this.getRecordTarget(props);
+      const hostedZones: { [hostedZoneId: string]: route53.IHostedZone } = {};
+      for (const { domainName, hostedZoneId } of EnclaveDns.getRecordNames(props.certificates)) {
+        hostedZones[hostedZoneId] ??= importHostedZone(this, `HostedZone-${hostedZoneId}`, hostedZoneId);
+        // A deploy-time domain name (standalone template parameter) cannot be part of a construct ID
+        this.records.push(new route53.ARecord(this, `Record-${cdk.Token.isUnresolved(domainName) ? 'DomainName' : domainName}`, {
+          zone: hostedZones[hostedZoneId],
+          recordName: `${domainName}.`,
+          target: target,
+          ttl: props.loadBalancer ? undefined : cdk.Duration.minutes(5),
+        }));
+      }
+    }
+
+    // Route 53 health checkers can only reach public endpoints
+    const healthCheckDomainName = EnclaveDns.getRecordNames(props.certificates)[0]?.domainName;
+    if ((props.healthCheck ?? true) && !props.isPrivate && healthCheckDomainName) {
+      this.healthCheck = new route53.CfnHealthCheck(this, 'HttpsHealthCheck', {
+        healthCheckConfig: {
+          type: 'HTTPS',
+          fullyQualifiedDomainName: healthCheckDomainName,
+          ipAddress: props.instance ? (this.elasticIp?.attrPublicIp ?? props.instance.instancePublicIp) : undefined,
+          port: props.loadBalancer ? 443 : props.httpsPort,
+          resourcePath: props.healthCheckPath || '/',
+          enableSni: true,
+          requestInterval: 30,
+          failureThreshold: 3,
+        },
+        healthCheckTags: [{ key: 'Name', value: healthCheckDomainName }],
+      });
+
+      if (cdk.Stack.of(this).region === 'us-east-1') {
+        this.healthCheckAlarm = new cloudwatch.Alarm(this, 'HttpsHealthCheckAlarm', {
+          alarmDescription: `${healthCheckDomainName} does not answer over HTTPS`,
+          metric: new cloudwatch.Metric({
+            namespace: 'AWS/Route53',
+            metricName: 'HealthCheckStatus',
+            dimensionsMap: { HealthCheckId: this.healthCheck.attrHealthCheckId },
+            statistic: cloudwatch.Stats.MINIMUM,
+            period: cdk.Duration.minutes(1),
+          }),
+          threshold: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+          evaluationPeriods: 3,
+          treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+        });
+        if (props.alarmTopicArn) {
+          this.healthCheckAlarm.addAlarmAction(new cloudwatchActions.SnsAction(sns.Topic.fromTopicArn(this, 'AlarmTopic', props.alarmTopicArn)));
+        }
+      }
+    }
+  }
+
+  // Non wildcard domain names of the certificates with a hostedZoneId, primary certificate first
+  static getRecordNames(certificates: EnclaveInstanceCertificate[]): { domainName: string; hostedZoneId: string }[] {
+    const names = certificates
+      .filter(certificate => certificate.hostedZoneId)
+      .flatMap(certificate => [certificate.domainName, ...(certificate.subjectAlternativeNames || [])]
+        .map(domainName => ({ domainName, hostedZoneId: certificate.hostedZoneId! })))
+      .filter(({ domainName }) => !domainName.startsWith('*'));
+    return names.filter((name, index) => names.findIndex(other => other.domainName === name.domainName) === index);
+  }
+
+  private getRecordTarget(props: EnclaveDnsProps): route53.RecordTarget {
+    if (props.loadBalancer) {
+      return route53.RecordTarget.fromAlias(new route53Targets.LoadBalancerTarget(props.loadBalancer));
+    }
+    if (this.elasticIp) {
+      return route53.RecordTarget.fromIpAddresses(this.elasticIp.attrPublicIp);
+    }
+    return route53.RecordTarget.fromIpAddresses(props.isPrivate ? props.instance!.instancePrivateIp : props.instance!.instancePublicIp);
+  }
+}
@@ -0,0 +1,34 @@
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import { Construct } from 'constructs';
+import { EnclaveConfigurationDocument, EnclaveConfigurationDocumentProps } from './configuration-document';
+
+/*
+  Step 2 on instances that already run (brownfield): the configuration document of the launched instances is associated with them:
+  https://docs.aws.amazon.com/systems-manager/latest/userguide/state-manager-associations.html
+  Step 6 is the responsibility of the owner of the instances: the imported role must already be attached to them,
+  and allow Systems Manager (AmazonSSMManagedInstanceCore). Nitro Enclaves can only be enabled when an instance is launched.
+*/
+
+export interface EnclaveExistingInstancesProps extends EnclaveConfigurationDocumentProps {
+  instanceIds: string[];
+}
+
+export class EnclaveExistingInstances extends Construct {
+  public readonly configuration: EnclaveConfigurationDocument;
+  public readonly document: ssm.CfnDocument;
+  public readonly association: ssm.CfnAssociation;
+  public readonly httpsPort: number;
+
+  constructor(scope: Construct, id: string, props: EnclaveExistingInstancesProps) {
+    super(scope, id);
+
+    this.httpsPort = props.networkAccess?.httpsPort || 443;
+    this.configuration = new EnclaveConfigurationDocument(this, 'Configuration', props);
+    this.document = this.configuration.document;
+
+    // One instance at a time, stopping at the first failure; the stack waits for the result
+    this.association = this.configuration.associate('Association', [{ key: 'InstanceIds', values: props.instanceIds }], {
+      waitForSuccessTimeoutSeconds: Math.min(this.configuration.timeoutSeconds * props.instanceIds.length, 3600),
+    });
+  }
+}
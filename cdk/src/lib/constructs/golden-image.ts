@@ -0,0 +1,137 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as imagebuilder from 'aws-cdk-lib/aws-imagebuilder';
+import { createHash } from 'crypto';
+import { Construct } from 'constructs';
+import { stringify } from 'yaml';
+import { ImageBuilderConfig } from '../../config/types';
+import { EnclaveResources } from '../user-data/acm-config';
+import { renderImageBuildCommands } from '../user-data/user-data';
+
+/*
+  Golden image of the instances, built by EC2 Image Builder: https://docs.aws.amazon.com/imagebuilder/latest/userguide/what-is-image-builder.html
+  The latest Amazon Linux image is updated and gets the web server, ACM for Nitro Enclaves and the allocator configuration.
+  Each image (built with the stack or by the pipeline) is written to an SSM parameter, read by the instances when they are deployed.
+  Image Builder resources are immutable: the names include a hash of the build commands, so a change builds a new image.
+*/
+
+export interface EnclaveGoldenImageProps extends Omit<ImageBuilderConfig, 'stackName' | 'enabled' | 'buildInstanceType'> {
+  amiType: 'AL2' | 'AL2023';
+  serverType: string;
+  // The architecture of the image follows the instance type
+  buildInstanceType: string;
+  enclave?: EnclaveResources;
+  // Prefix of the Image Builder resource names, unique in the account and region
+  namePrefix: string;
+}
+
+// Image Builder managed parent images
+const PARENT_IMAGE_NAMES = {
+  AL2: { x86: 'amazon-linux-2-x86', arm64: 'amazon-linux-2-arm64' },
+  AL2023: { x86: 'amazon-linux-2023-x86', arm64: 'amazon-linux-2023-arm64' },
+};
+
+export class EnclaveGoldenImage extends Construct {
+  public readonly image: imagebuilder.CfnImage;
+  // AMI of the image built with the stack (the pipeline builds write theirs to the parameter only)
+  public readonly imageId: string;
+  public readonly parameterName: string;
+  public readonly pipeline: imagebuilder.CfnImagePipeline;
+  public readonly role: iam.Role;
+
+  constructor(scope: Construct, id: string, props: EnclaveGoldenImageProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    const version = props.recipeVersion || '1.0.0';
+    this.parameterName = props.parameterName || EnclaveGoldenImage.getDefaultParameterName(props.namePrefix);
+    const architecture = new ec2.InstanceType(props.buildInstanceType).architecture === ec2.InstanceArchitecture.ARM_64 ? 'arm64' : 'x86';
+    const parentImage = stack.formatArn({
+      service: 'imagebuilder',
+      account: 'aws',
+      resource: 'image',
+      resourceName: `${PARENT_IMAGE_NAMES[props.amiType][architecture]}/x.x.x`,
+    });
+
+    const commands = renderImageBuildCommands({ amiType: props.amiType, serverType: props.serverType, enclave: props.enclave });
+    const buildHash = createHash('sha256').update(JSON.stringify([commands, parentImage])).digest('hex').slice(0, 8);
+    const component = new imagebuilder.CfnComponent(this, 'InstallComponent', {
+      name: `${props.namePrefix}-install-${buildHash}`,
+      description: 'Install the web server and ACM for Nitro Enclaves',
+      platform: 'Linux',
+      version,
+      data: stringify({
+        name: 'InstallAcmForNitroEnclaves',
+        schemaVersion: 1.0,
+        phases: [{
+          name: 'build',
+          steps: [{ name: 'Install', action: 'ExecuteBash', inputs: { commands } }],
+        }],
+      }),
+    });
+
+    const recipe = new imagebuilder.CfnImageRecipe(this, 'Recipe', {
+      name: `${props.namePrefix}-${buildHash}`,
+      version,
+      parentImage,
+      components: [
+        { componentArn: stack.formatArn({ service: 'imagebuilder', account: 'aws', resource: 'component', resourceName: 'update-linux/x.x.x' }) },
+        { componentArn: component.attrArn },
+      ],
+    });
+
+    // Build instance, with Systems Manager access for the Image Builder agent
+    this.role = new iam.Role(this, 'BuildRole', {
+      assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('EC2InstanceProfileForImageBuilder'),
+        iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'),
+      ],
+    });
+    const instanceProfile = new iam.InstanceProfile(this, 'BuildInstanceProfile', { role: this.role });
+    const infrastructure = new imagebuilder.CfnInfrastructureConfiguration(this, 'Infrastructure', {
+      name: `${props.namePrefix}-infrastructure`,
+      instanceProfileName: instanceProfile.instanceProfileName,
+      instanceTypes: [props.buildInstanceType],
+      subnetId: props.subnetId,
+      securityGroupIds: props.securityGroupIds,
+      terminateInstanceOnFailure: true,
+      instanceMetadataOptions: { httpTokens: 'required', httpPutResponseHopLimit: 1 },
+    });
+
+    const distribution = new imagebuilder.CfnDistributionConfiguration(this, 'Distribution', {
+      name: `${props.namePrefix}-distribution`,
+      distributions: [{
+        region: stack.region,
+        amiDistributionConfiguration: { name: `${props.namePrefix}-{{ imagebuilder:buildDate }}` },
+      }],
+    });
+    // Not modeled by this CDK version: https://docs.aws.amazon.com/imagebuilder/latest/userguide/integ-ssm-parameters.html
+    distribution.addPropertyOverride('Distributions.0.SsmParameterConfigurations', [{ ParameterName: this.parameterName, DataType: 'aws:ec2:image' }]);
+
+    const buildProps = {
+      imageRecipeArn: recipe.attrArn,
+      infrastructureConfigurationArn: infrastructure.attrArn,
+      distributionConfigurationArn: distribution.attrArn,
+      enhancedImageMetadataEnabled: true,
+    };
+    // Built when the stack is deployed, and again when the recipe changes
+    this.image = new imagebuilder.CfnImage(this, 'Image', buildProps);
+    this.imageId = this.image.attrImageId;
+
+    // Rebuilds (e.g. for the operating system updates), on the schedule or on demand
+    this.pipeline = new imagebuilder.CfnImagePipeline(this, 'Pipeline', {
+      ...buildProps,
+      name: `${props.namePrefix}-pipeline`,
+      schedule: props.scheduleExpression ? {
+        scheduleExpression: props.scheduleExpression,
+        pipelineExecutionStartCondition: 'EXPRESSION_MATCH_ONLY',
+      } : undefined,
+    });
+  }
+
+  public static getDefaultParameterName(namePrefix: string): string {
+    return `/imagebuilder/acmne/${namePrefix}/image-id`;
+  }
+}
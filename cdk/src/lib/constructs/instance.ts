@@ -0,0 +1,437 @@
+import * as cdk from 'aws-cdk-lib';
+import * as autoscaling from 'aws-cdk-lib/aws-autoscaling';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import { Construct } from 'constructs';
+import {
+  EnclaveConfig,
+  FleetConfig,
+  HardeningConfig,
+  ImageConfig,
+  IngressSources,
+  NetworkAccessConfig,
+  TlsConfig,
+  VolumeKmsConfig,
+  VpcConfig,
+} from '../../config/types';
+import { MonitoringLogGroups } from '../user-data/cloudwatch-agent-config';
+import { renderBootstrapCommands } from '../user-data/user-data';
+import { EnclaveConfigurationDocument } from './configuration-document';
+
+/*
+  Step 2 - Prepare the enclave-enabled parent instance: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#prepare-instance
+  Step 6 - Attach the role to the instance: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#instance-role
+  The instances are configured by a Systems Manager document, run from the user data and re-run by an association on each change:
+  changing the certificates or the web server configuration neither replaces nor restarts them.
+*/
+
+export interface EnclaveInstanceCertificate {
+  certificateArn: string;
+  domainName: string;
+  subjectAlternativeNames?: string[];
+  isPrivate: boolean;
+  // Hosted zone of the domain names, for the Route 53 records
+  hostedZoneId?: string;
+}
+
+export interface EnclaveInstanceProps {
+  instanceName?: string;
+  instanceProfile: iam.IInstanceProfile;
+  keyPairName: string;
+  // Registered server type (NGINX, APACHE, TOMCAT, HAPROXY or a custom one)
+  serverType: string;
+  amiType: 'AL2' | 'AL2023';
+  instanceType: string;
+  // The first certificate is configured in the default server block / VirtualHost, the others get their own
+  certificates: EnclaveInstanceCertificate[];
+  encryptVolume: boolean;
+  allowSSHPort: boolean;
+  vpc?: VpcConfig;
+  // Default: HTTP/HTTPS from 0.0.0.0/0, SSH closed unless sshSources are given
+  networkAccess?: NetworkAccessConfig;
+  // single: one instance, fleet: Auto Scaling group behind a TCP passthrough Network Load Balancer. Default: single
+  deploymentMode?: 'single' | 'fleet';
+  fleet?: FleetConfig;
+  // PEM encoded CA certificates added to the trust store of the instance (e.g. the root of a created private CA)
+  trustedCaCertificates?: string[];
+  // Default: TLSv1.2 only
+  tls?: TlsConfig;
+  // Default: 2 vCPUs and 512 MiB
+  enclave?: EnclaveConfig;
+  // Log groups of the MonitoringStack, shipped to by the CloudWatch agent. Default: no agent
+  monitoringLogGroups?: MonitoringLogGroups;
+  // IMDS, root volume, monitoring and termination protection settings (the tags are applied to the stacks). Default: IMDSv2 required
+  hardening?: HardeningConfig;
+  // Custom or golden AMI. Default: the latest Amazon Linux image of amiType
+  image?: ImageConfig;
+  // Standalone template (setup-tool export): server types selectable by the ServerType parameter (serverType being its value)
+  serverTypes?: string[];
+  // Standalone template: architecture of the InstanceType parameter (instanceType being its value). Default: that of instanceType
+  instanceArchitecture?: ec2.InstanceArchitecture;
+  // Standalone template: parameters and imports changing the configuration commands, added to the ConfigurationVersion
+  // (along with the certificate ARNs resolved at deployment, in every mode)
+  deployTimeValues?: string[];
+}
+
+export class EnclaveInstance extends Construct {
+  // Single mode only
+  public readonly instance?: ec2.Instance;
+  // Fleet mode only
+  public readonly launchTemplate?: ec2.LaunchTemplate;
+  public readonly autoScalingGroup?: autoscaling.AutoScalingGroup;
+  public readonly loadBalancer?: elbv2.NetworkLoadBalancer;
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly vpc: ec2.IVpc;
+  public readonly subnetSelection: ec2.SubnetSelection;
+  // True when the instance is launched in private subnets (no public IP)
+  public readonly isPrivate: boolean;
+  public readonly httpsPort: number;
+  public readonly configuration: EnclaveConfigurationDocument;
+  public readonly configurationAssociation: ssm.CfnAssociation;
+  // Customer managed key of the root volumes, when hardening.volumeKms is set
+  public readonly volumeKey?: kms.IKey;
+
+  constructor(scope: Construct, id: string, props: EnclaveInstanceProps) {
+    super(scope, id);
+
+    const instanceName = props.instanceName || 'AcmneInstance';
+
+    // Step 2: Prepare the enclave-enabled parent instance
+    const isFleet = props.deploymentMode === 'fleet';
+    this.isPrivate = props.vpc?.subnetType === 'PRIVATE';
+    this.vpc = this.getVpc(props.vpc, instanceName);
+    this.subnetSelection = this.getSubnetSelection(props.vpc);
+    if (props.vpc?.createVpcEndpoints ?? this.isPrivate) {
+      this.addVpcEndpoints(isFleet, !!props.monitoringLogGroups);
+    }
+
+    this.securityGroup = new ec2.SecurityGroup(this, `InstanceSecurityGroup-${instanceName}`, {
+      vpc: this.vpc,
+      description: 'Allow SSH (TCP port 22) and HTTP/HTTPS (TCP ports 80/443) in',
+      allowAllOutbound: true
+    });
+
+    const networkAccess = props.networkAccess || {};
+    const httpsPort = networkAccess.httpsPort || 443;
+    this.httpsPort = httpsPort;
+    const httpsPeers = this.getPeers(networkAccess.httpsSources, 'Https') ?? [ec2.Peer.anyIpv4()];
+    this.addIngressRules(httpsPeers, httpsPort, 'Allow HTTPS Access');
+    if (networkAccess.allowHttp ?? true) {
+      this.addIngressRules(this.getPeers(networkAccess.httpSources, 'Http') ?? httpsPeers, 80, 'Allow HTTP Access');
+    }
+    if (props.allowSSHPort) {
+      const sshPeers = this.getPeers(networkAccess.sshSources, 'Ssh');
+      if (!sshPeers) {
+        throw new Error('allowSSHPort requires at least one source in networkAccess.sshSources');
+      }
+      this.addIngressRules(sshPeers, 22, 'Allow SSH Access');
+    }
+
+    // Configuration document (based on AMI type and server type), run by the user data (startup commands)
+    this.configuration = new EnclaveConfigurationDocument(this, 'Configuration', props);
+    const configurationPolicy = this.createConfigurationPolicy(props.instanceProfile);
+    const userData = ec2.UserData.forLinux();
+    userData.addCommands(...renderBootstrapCommands({
+      amiType: props.amiType,
+      region: cdk.Stack.of(this).region,
+      documentName: this.configuration.documentName,
+      preinstalled: props.image?.preinstalled,
+    }));
+
+    // Configure instance type
+    const instanceType = new ec2.InstanceType(props.instanceType);
+    const isArm = (props.instanceArchitecture ?? instanceType.architecture) === ec2.InstanceArchitecture.ARM_64;
+
+    // Configure AMI
+    const machineImage = this.getMachineImage(props.image, props.amiType, isArm);
+
+    const keyPair = ec2.KeyPair.fromKeyPairName(this, `KeyPair-${instanceName}`, props.keyPairName);
+    const hardening = props.hardening || {};
+    const metadataOptions = {
+      httpEndpoint: true,
+      httpTokens: (hardening.requireImdsv2 ?? true) ? ec2.LaunchTemplateHttpTokens.REQUIRED : ec2.LaunchTemplateHttpTokens.OPTIONAL,
+      httpPutResponseHopLimit: hardening.imdsHopLimit ?? 1,
+    };
+    this.volumeKey = this.getVolumeKey(hardening.volumeKms, isFleet, instanceName);
+    const volume = hardening.volume || {};
+    const blockDevices: ec2.BlockDevice[] = [
+      {
+        deviceName: '/dev/xvda',
+        volume: ec2.BlockDeviceVolume.ebs(
+          volume.sizeGiB || 8, // Default volume size
+          {
+            encrypted: props.encryptVolume || !!this.volumeKey,
+            kmsKey: this.volumeKey,
+            volumeType: volume.type as ec2.EbsDeviceVolumeType | undefined,
+            iops: volume.iops,
+          }
+        ),
+      },
+    ];
+    const additionalSecurityGroups = (networkAccess.additionalSecurityGroupIds || []).map((securityGroupId, index) =>
+      ec2.SecurityGroup.fromSecurityGroupId(this, `AdditionalSecurityGroup${index + 1}`, securityGroupId));
+
+    if (isFleet) {
+      // Step 2 & Step 6 - Launch the enclave-enabled instances with the attached role/instance profile
+      this.launchTemplate = new ec2.LaunchTemplate(this, `LaunchTemplate-${instanceName}`, {
+        instanceType: instanceType,
+        machineImage: machineImage,
+        securityGroup: this.securityGroup,
+        keyPair: keyPair,
+        instanceProfile: props.instanceProfile,
+        nitroEnclaveEnabled: true,
+        blockDevices: blockDevices,
+        userData: userData,
+        ...metadataOptions,
+        detailedMonitoring: hardening.detailedMonitoring,
+      });
+      additionalSecurityGroups.forEach(securityGroup => this.launchTemplate!.addSecurityGroup(securityGroup));
+      this.autoScalingGroup = this.createAutoScalingGroup(props.fleet || {}, instanceName, this.launchTemplate, userData);
+      this.autoScalingGroup.node.addDependency(configurationPolicy);
+      this.loadBalancer = this.createLoadBalancer(instanceName, this.autoScalingGroup, httpsPort);
+
+      // Reconfigures the instances one at a time, including those launched later
+      this.configurationAssociation = this.configuration.associate('Association', [{
+        key: 'tag:aws:autoscaling:groupName',
+        values: [this.autoScalingGroup.autoScalingGroupName],
+      }], { waitForSuccessTimeoutSeconds: 3600 });
+      return;
+    }
+
+    // Step 2 & Step 6 - Create the enclave-enabled instance with the attached role/instance profile
+    this.instance = new ec2.Instance(this, instanceName, {
+      instanceType: instanceType,
+      machineImage: machineImage,
+      vpc: this.vpc,
+      vpcSubnets: this.subnetSelection,
+      securityGroup: this.securityGroup,
+      keyPair: keyPair,
+      instanceProfile: props.instanceProfile,
+      enclaveEnabled: true,
+      blockDevices: blockDevices,
+      userData: userData,
+      propagateTagsToVolumeOnCreation: true,
+      detailedMonitoring: hardening.detailedMonitoring,
+      disableApiTermination: hardening.terminationProtection,
+    });
+    additionalSecurityGroups.forEach(securityGroup => this.instance!.addSecurityGroup(securityGroup));
+
+    // ec2.Instance can only require IMDSv2: the metadata options come from a launch template of the instance
+    // (without tag specifications, the tags of the instance and its volume apply)
+    const metadataLaunchTemplate = new ec2.CfnLaunchTemplate(this, `MetadataOptions-${instanceName}`, {
+      launchTemplateData: {
+        metadataOptions: {
+          httpEndpoint: 'enabled',
+          httpTokens: metadataOptions.httpTokens,
+          httpPutResponseHopLimit: metadataOptions.httpPutResponseHopLimit,
+        },
+      },
+    });
+    (this.instance.node.defaultChild as ec2.CfnInstance).launchTemplate = {
+      launchTemplateId: metadataLaunchTemplate.ref,
+      version: metadataLaunchTemplate.attrLatestVersionNumber,
+    };
+    this.instance.node.addDependency(configurationPolicy);
+
+    this.configurationAssociation = this.configuration.associate('Association', [{
+      key: 'InstanceIds',
+      values: [this.instance.instanceId],
+    }], { waitForSuccessTimeoutSeconds: this.configuration.timeoutSeconds });
+  }
+
+  // Custom AMI (by ID or SSM parameter), otherwise the latest Amazon Linux image
+  private getMachineImage(image: ImageConfig | undefined, amiType: EnclaveInstanceProps['amiType'], isArm: boolean): ec2.IMachineImage {
+    if (image?.amiId) {
+      return ec2.MachineImage.genericLinux({ [cdk.Stack.of(this).region]: image.amiId });
+    }
+    if (image?.ssmParameterName) {
+      return ec2.MachineImage.fromSsmParameter(image.ssmParameterName);
+    }
+    return new ec2.AmazonLinuxImage({
+      generation: amiType === 'AL2'
+        ? ec2.AmazonLinuxGeneration.AMAZON_LINUX_2
+        : ec2.AmazonLinuxGeneration.AMAZON_LINUX_2023,
+      cpuType: isArm
+        ? ec2.AmazonLinuxCpuType.ARM_64
+        : ec2.AmazonLinuxCpuType.X86_64
+    });
+  }
+
+  // Customer managed key of the root volumes, also used by Auto Scaling (service-linked role) to launch the fleet instances
+  private getVolumeKey(volumeKms: VolumeKmsConfig | undefined, isFleet: boolean, instanceName: string): kms.IKey | undefined {
+    if (!volumeKms) {
+      return undefined;
+    }
+    if (volumeKms.mode === 'existing') {
+      return kms.Key.fromKeyArn(this, `VolumeKey-${instanceName}`, volumeKms.keyArn!);
+    }
+    const key = new kms.Key(this, `VolumeKey-${instanceName}`, {
+      description: 'Encryption of the root volumes of the ACM for Nitro Enclaves instances',
+      enableKeyRotation: true,
+    });
+    if (isFleet) {
+      const autoScalingRole = new iam.ArnPrincipal(cdk.Stack.of(this).formatArn({
+        service: 'iam',
+        region: '',
+        resource: 'role',
+        resourceName: 'aws-service-role/autoscaling.amazonaws.com/AWSServiceRoleForAutoScaling',
+      }));
+      key.grant(autoScalingRole, 'kms:Encrypt', 'kms:Decrypt', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:DescribeKey');
+      key.addToResourcePolicy(new iam.PolicyStatement({
+        principals: [autoScalingRole],
+        actions: ['kms:CreateGrant'],
+        resources: ['*'],
+        conditions: { Bool: { 'kms:GrantIsForAWSResource': true } },
+      }));
+    }
+    return key;
+  }
+
+  // Read access of the instance role to the configuration document, granted before the instances boot
+  private createConfigurationPolicy(instanceProfile: iam.IInstanceProfile): iam.Policy {
+    if (!instanceProfile.role) {
+      throw new Error('The instance profile must be created with its role, which reads the configuration document');
+    }
+    return new iam.Policy(this, 'ConfigurationPolicy', {
+      roles: [instanceProfile.role],
+      statements: [new iam.PolicyStatement({
+        actions: ['ssm:GetDocument'],
+        resources: [cdk.Stack.of(this).formatArn({ service: 'ssm', resource: 'document', resourceName: this.configuration.documentName })],
+      })],
+    });
+  }
+
+  // Multi-AZ Auto Scaling group, replacing the instances one batch at a time when the launch template changes
+  private createAutoScalingGroup(fleet: FleetConfig, instanceName: string, launchTemplate: ec2.LaunchTemplate, userData: ec2.UserData): autoscaling.AutoScalingGroup {
+    const minCapacity = fleet.minCapacity ?? 2;
+    const signalTimeout = cdk.Duration.minutes(fleet.signalTimeoutMinutes || 15);
+
+    const autoScalingGroup = new autoscaling.AutoScalingGroup(this, `AutoScalingGroup-${instanceName}`, {
+      vpc: this.vpc,
+      vpcSubnets: this.subnetSelection,
+      launchTemplate: launchTemplate,
+      minCapacity: minCapacity,
+      maxCapacity: fleet.maxCapacity ?? Math.max(4, minCapacity),
+      // Unset by default: a deployment keeps the current size of the group (e.g. after manual scaling)
+      desiredCapacity: fleet.desiredCapacity,
+      healthCheck: autoscaling.HealthCheck.elb({ grace: signalTimeout }),
+      signals: autoscaling.Signals.waitForMinCapacity({ timeout: signalTimeout }),
+      updatePolicy: autoscaling.UpdatePolicy.rollingUpdate({
+        maxBatchSize: fleet.maxBatchSize || 1,
+        minInstancesInService: fleet.minInstancesInService ?? minCapacity,
+      }),
+    });
+
+    // A new instance only counts as in service once ACM for Nitro Enclaves is running
+    const stack = cdk.Stack.of(this);
+    const logicalId = stack.getLogicalId(autoScalingGroup.node.defaultChild as cdk.CfnElement);
+    userData.addCommands(
+      '# Signal the Auto Scaling group that the instance is configured',
+      'command -v /opt/aws/bin/cfn-signal > /dev/null || sudo yum install -y aws-cfn-bootstrap',
+      `sudo systemctl is-active --quiet nitro-enclaves-acm.service; /opt/aws/bin/cfn-signal -e $? --stack ${stack.stackName} --resource ${logicalId} --region ${stack.region}`,
+    );
+    return autoScalingGroup;
+  }
+
+  // TCP passthrough on 443: TLS is terminated by the instances with the enclave-held keys
+  private createLoadBalancer(instanceName: string, autoScalingGroup: autoscaling.AutoScalingGroup, httpsPort: number): elbv2.NetworkLoadBalancer {
+    const loadBalancer = new elbv2.NetworkLoadBalancer(this, `LoadBalancer-${instanceName}`, {
+      vpc: this.vpc,
+      vpcSubnets: { ...this.subnetSelection, onePerAz: true },
+      internetFacing: !this.isPrivate,
+      crossZoneEnabled: true,
+    });
+    loadBalancer.addListener('HttpsListener', { port: 443, protocol: elbv2.Protocol.TCP }).addTargets('HttpsTargets', {
+      port: httpsPort,
+      protocol: elbv2.Protocol.TCP,
+      targets: [autoScalingGroup],
+      deregistrationDelay: cdk.Duration.seconds(30),
+      healthCheck: {
+        protocol: elbv2.Protocol.TCP,
+        port: `${httpsPort}`,
+        interval: cdk.Duration.seconds(10),
+        healthyThresholdCount: 3,
+        unhealthyThresholdCount: 3,
+      },
+    });
+
+    // Health checks come from the load balancer nodes, client traffic keeps its source IP
+    this.securityGroup.addIngressRule(ec2.Peer.ipv4(this.vpc.vpcCidrBlock), ec2.Port.tcp(httpsPort), 'Allow Load Balancer Health Checks');
+    return loadBalancer;
+  }
+
+  // Peers of the given sources, undefined if there are none
+  private getPeers(sources: IngressSources | undefined, idPrefix: string): ec2.IPeer[] | undefined {
+    const peers = [
+      ...(sources?.cidrs || []).map(cidr => cidr.includes(':') ? ec2.Peer.ipv6(cidr) : ec2.Peer.ipv4(cidr)),
+      ...(sources?.prefixListIds || []).map(prefixListId => ec2.Peer.prefixList(prefixListId)),
+      ...(sources?.securityGroupIds || []).map((securityGroupId, index) =>
+        ec2.SecurityGroup.fromSecurityGroupId(this, `${idPrefix}SourceSecurityGroup${index + 1}`, securityGroupId)),
+    ];
+    return peers.length > 0 ? peers : undefined;
+  }
+
+  private addIngressRules(peers: ec2.IPeer[], port: number, description: string): void {
+    peers.forEach(peer => this.securityGroup.addIngressRule(peer, ec2.Port.tcp(port), description));
+  }
+
+  // Default VPC, existing VPC or dedicated VPC (public and isolated subnets, no NAT gateway)
+  private getVpc(vpcConfig: VpcConfig | undefined, instanceName: string): ec2.IVpc {
+    switch (vpcConfig?.mode) {
+      case 'existing':
+        return ec2.Vpc.fromLookup(this, `Vpc-${instanceName}`, { vpcId: vpcConfig.vpcId });
+      case 'create':
+        return new ec2.Vpc(this, `Vpc-${instanceName}`, {
+          ipAddresses: ec2.IpAddresses.cidr(vpcConfig.cidr || '10.0.0.0/16'),
+          maxAzs: vpcConfig.maxAzs || 2,
+          natGateways: 0,
+          subnetConfiguration: [
+            { name: 'Public', subnetType: ec2.SubnetType.PUBLIC },
+            { name: 'Private', subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
+          ],
+        });
+      default:
+        return ec2.Vpc.fromLookup(this, `DefaultVPC-${instanceName}`, { isDefault: true });
+    }
+  }
+
+  private getSubnetSelection(vpcConfig: VpcConfig | undefined): ec2.SubnetSelection {
+    if (vpcConfig?.subnetIds?.length) {
+      return { subnetFilters: [ec2.SubnetFilter.byIds(vpcConfig.subnetIds)] };
+    }
+    if (!this.isPrivate) {
+      return { subnetType: ec2.SubnetType.PUBLIC };
+    }
+    // Prefer subnets with egress when the VPC has some
+    return { subnetType: this.vpc.privateSubnets.length > 0 ? ec2.SubnetType.PRIVATE_WITH_EGRESS : ec2.SubnetType.PRIVATE_ISOLATED };
+  }
+
+  // Endpoints of the services used without internet access: ACM, KMS and S3 (ACM for Nitro Enclaves),
+  // SSM (Session Manager), S3 (packages repositories), CloudFormation (fleet instances signals) and CloudWatch Logs (monitoring)
+  private addVpcEndpoints(isFleet: boolean, withLogs: boolean): void {
+    this.vpc.addGatewayEndpoint('S3Endpoint', {
+      service: ec2.GatewayVpcEndpointAwsService.S3,
+      subnets: [this.subnetSelection],
+    });
+
+    const interfaceEndpoints: { [id: string]: ec2.InterfaceVpcEndpointAwsService } = {
+      AcmEndpoint: new ec2.InterfaceVpcEndpointAwsService('acm'),
+      KmsEndpoint: ec2.InterfaceVpcEndpointAwsService.KMS,
+      SsmEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM,
+      SsmMessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+      Ec2MessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+      ...(isFleet ? { CloudFormationEndpoint: ec2.InterfaceVpcEndpointAwsService.CLOUDFORMATION } : {}),
+      ...(withLogs ? { LogsEndpoint: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS } : {}),
+    };
+    for (const [id, service] of Object.entries(interfaceEndpoints)) {
+      this.vpc.addInterfaceEndpoint(id, {
+        service,
+        subnets: { ...this.subnetSelection, onePerAz: true },
+        privateDnsEnabled: true,
+      });
+    }
+  }
+}
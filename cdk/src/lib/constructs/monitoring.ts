@@ -0,0 +1,210 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as snsSubscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import { Construct } from 'constructs';
+import { MonitoringLogGroups } from '../user-data/cloudwatch-agent-config';
+
+/*
+  Certificate lifecycle monitoring of a setup:
+  - ACM DaysToExpiry alarms: https://docs.aws.amazon.com/acm/latest/userguide/cloudwatch-metrics.html
+  - ACM and Private CA events (expiry, renewal, issuance failures): https://docs.aws.amazon.com/acm/latest/userguide/cloudwatch-events.html
+  - Log groups of the CloudWatch agent on the instances, health check metrics and a dashboard
+  Alarms and events are sent to the notification topic. An existing topic must allow events.amazonaws.com to publish.
+*/
+
+export interface MonitoredCertificate {
+  certificateArn: string;
+  domainName: string;
+}
+
+export interface EnclaveMonitoringProps {
+  dashboardName: string;
+  certificates: MonitoredCertificate[];
+  // Private CAs issuing the certificates (created or existing)
+  certificateAuthorityArns?: string[];
+  // Default: 30
+  expiryThresholdDays?: number;
+  notificationEmails?: string[];
+  // Default: a created topic
+  notificationTopicArn?: string;
+  // Log groups and health check alarms, the instances ship their logs with the CloudWatch agent. Default: true
+  logs?: boolean;
+  // Default: 30
+  logRetentionDays?: number;
+}
+
+const ACM_EVENT_TYPES = [
+  'ACM Certificate Approaching Expiration',
+  'ACM Certificate Expired',
+  'ACM Certificate Renewal Action Required',
+  'ACM Certificate Available',
+];
+const PCA_EVENT_TYPES = ['ACM Private CA Certificate Issuance', 'ACM Private CA CRL Generation'];
+const HEALTH_NAMESPACE = 'ACMNE';
+
+export class EnclaveMonitoring extends Construct {
+  public readonly topic: sns.ITopic;
+  public readonly dashboard: cloudwatch.Dashboard;
+  public readonly expiryAlarms: cloudwatch.Alarm[];
+  // Undefined when logs are disabled
+  public readonly logGroups?: MonitoringLogGroups;
+  public readonly healthAlarms: cloudwatch.Alarm[] = [];
+
+  constructor(scope: Construct, id: string, props: EnclaveMonitoringProps) {
+    super(scope, id);
+
+    const expiryThresholdDays = props.expiryThresholdDays ?? 30;
+
+    this.topic = props.notificationTopicArn
+      ? sns.Topic.fromTopicArn(this, 'NotificationTopic', props.notificationTopicArn)
+      : new sns.Topic(this, 'NotificationTopic', { displayName: `ACM for Nitro Enclaves - ${props.dashboardName}`, enforceSSL: true });
+    (props.notificationEmails || []).forEach(email => this.topic.addSubscription(new snsSubscriptions.EmailSubscription(email)));
+    const alarmAction = new cloudwatchActions.SnsAction(this.topic);
+
+    // DaysToExpiry is published once a day per certificate
+    const expiryMetrics = props.certificates.map(certificate => new cloudwatch.Metric({
+      namespace: 'AWS/CertificateManager',
+      metricName: 'DaysToExpiry',
+      dimensionsMap: { CertificateArn: certificate.certificateArn },
+      statistic: cloudwatch.Stats.MINIMUM,
+      period: cdk.Duration.days(1),
+      label: certificate.domainName,
+    }));
+    this.expiryAlarms = expiryMetrics.map((metric, index) => {
+      const alarm = new cloudwatch.Alarm(this, `ExpiryAlarm${index === 0 ? '' : index + 1}`, {
+        alarmDescription: `The ${props.certificates[index].domainName} certificate expires in less than ${expiryThresholdDays} days`,
+        metric: metric,
+        threshold: expiryThresholdDays,
+        comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+      alarm.addAlarmAction(alarmAction);
+      return alarm;
+    });
+
+    const eventsTarget = new eventsTargets.SnsTopic(this.topic);
+    new events.Rule(this, 'CertificateEventsRule', {
+      description: `ACM expiry and renewal events of the ${props.dashboardName} certificates`,
+      eventPattern: {
+        source: ['aws.acm'],
+        detailType: ACM_EVENT_TYPES,
+        resources: props.certificates.map(certificate => certificate.certificateArn),
+      },
+      targets: [eventsTarget],
+    });
+    if (props.certificateAuthorityArns?.length) {
+      new events.Rule(this, 'CertificateAuthorityEventsRule', {
+        description: `Failed issuances and CRL generations of the ${props.dashboardName} private CAs`,
+        eventPattern: {
+          source: ['aws.acm-pca'],
+          detailType: PCA_EVENT_TYPES,
+          resources: props.certificateAuthorityArns,
+          detail: { result: ['failure'] },
+        },
+        targets: [eventsTarget],
+      });
+    }
+
+    const widgets: cloudwatch.IWidget[][] = [[
+      new cloudwatch.GraphWidget({
+        title: 'Days to certificate expiry',
+        left: expiryMetrics,
+        leftAnnotations: [{ value: expiryThresholdDays, label: 'Expiry threshold', color: cloudwatch.Color.RED }],
+        width: 12,
+      }),
+    ]];
+
+    if (props.logs ?? true) {
+      this.logGroups = EnclaveMonitoring.getLogGroupNames(props.dashboardName);
+      const retention = (props.logRetentionDays ?? 30) as logs.RetentionDays;
+      const createLogGroup = (id: string, logGroupName: string): logs.LogGroup => new logs.LogGroup(this, id, {
+        logGroupName: logGroupName,
+        retention: retention,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+      const serviceLogGroup = createLogGroup('ServiceLogGroup', this.logGroups.service);
+      const webServerLogGroup = createLogGroup('WebServerLogGroup', this.logGroups.webServer);
+      const healthLogGroup = createLogGroup('HealthLogGroup', this.logGroups.health);
+
+      // Health check lines: <timestamp> ACMNE_OK or <timestamp> ACMNE_FAIL <reasons>
+      const healthMetric = (metricName: string, term: string, defaultValue?: number): cloudwatch.Metric =>
+        new logs.MetricFilter(this, `${metricName}Filter`, {
+          logGroup: healthLogGroup,
+          metricNamespace: `${HEALTH_NAMESPACE}/${props.dashboardName}`,
+          metricName: metricName,
+          filterPattern: logs.FilterPattern.anyTerm(term),
+          metricValue: '1',
+          defaultValue: defaultValue,
+        }).metric({ statistic: cloudwatch.Stats.SUM, period: cdk.Duration.minutes(5) });
+      const okMetric = healthMetric('HealthCheckOk', 'ACMNE_OK');
+      // 0 for the successful checks: every health check line is a sample of this metric
+      const failMetric = healthMetric('HealthCheckFailed', 'ACMNE_FAIL', 0);
+
+      this.healthAlarms.push(
+        new cloudwatch.Alarm(this, 'HealthCheckFailedAlarm', {
+          alarmDescription: `The ${props.dashboardName} health check failed (ACM service, enclave or TLS handshake)`,
+          metric: failMetric,
+          threshold: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          evaluationPeriods: 2,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        }),
+        // No health check line at all: the instance, the timer or the CloudWatch agent is down
+        new cloudwatch.Alarm(this, 'HealthCheckMissingAlarm', {
+          alarmDescription: `No health check reported by the ${props.dashboardName} instances`,
+          metric: failMetric.with({ statistic: cloudwatch.Stats.SAMPLE_COUNT }),
+          threshold: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+          evaluationPeriods: 3,
+          treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+        }),
+      );
+      this.healthAlarms.forEach(alarm => alarm.addAlarmAction(alarmAction));
+
+      widgets[0].push(new cloudwatch.GraphWidget({ title: 'Health checks', left: [okMetric], right: [failMetric], width: 12 }));
+      widgets.push([
+        new cloudwatch.LogQueryWidget({
+          title: 'Health check failures and ACM service errors',
+          logGroupNames: [healthLogGroup.logGroupName, serviceLogGroup.logGroupName],
+          queryLines: [
+            'fields @timestamp, @logStream, @message',
+            'filter @message like /(?i)ACMNE_FAIL|error/',
+            'sort @timestamp desc',
+            'limit 50',
+          ],
+          width: 24,
+        }),
+      ], [
+        new cloudwatch.LogQueryWidget({
+          title: 'Web server logs',
+          logGroupNames: [webServerLogGroup.logGroupName],
+          queryLines: ['fields @timestamp, @logStream, @message', 'sort @timestamp desc', 'limit 50'],
+          width: 24,
+        }),
+      ]);
+    }
+
+    widgets.push([new cloudwatch.AlarmStatusWidget({
+      title: 'Alarms',
+      alarms: [...this.expiryAlarms, ...this.healthAlarms],
+      width: 24,
+    })]);
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: props.dashboardName,
+      widgets: widgets,
+    });
+  }
+
+  // Deterministic names, so that the instances do not depend on the MonitoringStack outputs
+  static getLogGroupNames(dashboardName: string): MonitoringLogGroups {
+    const prefix = `/acmne/${dashboardName}`;
+    return { service: `${prefix}/nitro-enclaves-acm`, webServer: `${prefix}/web-server`, health: `${prefix}/health` };
+  }
+}
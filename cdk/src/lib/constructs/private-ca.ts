@@ -0,0 +1,123 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acmpca from 'aws-cdk-lib/aws-acmpca';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+import { PrivateCaConfig } from '../../config/types';
+
+/*
+  Step 1 prerequisite - Create and activate the AWS Private CA issuing the private certificates:
+  https://docs.aws.amazon.com/privateca/latest/userguide/create-CA.html
+  A ROOT CA self-signs its activation certificate, a SUBORDINATE CA has it signed by parentCaArn (a root CA).
+*/
+
+export interface EnclavePrivateCaProps extends Omit<PrivateCaConfig, 'mode' | 'pcaArn'> {}
+
+const SIGNING_ALGORITHMS: { [keyAlgorithm in NonNullable<PrivateCaConfig['keyAlgorithm']>]: string } = {
+  RSA_2048: 'SHA256WITHRSA',
+  RSA_4096: 'SHA256WITHRSA',
+  EC_prime256v1: 'SHA256WITHECDSA',
+  EC_secp384r1: 'SHA384WITHECDSA',
+};
+
+export class EnclavePrivateCa extends Construct {
+  public readonly certificateAuthority: acmpca.ICertificateAuthority;
+  public readonly certificateAuthorityArn: string;
+  // The certificates can only be issued once the CA is active
+  public readonly activation: acmpca.CfnCertificateAuthorityActivation;
+  // PEM of the root CA, to be trusted by the clients (the instance included)
+  public readonly rootCertificatePem: string;
+  public readonly crlBucket?: s3.IBucket;
+
+  constructor(scope: Construct, id: string, props: EnclavePrivateCaProps) {
+    super(scope, id);
+
+    const isSubordinate = props.type === 'SUBORDINATE';
+    const keyAlgorithm = props.keyAlgorithm || 'RSA_2048';
+    const signingAlgorithm = SIGNING_ALGORITHMS[keyAlgorithm];
+    const subject = props.subject || { commonName: 'ACM for Nitro Enclaves Private CA' };
+
+    let crlBucketPolicy: s3.BucketPolicy | undefined;
+    if (props.crl?.enabled) {
+      if (props.crl.s3BucketName) {
+        this.crlBucket = s3.Bucket.fromBucketName(this, 'CrlBucket', props.crl.s3BucketName);
+      } else {
+        const crlBucket = new s3.Bucket(this, 'CrlBucket', {
+          blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+          encryption: s3.BucketEncryption.S3_MANAGED,
+          enforceSSL: true,
+        });
+        crlBucket.addToResourcePolicy(new iam.PolicyStatement({
+          principals: [new iam.ServicePrincipal('acm-pca.amazonaws.com')],
+          actions: ['s3:PutObject', 's3:PutObjectAcl', 's3:GetBucketAcl', 's3:GetBucketLocation'],
+          resources: [crlBucket.bucketArn, crlBucket.arnForObjects('*')],
+          conditions: { StringEquals: { 'aws:SourceAccount': cdk.Stack.of(this).account } },
+        }));
+        crlBucketPolicy = crlBucket.policy;
+        this.crlBucket = crlBucket;
+      }
+    }
+
+    const certificateAuthority = new acmpca.CfnCertificateAuthority(this, 'CertificateAuthority', {
+      type: isSubordinate ? 'SUBORDINATE' : 'ROOT',
+      keyAlgorithm: keyAlgorithm,
+      signingAlgorithm: signingAlgorithm,
+      subject: subject,
+      revocationConfiguration: {
+        crlConfiguration: this.crlBucket ? {
+          enabled: true,
+          expirationInDays: props.crl?.expirationDays || 7,
+          s3BucketName: this.crlBucket.bucketName,
+          s3ObjectAcl: 'BUCKET_OWNER_FULL_CONTROL',
+        } : undefined,
+        ocspConfiguration: props.ocsp ? { enabled: true } : undefined,
+      },
+    });
+    if (crlBucketPolicy) {
+      certificateAuthority.node.addDependency(crlBucketPolicy);
+    }
+    this.certificateAuthorityArn = certificateAuthority.attrArn;
+
+    // Activation certificate: self-signed for a root CA, signed by the parent CA otherwise
+    const validity = { type: 'YEARS', value: props.validityYears || (isSubordinate ? 5 : 10) };
+    const caCertificate = new acmpca.CfnCertificate(this, 'CaCertificate', {
+      certificateAuthorityArn: isSubordinate ? props.parentCaArn! : certificateAuthority.attrArn,
+      certificateSigningRequest: certificateAuthority.attrCertificateSigningRequest,
+      signingAlgorithm: signingAlgorithm,
+      templateArn: `arn:${cdk.Aws.PARTITION}:acm-pca:::template/${isSubordinate ? 'SubordinateCACertificate_PathLen0' : 'RootCACertificate'}/V1`,
+      validity: validity,
+    });
+
+    if (isSubordinate) {
+      const parentCertificate = new cr.AwsCustomResource(this, 'ParentCaCertificate', {
+        onUpdate: {
+          service: 'ACMPCA',
+          action: 'getCertificateAuthorityCertificate',
+          parameters: { CertificateAuthorityArn: props.parentCaArn },
+          physicalResourceId: cr.PhysicalResourceId.of(props.parentCaArn!),
+          outputPaths: ['Certificate'],
+        },
+        policy: cr.AwsCustomResourcePolicy.fromSdkCalls({ resources: [props.parentCaArn!] }),
+        installLatestAwsSdk: false,
+      });
+      this.rootCertificatePem = parentCertificate.getResponseField('Certificate');
+    } else {
+      this.rootCertificatePem = caCertificate.attrCertificate;
+    }
+
+    this.activation = new acmpca.CfnCertificateAuthorityActivation(this, 'Activation', {
+      certificateAuthorityArn: certificateAuthority.attrArn,
+      certificate: caCertificate.attrCertificate,
+      certificateChain: isSubordinate ? this.rootCertificatePem : undefined,
+      status: 'ACTIVE',
+    });
+
+    // Deleting the activation disables the CA, both are retained together
+    if (props.removalPolicy === 'RETAIN') {
+      [certificateAuthority, caCertificate, this.activation].forEach(resource => resource.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN));
+    }
+
+    this.certificateAuthority = acmpca.CertificateAuthority.fromCertificateAuthorityArn(this, 'ImportedCertificateAuthority', certificateAuthority.attrArn);
+  }
+}
@@ -0,0 +1,91 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { Construct } from 'constructs';
+import { SessionManagerConfig } from '../../config/types';
+import { EnclaveSessionManager } from './session-manager';
+
+/*
+  Step 3 - Create the ACM role: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#create-role
+  Step 4 - Associate the certificate with the ACM role: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#role-cert
+  Step 5 - Grant the ACM role permission to access the certificate and encryption key: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#add-policy
+*/
+
+export interface EnclaveRoleProps {
+  roleName?: string;
+  // Role to add the associations and permissions to instead of creating one
+  existingRoleArn?: string;
+  // One association (and its S3/KMS permissions) is created per certificate
+  certificateArns: string[];
+  // Default: Session Manager enabled, without session logging
+  sessionManager?: SessionManagerConfig;
+  // CloudWatchAgentServerPolicy, for the monitoring logs. Default: false
+  cloudWatchAgent?: boolean;
+}
+
+export class EnclaveRole extends Construct {
+  public readonly role: iam.IRole;
+  public readonly instanceProfile: iam.InstanceProfile;
+  public readonly certificateAssociations: ec2.CfnEnclaveCertificateIamRoleAssociation[];
+  // Undefined when Session Manager is disabled
+  public readonly sessionManager?: EnclaveSessionManager;
+
+  constructor(scope: Construct, id: string, props: EnclaveRoleProps) {
+    super(scope, id);
+
+    const roleName = props.roleName || 'AcmneRole';
+
+    // Step 3 - Create the ACM role, or import the one attached to the existing instances
+    this.role = props.existingRoleArn
+      ? iam.Role.fromRoleArn(this, roleName, props.existingRoleArn, { mutable: true })
+      : new iam.Role(this, roleName, {
+        assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+      });
+
+    this.certificateAssociations = props.certificateArns.map((certificateArn, index) => {
+      const suffix = index === 0 ? '' : `-${index + 1}`;
+
+      // Step 4 - Associate the certificate with the ACM role
+      const association = new ec2.CfnEnclaveCertificateIamRoleAssociation(this, `EnclaveCertificateIamRoleAssociation-${roleName}${suffix}`, {
+        certificateArn: certificateArn,
+        roleArn: this.role.roleArn,
+      });
+
+      // Step 5 - Grant the ACM role permission to access the certificate and encryption key
+      this.role.addToPrincipalPolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:GetObject'],
+        resources: [`arn:aws:s3:::${association.attrCertificateS3BucketName}/*`],
+      }));
+
+      this.role.addToPrincipalPolicy(new iam.PolicyStatement({
+        sid: `VisualEditor${index}`,
+        effect: iam.Effect.ALLOW,
+        actions: ['kms:Decrypt'],
+        // Key of the certificate association, in the account of the role
+        resources: [cdk.Stack.of(this).formatArn({ service: 'kms', resource: 'key', resourceName: association.attrEncryptionKmsKeyId })],
+      }));
+
+      return association;
+    });
+
+    this.role.addToPrincipalPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['iam:GetRole'],
+      resources: [this.role.roleArn],
+    }));
+
+    // Session Manager access, replacing SSH
+    if (props.sessionManager?.enabled ?? true) {
+      this.sessionManager = new EnclaveSessionManager(this, 'SessionManager', { ...props.sessionManager, role: this.role });
+    }
+
+    // CloudWatch agent of the monitoring logs (an existing role is expected to have it already)
+    if (props.cloudWatchAgent && this.role instanceof iam.Role) {
+      this.role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('CloudWatchAgentServerPolicy'));
+    }
+
+    // Create Instance Profile from the role
+    this.instanceProfile = new iam.InstanceProfile(this, 'AcmneInstanceProfile', { role: this.role });
+  }
+}
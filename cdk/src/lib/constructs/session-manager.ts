@@ -0,0 +1,99 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import { Construct } from 'constructs';
+import { SessionManagerConfig } from '../../config/types';
+
+/*
+  Session Manager access to the instance: https://docs.aws.amazon.com/systems-manager/latest/userguide/session-manager.html
+  The instance role is granted AmazonSSMManagedInstanceCore (unless imported), and sessions are started with a generated preferences document
+  (logging, encryption and idle timeout): https://docs.aws.amazon.com/systems-manager/latest/userguide/getting-started-configure-preferences-cli.html
+*/
+
+export interface EnclaveSessionManagerProps extends Omit<SessionManagerConfig, 'enabled'> {
+  role: iam.IRole;
+}
+
+export class EnclaveSessionManager extends Construct {
+  public readonly preferencesDocument: ssm.CfnDocument;
+  // Name to pass to `aws ssm start-session --document-name`
+  public readonly preferencesDocumentName: string;
+  public readonly encryptionKey?: kms.Key;
+  public readonly logBucket?: s3.Bucket;
+  public readonly logGroup?: logs.LogGroup;
+
+  constructor(scope: Construct, id: string, props: EnclaveSessionManagerProps) {
+    super(scope, id);
+
+    const region = cdk.Stack.of(this).region;
+    // Managed policies cannot be attached to an imported role, which is expected to have it already
+    if (props.role instanceof iam.Role) {
+      props.role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'));
+    }
+
+    if (props.encryptSessions ?? true) {
+      this.encryptionKey = new kms.Key(this, 'SessionEncryptionKey', {
+        description: 'Encryption of the Session Manager sessions and logs',
+        enableKeyRotation: true,
+      });
+      // The instance decrypts the session data, and encrypts the logs it uploads
+      this.encryptionKey.grant(props.role, 'kms:Decrypt', 'kms:GenerateDataKey');
+    }
+
+    if (props.logToS3) {
+      this.logBucket = new s3.Bucket(this, 'SessionLogBucket', {
+        encryption: this.encryptionKey ? s3.BucketEncryption.KMS : s3.BucketEncryption.S3_MANAGED,
+        encryptionKey: this.encryptionKey,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        enforceSSL: true,
+      });
+      this.logBucket.grantPut(props.role);
+      props.role.addToPrincipalPolicy(new iam.PolicyStatement({
+        actions: ['s3:GetEncryptionConfiguration'],
+        resources: [this.logBucket.bucketArn],
+      }));
+    }
+
+    if (props.logToCloudWatch) {
+      if (this.encryptionKey) {
+        this.encryptionKey.grantEncryptDecrypt(new iam.ServicePrincipal(`logs.${region}.amazonaws.com`));
+      }
+      this.logGroup = new logs.LogGroup(this, 'SessionLogGroup', {
+        retention: (props.logRetentionDays || 90) as logs.RetentionDays,
+        encryptionKey: this.encryptionKey,
+      });
+      this.logGroup.grantWrite(props.role);
+      props.role.addToPrincipalPolicy(new iam.PolicyStatement({
+        actions: ['logs:DescribeLogGroups', 'logs:DescribeLogStreams'],
+        resources: ['*'],
+      }));
+    }
+
+    this.preferencesDocument = new ssm.CfnDocument(this, 'SessionPreferences', {
+      documentType: 'Session',
+      documentFormat: 'JSON',
+      content: {
+        schemaVersion: '1.0',
+        description: 'Session Manager preferences of the ACM for Nitro Enclaves instance',
+        sessionType: 'Standard_Stream',
+        inputs: {
+          s3BucketName: this.logBucket?.bucketName || '',
+          s3KeyPrefix: '',
+          s3EncryptionEnabled: !!this.logBucket,
+          cloudWatchLogGroupName: this.logGroup?.logGroupName || '',
+          cloudWatchEncryptionEnabled: !!this.logGroup,
+          cloudWatchStreamingEnabled: !!this.logGroup,
+          kmsKeyId: this.encryptionKey?.keyId || '',
+          runAsEnabled: false,
+          runAsDefaultUser: '',
+          idleSessionTimeout: `${props.idleSessionTimeoutMinutes || 20}`,
+          shellProfile: { linux: '', windows: '' },
+        },
+      },
+    });
+    this.preferencesDocumentName = this.preferencesDocument.ref;
+  }
+}
@@ -0,0 +1,29 @@
+import { spawnSync } from 'child_process';
+import { SetupEnvironment } from '../../config/types';
+
+export interface DeployOptions {
+  // Approval of the security-sensitive changes (cdk deploy --require-approval: never, any-change or broadening)
+  requireApproval?: string;
+  // Command synthesizing the app of an environment (all of them when undefined) for the CDK CLI (--app)
+  getAppCommand: (environment?: string) => string;
+}
+
+// Deploys the environments one at a time, in their order, stopping at the first failure
+export const deploySetup = (environments: SetupEnvironment[], options: DeployOptions): void => {
+  for (const environment of environments) {
+    // cdk deploy --all only selects the top-level stacks, not those of a stage
+    const selector = environment.name ? [`${environment.name}/*`] : ['--all'];
+    if (environment.name) {
+      console.log(`Deploying environment ${environment.name} (${environment.config.account}/${environment.config.region})`);
+    }
+    const result = spawnSync('cdk', [
+      'deploy',
+      '--app', options.getAppCommand(environment.name),
+      ...(options.requireApproval ? ['--require-approval', options.requireApproval] : []),
+      ...selector,
+    ], { stdio: 'inherit' });
+    if (result.status !== 0) {
+      throw new Error(`Failed to deploy ${environment.name ? `environment ${environment.name}` : 'the setup'}${result.error ? `: ${result.error.message}` : ''}`);
+    }
+  }
+};
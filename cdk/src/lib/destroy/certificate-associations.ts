@@ -0,0 +1,58 @@
+import { execFileSync } from 'child_process';
+
+/*
+  Deployed state read with the AWS CLI (same credentials as the CDK CLI):
+  a certificate still associated with a role of another setup must not be deleted, its instances would lose it.
+*/
+
+export interface ForeignAssociation {
+  certificateArn: string;
+  roleArns: string[];
+}
+
+// Fields read from the AWS CLI responses
+interface DescribeStacksResponse {
+  Stacks?: { Outputs?: { OutputKey: string; OutputValue: string }[] }[];
+}
+
+interface AssociatedRolesResponse {
+  AssociatedRoles?: { AssociatedRoleArn: string }[];
+}
+
+// Parsed JSON output, undefined when the stack does not exist
+const runAwsCli = <T>(args: string[], region: string): T | undefined => {
+  try {
+    return JSON.parse(execFileSync('aws', [...args, '--region', region, '--output', 'json'], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }));
+  } catch (error) {
+    const stderr = String((error as { stderr?: string }).stderr || (error as Error).message);
+    if (stderr.includes('does not exist')) {
+      return undefined;
+    }
+    throw new Error(`aws ${args.slice(0, 2).join(' ')} failed: ${stderr.trim()}`);
+  }
+};
+
+// Outputs of a deployed stack, empty when it is not deployed
+export const getStackOutputs = (stackName: string, region: string): { [outputKey: string]: string } => {
+  const response = runAwsCli<DescribeStacksResponse>(['cloudformation', 'describe-stacks', '--stack-name', stackName], region);
+  const outputs = response?.Stacks?.[0]?.Outputs || [];
+  return Object.fromEntries(outputs.map(output => [output.OutputKey, output.OutputValue]));
+};
+
+// Certificates of the CertificateStack associated with roles other than the one of the RoleStack
+export const findForeignAssociations = (certificateStackName: string, roleStackName: string, region: string): ForeignAssociation[] => {
+  const setupRoleArn = getStackOutputs(roleStackName, region).ACMRoleArn;
+  const certificateArns = Object.entries(getStackOutputs(certificateStackName, region))
+    .filter(([outputKey]) => outputKey.startsWith('CertificateArn'))
+    .map(([, certificateArn]) => certificateArn);
+
+  return certificateArns
+    .map(certificateArn => {
+      const response = runAwsCli<AssociatedRolesResponse>(['ec2', 'get-associated-enclave-certificate-iam-roles', '--certificate-arn', certificateArn], region);
+      const roleArns = (response?.AssociatedRoles || [])
+        .map(role => role.AssociatedRoleArn)
+        .filter(roleArn => roleArn !== setupRoleArn);
+      return { certificateArn, roleArns };
+    })
+    .filter(association => association.roleArns.length > 0);
+};
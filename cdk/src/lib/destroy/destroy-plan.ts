@@ -0,0 +1,86 @@
+import * as cxapi from 'aws-cdk-lib/cx-api';
+
+/*
+  Stacks to delete for a selection, dependents first: a stack whose outputs are imported by another one
+  (e.g. the certificate ARNs imported by the RoleStack) can only be deleted after it.
+  Built from the synthesized app, so it reflects the configuration passed to destroy.
+*/
+
+export interface PlannedResource {
+  logicalId: string;
+  type: string;
+  // DeletionPolicy Retain: left in the account when the stack is deleted
+  retained: boolean;
+}
+
+export interface PlannedStack {
+  stackName: string;
+  // Undefined for a selected stack, otherwise the selected stack it depends on
+  requiredBy?: string;
+  resources: PlannedResource[];
+}
+
+export interface DestroyPlan {
+  // In deletion order
+  stacks: PlannedStack[];
+  // Selected stacks that are not part of the app
+  unknownStackNames: string[];
+}
+
+const RETAIN_POLICIES = ['Retain', 'RetainExceptOnCreate'];
+
+export const getDestroyPlan = (assembly: cxapi.CloudAssembly, selectedStackNames: string[]): DestroyPlan => {
+  const stacks = new Map(assembly.stacks.map(stack => [stack.stackName, stack]));
+  const dependents = (stackName: string): string[] => assembly.stacks
+    .filter(stack => stack.dependencies.some(dependency => dependency.id === stacks.get(stackName)!.id))
+    .map(stack => stack.stackName);
+
+  // Selected stacks and, transitively, the stacks depending on them
+  const requiredBy = new Map<string, string | undefined>();
+  const queue = selectedStackNames.filter(stackName => stacks.has(stackName));
+  queue.forEach(stackName => requiredBy.set(stackName, undefined));
+  while (queue.length > 0) {
+    const stackName = queue.shift()!;
+    for (const dependent of dependents(stackName)) {
+      if (!requiredBy.has(dependent)) {
+        requiredBy.set(dependent, stackName);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  // A stack is deleted once none of its remaining dependents is left
+  const remaining = [...requiredBy.keys()];
+  const ordered: string[] = [];
+  while (remaining.length > 0) {
+    const next = remaining.find(stackName => dependents(stackName).every(dependent => !remaining.includes(dependent)));
+    if (!next) {
+      throw new Error(`Circular dependency between the stacks ${remaining.join(', ')}`);
+    }
+    ordered.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+
+  return {
+    stacks: ordered.map(stackName => ({
+      stackName,
+      requiredBy: requiredBy.get(stackName),
+      resources: Object.entries<{ Type: string; DeletionPolicy?: string }>(stacks.get(stackName)!.template.Resources || {})
+        .filter(([, resource]) => resource.Type !== 'AWS::CDK::Metadata')
+        .map(([logicalId, resource]) => ({
+          logicalId,
+          type: resource.Type,
+          retained: RETAIN_POLICIES.includes(resource.DeletionPolicy || ''),
+        })),
+    })),
+    unknownStackNames: selectedStackNames.filter(stackName => !stacks.has(stackName)),
+  };
+};
+
+export const formatDestroyPlan = (plan: DestroyPlan): string => [
+  ...plan.unknownStackNames.map(stackName => `${stackName}: not part of this setup, skipped`),
+  ...plan.stacks.flatMap((stack, index) => [
+    `${index + 1}. ${stack.stackName}${stack.requiredBy ? ` (depends on ${stack.requiredBy})` : ''}`,
+    ...stack.resources.map(resource => `     ${resource.retained ? 'RETAIN ' : 'DELETE '} ${resource.type} ${resource.logicalId}`),
+  ]),
+].join('\n');
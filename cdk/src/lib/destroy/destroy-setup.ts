@@ -0,0 +1,61 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { spawnSync } from 'child_process';
+import { NitroEnclavesAcmStreamlineConfig } from '../../config/types';
+import { NitroEnclavesAcmStreamline } from '../nitro-enclaves-acm-streamline';
+import { SetupStage } from '../setup-stage';
+import { findForeignAssociations } from './certificate-associations';
+import { DestroyPlan, formatDestroyPlan, getDestroyPlan } from './destroy-plan';
+
+export interface DestroyOptions {
+  // Selected stacks, their dependents are deleted first
+  stackNames: string[];
+  // Print the plan only
+  dryRun?: boolean;
+  // Do not ask for a confirmation before each stack (cdk destroy --force)
+  force?: boolean;
+  // Command synthesizing the same app for the CDK CLI (--app)
+  appCommand: string;
+  // Stage of the stacks, in an app of a multi-environment config file
+  environment?: string;
+}
+
+// Deletes the selected stacks of a setup one at a time, stopping at the first failure
+export const destroySetup = (config: NitroEnclavesAcmStreamlineConfig, options: DestroyOptions): DestroyPlan => {
+  const app = new cdk.App();
+  let assembly: cxapi.CloudAssembly;
+  if (options.environment) {
+    assembly = new SetupStage(app, options.environment, { config, isDestroySubcommand: true }).synth();
+  } else {
+    new NitroEnclavesAcmStreamline(config, true, app).deploy();
+    assembly = app.synth();
+  }
+  const plan = getDestroyPlan(assembly, options.stackNames);
+
+  console.log(`${options.dryRun ? 'Would destroy' : 'Destroying'}, in this order:\n${formatDestroyPlan(plan)}`);
+  if (options.dryRun || plan.stacks.length === 0) {
+    return plan;
+  }
+
+  // Retained certificates stay available to the other roles
+  const certificateStackName = config.certificateConfig.stackName;
+  const certificateStack = plan.stacks.find(stack => stack.stackName === certificateStackName);
+  if (certificateStack?.resources.some(resource => resource.type === 'AWS::CertificateManager::Certificate' && !resource.retained)) {
+    const foreignAssociations = findForeignAssociations(certificateStackName, config.roleConfig?.stackName || 'RoleStack', config.region);
+    if (foreignAssociations.length > 0) {
+      throw new Error(`Refusing to destroy ${certificateStackName}, its certificates are associated with other roles:\n${
+        foreignAssociations.map(association => `  ${association.certificateArn}: ${association.roleArns.join(', ')}`).join('\n')}\n`
+        + 'Remove these associations (aws ec2 disassociate-enclave-certificate-iam-role) or set removalPolicy: RETAIN on the certificates.');
+    }
+  }
+
+  for (const stack of plan.stacks) {
+    // The stacks of a stage are selected by their path (their construct IDs are the stack names)
+    const selector = options.environment ? `${options.environment}/${stack.stackName}` : stack.stackName;
+    const result = spawnSync('cdk', ['destroy', '--app', options.appCommand, ...(options.force ? ['--force'] : []), selector], { stdio: 'inherit' });
+    if (result.status !== 0) {
+      throw new Error(`Failed to destroy ${stack.stackName}${result.error ? `: ${result.error.message}` : ''}`);
+    }
+  }
+  return plan;
+};
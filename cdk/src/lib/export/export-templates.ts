@@ -0,0 +1,130 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NitroEnclavesAcmStreamlineConfig } from '../../config/types';
+import { NitroEnclavesAcmStreamline } from '../nitro-enclaves-acm-streamline';
+import { quoteShellArg } from '../shell';
+
+/*
+  setup-tool export: the stacks of a setup as standalone CloudFormation templates, for the accounts without the CDK bootstrap.
+  The BootstraplessSynthesizer refuses assets (e.g. the code of a Lambda-backed custom resource), the templates only reference
+  the resources of the setup, its parameters and the exports of the templates deployed before them.
+*/
+
+export interface ExportOptions {
+  // Created if needed, existing templates are overwritten
+  outputDir: string;
+  // Command synthesizing the same app for the CDK CLI (--app), which looks up the context values
+  appCommand: string;
+}
+
+export interface ExportedTemplate {
+  stackName: string;
+  templateFile: string;
+  // Parameter names and their default values (without the SSM parameters of the AMIs, resolved by CloudFormation)
+  parameters: { [name: string]: string };
+  // Templates over 51,200 bytes are deployed from an S3 bucket (or the console)
+  size: number;
+}
+
+// Deployed directly by CloudFormation (aws cloudformation deploy --template-file)
+export const MAX_TEMPLATE_BODY_SIZE = 51200;
+
+// The project of cdk.json and cdk.context.json (the values looked up by the CDK CLI)
+const PROJECT_DIR = path.join(__dirname, '..', '..', '..');
+
+// Same feature flags and lookups as the deployments of the CDK CLI
+const getContext = (): { [key: string]: unknown } => {
+  const readContext = (file: string): { [key: string]: unknown } => fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+  return {
+    ...readContext(path.join(PROJECT_DIR, 'cdk.json')).context as { [key: string]: unknown },
+    ...readContext(path.join(PROJECT_DIR, 'cdk.context.json')),
+    // Restricting the default security group of a created VPC takes a Lambda-backed custom resource, an asset
+    [cxapi.EC2_RESTRICT_DEFAULT_SECURITY_GROUP]: false,
+    // No construct paths in the templates
+    [cxapi.PATH_METADATA_ENABLE_CONTEXT]: false,
+  };
+};
+
+// Templates in deployment order, written to <outputDir>/<stackName>.template.json
+export const exportTemplates = (config: NitroEnclavesAcmStreamlineConfig, options: ExportOptions): ExportedTemplate[] => {
+  const outdir = fs.mkdtempSync(path.join(os.tmpdir(), 'acmne-export-'));
+  try {
+    return writeTemplates(synthesize(config, outdir, options), options.outputDir);
+  } finally {
+    fs.rmSync(outdir, { recursive: true, force: true });
+  }
+};
+
+const synthesize = (config: NitroEnclavesAcmStreamlineConfig, outdir: string, options: ExportOptions): cxapi.CloudAssembly => {
+  let assembly: cxapi.CloudAssembly;
+  try {
+    const app = new cdk.App({
+      outdir,
+      context: getContext(),
+      analyticsReporting: false,
+      defaultStackSynthesizer: new cdk.BootstraplessSynthesizer(),
+    });
+    new NitroEnclavesAcmStreamline(config, false, app, true).deploy();
+    assembly = app.synth();
+  } catch (error) {
+    if (/BootstraplessSynthesizer/.test((error as Error).message)) {
+      throw new Error(`The setup cannot be exported, it uses assets stored in the CDK bootstrap bucket (e.g. the Lambda function of a subordinate private CA): ${(error as Error).message}`);
+    }
+    throw error;
+  }
+
+  // Lookups (e.g. of the default VPC or the availability zones) are made by the CDK CLI, the app only reads them from cdk.context.json
+  const missing = assembly.manifest.missing || [];
+  if (missing.length > 0) {
+    throw new Error(`The templates need values looked up in the account: ${missing.map(context => context.key).join(', ')}.\n`
+      + 'Look them up once with the CDK CLI (without bootstrap, the lookups use your credentials):\n'
+      + `  cd ${quoteShellArg(PROJECT_DIR)} && cdk synth --app ${quoteShellArg(options.appCommand)} > /dev/null`);
+  }
+
+  // Annotations, e.g. the compliance findings
+  const messages = assembly.stacks.flatMap(stack => stack.messages.map(message => ({ ...message, text: `${stack.stackName}: ${message.entry.data}` })));
+  messages.filter(message => message.level === 'warning').forEach(message => console.warn(`Warning: ${message.text}`));
+  const errors = messages.filter(message => message.level === 'error');
+  if (errors.length > 0) {
+    throw new Error(`The setup cannot be exported:\n${errors.map(error => `  ${error.text}`).join('\n')}`);
+  }
+  return assembly;
+};
+
+const writeTemplates = (assembly: cxapi.CloudAssembly, outputDir: string): ExportedTemplate[] => {
+  fs.mkdirSync(outputDir, { recursive: true });
+  return sortByDependencies(assembly.stacks).map(stack => {
+    const templateFile = path.join(outputDir, `${stack.stackName}.template.json`);
+    const body = JSON.stringify(stack.template, undefined, 2);
+    fs.writeFileSync(templateFile, `${body}\n`);
+    const parameters: { [name: string]: string } = {};
+    for (const [name, parameter] of Object.entries<{ Type: string; Default?: unknown }>(stack.template.Parameters || {})) {
+      if (!parameter.Type.startsWith('AWS::SSM::Parameter')) {
+        parameters[name] = `${parameter.Default ?? ''}`;
+      }
+    }
+    return { stackName: stack.stackName, templateFile, parameters, size: Buffer.byteLength(body) };
+  });
+};
+
+// Each stack after the stacks it depends on (the exports it imports)
+const sortByDependencies = (stacks: cxapi.CloudFormationStackArtifact[]): cxapi.CloudFormationStackArtifact[] => {
+  const sorted: cxapi.CloudFormationStackArtifact[] = [];
+  const visit = (stack: cxapi.CloudFormationStackArtifact): void => {
+    if (sorted.includes(stack)) {
+      return;
+    }
+    stack.dependencies.forEach(dependency => {
+      const dependencyStack = stacks.find(other => other.id === dependency.id);
+      if (dependencyStack) {
+        visit(dependencyStack);
+      }
+    });
+    sorted.push(stack);
+  };
+  stacks.forEach(visit);
+  return sorted;
+};
@@ -0,0 +1,49 @@
+import * as cdk from 'aws-cdk-lib';
+
+/*
+  Standalone CloudFormation templates (setup-tool export), deployed without the CDK bootstrap:
+  the deploy-time values are CloudFormation parameters defaulting to the configured ones,
+  and the values read by the stacks deployed later are named exports (<stackName>-<output>) they import.
+*/
+
+// Domain names without wildcard, for the PrimaryDomainName parameter
+const DOMAIN_NAME_PATTERN = '^[a-zA-Z0-9]([a-zA-Z0-9.-]{0,251}[a-zA-Z0-9])?$';
+const CERTIFICATE_ARN_PATTERN = '^arn:aws[a-zA-Z-]*:acm:[a-z0-9-]+:[0-9]{12}:certificate/[a-zA-Z0-9-]+$';
+
+// Output read by the stacks deployed later: a named export they import in a standalone template, a CDK reference otherwise
+export const addSharedOutput = (stack: cdk.Stack, id: string, value: string, standalone?: boolean): string => {
+  const output = new cdk.CfnOutput(stack, id, { value, exportName: standalone ? `${stack.stackName}-${id}` : undefined });
+  return standalone ? output.importValue : value;
+};
+
+// Domain name of the primary certificate. A wildcard domain name is kept as configured: the DNS records and local names skip it at synthesis
+export const addDomainNameParameter = (stack: cdk.Stack, domainName: string): string => domainName.startsWith('*')
+  ? domainName
+  : new cdk.CfnParameter(stack, 'PrimaryDomainName', {
+    description: 'Domain name of the primary certificate',
+    default: domainName,
+    allowedPattern: DOMAIN_NAME_PATTERN,
+    constraintDescription: 'must be a domain name without wildcard',
+  }).valueAsString;
+
+export const addCertificateArnParameter = (stack: cdk.Stack, certificateArn: string): string => new cdk.CfnParameter(stack, 'PrimaryCertificateArn', {
+  description: 'Existing ACM certificate of the primary domain name, in the account and region of the stack',
+  default: certificateArn,
+  allowedPattern: CERTIFICATE_ARN_PATTERN,
+  constraintDescription: 'must be an ACM certificate ARN',
+}).valueAsString;
+
+// Checked by CloudFormation: the key pair must exist in the region
+export const addKeyPairNameParameter = (stack: cdk.Stack, keyPairName: string): string => new cdk.CfnParameter(stack, 'KeyPairName', {
+  type: 'AWS::EC2::KeyPair::KeyName',
+  description: 'EC2 key pair of the instances',
+  default: keyPairName,
+}).valueAsString;
+
+// Parameter restricted to the values passing the configuration checks, defaulting to the configured one
+export const addChoiceParameter = (stack: cdk.Stack, id: string, description: string, defaultValue: string, allowedValues: string[]): string =>
+  new cdk.CfnParameter(stack, id, {
+    description,
+    default: defaultValue,
+    allowedValues: allowedValues.includes(defaultValue) ? allowedValues : [defaultValue, ...allowedValues],
+  }).valueAsString;
@@ -0,0 +1,26 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { EnclaveGoldenImage, EnclaveGoldenImageProps } from './constructs/golden-image';
+
+/*
+  Golden image of the instances, deployed before the InstanceStack which launches its instances from the image parameter
+*/
+
+export interface ImageBuilderStackProps extends cdk.StackProps, Omit<EnclaveGoldenImageProps, 'namePrefix'> {}
+
+export class ImageBuilderStack extends cdk.Stack {
+  public readonly goldenImage: EnclaveGoldenImage;
+
+  constructor(scope: Construct, id: string, props: ImageBuilderStackProps) {
+    super(scope, id, props);
+
+    this.goldenImage = new EnclaveGoldenImage(this, 'EnclaveGoldenImage', { ...props, namePrefix: this.stackName });
+
+    new cdk.CfnOutput(this, 'ImageId', { value: this.goldenImage.imageId });
+    new cdk.CfnOutput(this, 'ImageParameterName', { value: this.goldenImage.parameterName });
+    new cdk.CfnOutput(this, 'PipelineArn', { value: this.goldenImage.pipeline.attrArn });
+    new cdk.CfnOutput(this, 'Build command', {
+      value: `aws imagebuilder start-image-pipeline-execution --region ${this.region} --image-pipeline-arn ${this.goldenImage.pipeline.attrArn}`,
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import * as readline from 'readline';
+
+/*
+  Questions of the setup wizard. An answer failing its validation is reported and the question asked again,
+  an empty answer selects the default value.
+*/
+
+export interface InputOptions {
+  default?: string;
+  // Error message of an invalid answer
+  validate?: (value: string) => string | undefined;
+}
+
+export interface Choice<T extends string> {
+  value: T;
+  label: string;
+}
+
+export interface Prompter {
+  input(question: string, options?: InputOptions): Promise<string>;
+  select<T extends string>(question: string, choices: Choice<T>[], defaultValue?: T): Promise<T>;
+  confirm(question: string, defaultValue?: boolean): Promise<boolean>;
+  print(message: string): void;
+}
+
+// Prompter reading the answers line by line (from a terminal or piped), throws when the input ends
+export class ConsolePrompter implements Prompter {
+  private readonly lines: AsyncIterator<string>;
+
+  constructor(input: NodeJS.ReadableStream = process.stdin, private readonly output: NodeJS.WritableStream = process.stdout) {
+    this.lines = readline.createInterface({ input, terminal: false })[Symbol.asyncIterator]();
+  }
+
+  public async input(question: string, options: InputOptions = {}): Promise<string> {
+    for (;;) {
+      const answer = (await this.ask(`${question}${options.default ? ` [${options.default}]` : ''}: `)) || options.default || '';
+      const error = answer ? options.validate?.(answer) : 'A value is required.';
+      if (!error) {
+        return answer;
+      }
+      this.print(`  ${error}`);
+    }
+  }
+
+  public async select<T extends string>(question: string, choices: Choice<T>[], defaultValue?: T): Promise<T> {
+    this.print(question);
+    choices.forEach((choice, index) => this.print(`  ${index + 1}) ${choice.label}`));
+    const defaultIndex = choices.findIndex(choice => choice.value === defaultValue);
+    const answer = await this.input('Choice', {
+      default: defaultIndex >= 0 ? `${defaultIndex + 1}` : undefined,
+      validate: value => this.findChoice(choices, value) ? undefined : `Enter a number between 1 and ${choices.length}.`,
+    });
+    return this.findChoice(choices, answer)!.value;
+  }
+
+  public async confirm(question: string, defaultValue: boolean = false): Promise<boolean> {
+    const answer = await this.input(`${question} (y/n)`, {
+      default: defaultValue ? 'y' : 'n',
+      validate: value => /^(y|yes|n|no)$/i.test(value) ? undefined : 'Answer y or n.',
+    });
+    return /^y/i.test(answer);
+  }
+
+  public print(message: string): void {
+    this.output.write(`${message}\n`);
+  }
+
+  private async ask(prompt: string): Promise<string> {
+    this.output.write(prompt);
+    const line = await this.lines.next();
+    if (line.done) {
+      throw new Error('Setup wizard aborted: no more input.');
+    }
+    return line.value.trim();
+  }
+
+  // By number, or by value
+  private findChoice<T extends string>(choices: Choice<T>[], answer: string): Choice<T> | undefined {
+    return choices[parseInt(answer, 10) - 1] || choices.find(choice => choice.value === answer);
+  }
+}
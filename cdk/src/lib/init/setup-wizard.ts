@@ -0,0 +1,164 @@
+import { ConfigLoader, setIn } from '../../config/config-loader';
+import { ConfigValidationError, ConfigValidator, ValidationIssue, ValidationReport } from '../../config/config-validator';
+import { getDefaultConfig } from '../../config/default-config';
+import { NitroEnclavesAcmStreamlineConfigFile } from '../../config/types';
+import { getServerType, getServerTypeNames } from '../user-data/server-types';
+import { Prompter } from './prompter';
+
+/*
+  setup-tool init: builds a config file from the answers to a series of questions.
+  Only the questions matching the previous answers are asked (e.g. the private CA of a private certificate),
+  and each answer is validated by the ConfigValidator checks of its field, along with the answers before it.
+  The default values are those of default-config.ts, unless they are placeholders failing the validation.
+*/
+
+export interface SetupWizardResult {
+  config: NitroEnclavesAcmStreamlineConfigFile;
+  // Issues of the complete configuration, each answer being validated with the answers before it
+  report: ValidationReport;
+  // setup-tool deploy flags equivalent to the config file
+  deployArgs: string[];
+}
+
+type CertificateSource = 'private' | 'public' | 'existing';
+
+// Same rule as the setup-tool setup names
+const SETUP_NAME_PATTERN = /^[a-zA-Z0-9-]{1,128}$/;
+
+export class SetupWizard {
+  private readonly config: NitroEnclavesAcmStreamlineConfigFile = {};
+  private readonly defaults = getDefaultConfig();
+
+  constructor(private readonly prompter: Prompter) {}
+
+  public async run(): Promise<SetupWizardResult> {
+    this.config.setupName = await this.prompter.input('Setup name (prefix of the stack names)', {
+      validate: value => SETUP_NAME_PATTERN.test(value) ? undefined : 'Use only letters, digits and hyphens (up to 128 characters).',
+    });
+    await this.ask(['account'], 'AWS account ID', this.defaults.account);
+    await this.ask(['region'], 'AWS region', this.defaults.region);
+    await this.askCertificate();
+    await this.askInstance();
+
+    return {
+      config: this.config,
+      report: ConfigValidator.validate(ConfigLoader.resolve({ cliConfig: this.config }, {})),
+      deployArgs: this.getDeployArgs(),
+    };
+  }
+
+  // The certificate options combinations: existingCertificateArn, isPrivate with pcaArn or privateCa, hostedZoneId or validationType
+  private async askCertificate(): Promise<void> {
+    const source = await this.prompter.select<CertificateSource>('Certificate of the web server', [
+      { value: 'private', label: 'New private certificate, issued by AWS Private CA' },
+      { value: 'public', label: 'New public certificate, issued by ACM' },
+      { value: 'existing', label: 'Existing ACM certificate' },
+    ], this.defaults.certificateConfig.isPrivate ? 'private' : 'public');
+    await this.ask(['certificateConfig', 'domainName'], 'Domain name', this.defaults.certificateConfig.domainName);
+
+    if (source === 'existing') {
+      await this.ask(['certificateConfig', 'existingCertificateArn'], 'Certificate ARN (in the same account and region)');
+      return;
+    }
+    this.set(['certificateConfig', 'isPrivate'], source === 'private');
+
+    if (source === 'private') {
+      const ca = await this.prompter.select('Certificate authority', [
+        { value: 'existing', label: 'Existing AWS Private CA' },
+        { value: 'create', label: 'New root AWS Private CA, created with the setup (billed monthly until it is deleted)' },
+      ], 'existing');
+      if (ca === 'existing') {
+        await this.ask(['certificateConfig', 'pcaArn'], 'Private CA ARN', this.defaults.certificateConfig.pcaArn);
+      } else {
+        this.set(['certificateConfig', 'privateCa', 'mode'], 'create');
+        await this.ask(['certificateConfig', 'privateCa', 'subject', 'commonName'], 'Common name of the private CA', `${this.config.setupName} Root CA`);
+      }
+      return;
+    }
+
+    const dnsProvider = await this.prompter.select('DNS provider of the domain', [
+      { value: 'route53', label: 'Route 53: the validation records are created in the hosted zone' },
+      { value: 'external', label: 'Other DNS provider: you add the validation records (or approve the validation emails)' },
+    ], 'route53');
+    if (dnsProvider === 'route53') {
+      await this.ask(['certificateConfig', 'hostedZoneId'], 'Route 53 hosted zone ID');
+    } else {
+      this.set(['certificateConfig', 'validationType'], await this.prompter.select<'DNS' | 'EMAIL'>('Validation method', [
+        { value: 'DNS', label: 'DNS (CNAME record)' },
+        { value: 'EMAIL', label: 'Email to the domain contacts' },
+      ], 'DNS'));
+    }
+  }
+
+  private async askInstance(): Promise<void> {
+    const instance = this.defaults.instanceConfig;
+    await this.ask(['instanceConfig', 'keyPairName'], 'EC2 key pair name', instance.keyPairName);
+    await this.ask(['instanceConfig', 'instanceType'], 'Instance type (Nitro Enclaves capable)', instance.instanceType);
+    this.set(['instanceConfig', 'serverType'], await this.prompter.select('Web server',
+      getServerTypeNames().map(name => ({ value: name, label: `${name}: ${getServerType(name)!.description}` })), instance.serverType));
+    this.set(['instanceConfig', 'amiType'], await this.prompter.select<'AL2' | 'AL2023'>('AMI type', [
+      { value: 'AL2023', label: 'Amazon Linux 2023' },
+      { value: 'AL2', label: 'Amazon Linux 2' },
+    ], instance.amiType));
+    this.set(['instanceConfig', 'encryptVolume'], await this.prompter.confirm('Encrypt the root EBS volume?', instance.encryptVolume));
+  }
+
+  // Text field, validated with the answers before it; its warnings are printed once it is accepted
+  private async ask(fieldPath: string[], question: string, defaultValue?: string): Promise<void> {
+    const getError = (value: string): string | undefined => this.getIssues(fieldPath, value)
+      .filter(issue => issue.severity === 'error')
+      .map(issue => issue.message)
+      .join(' ') || undefined;
+    const value = await this.prompter.input(question, {
+      default: defaultValue && !getError(defaultValue) ? defaultValue : undefined,
+      validate: getError,
+    });
+    this.getIssues(fieldPath, value)
+      .filter(issue => issue.severity === 'warning')
+      .forEach(issue => this.prompter.print(`  Warning: ${issue.message}`));
+    this.set(fieldPath, value);
+  }
+
+  // Issues of a field, with the given value
+  private getIssues(fieldPath: string[], value: unknown): ValidationIssue[] {
+    const draft = JSON.parse(JSON.stringify(this.config));
+    setIn(draft, fieldPath, value);
+    const path = fieldPath.join('.');
+    try {
+      // The env vars are not part of the config file
+      return ConfigValidator.validate(ConfigLoader.resolve({ cliConfig: draft }, {})).issues.filter(issue => issue.path === path);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        return error.report.issues.filter(issue => issue.path === path);
+      }
+      throw error;
+    }
+  }
+
+  private set(fieldPath: string[], value: unknown): void {
+    setIn(this.config, fieldPath, value);
+  }
+
+  private getDeployArgs(): string[] {
+    const { certificateConfig: certificate = {}, instanceConfig: instance = {} } = this.config;
+    const flags: [string, string | boolean | undefined][] = [
+      ['--setup-name', this.config.setupName],
+      ['--aws-account-id', this.config.account],
+      ['--aws-region', this.config.region],
+      ['--domain-name', certificate.domainName],
+      ['--certificate-arn', certificate.existingCertificateArn],
+      ['--is-private', certificate.isPrivate],
+      ['--pca-arn', certificate.pcaArn],
+      ['--create-private-ca', certificate.privateCa?.mode === 'create'],
+      ['--private-ca-common-name', certificate.privateCa?.subject?.commonName],
+      ['--hosted-zone-id', certificate.hostedZoneId],
+      ['--validation-type', certificate.validationType],
+      ['--key-pair-name', instance.keyPairName],
+      ['--instance-type', instance.instanceType],
+      ['--web-server-type', instance.serverType],
+      ['--ami-type', instance.amiType],
+      ['--encrypt-volume', instance.encryptVolume],
+    ];
+    return flags.flatMap(([flag, value]) => value === true ? [flag] : typeof value === 'string' ? [flag, value] : []);
+  }
+}
@@ -1,108 +1,159 @@
 import * as cdk from 'aws-cdk-lib';
+import * as autoscaling from 'aws-cdk-lib/aws-autoscaling';
 import * as ec2 from 'aws-cdk-lib/aws-ec2'
-import * as iam from 'aws-cdk-lib/aws-iam'
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
 import { Construct } from 'constructs';
-import { readFileSync } from 'fs';
+import { DnsConfig } from '../config/types';
+import { EnclaveDns } from './constructs/dns';
+import { EnclaveConfigurationDocument } from './constructs/configuration-document';
+import { EnclaveExistingInstances } from './constructs/existing-instances';
+import { EnclaveInstance, EnclaveInstanceProps } from './constructs/instance';
+import { addChoiceParameter, addKeyPairNameParameter } from './export/standalone-template';
 
 /*
   Step 2 - Prepare the enclave-enabled parent instance: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#prepare-instance
   Step 6 - Attach the role to the instance: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#instance-role
 */
 
-interface InstanceStackProps extends cdk.StackProps {
-  instanceName?: string;
-  instanceProfile: iam.InstanceProfile;
-  keyPairName: string;
-  serverType: 'NGINX' | 'APACHE';
-  amiType: 'AL2' | 'AL2023';
-  instanceType: string;
-  certificateArn: string;
-  domainName: string;
-  isCertificatePrivate: boolean;
-  encryptVolume: boolean;
-  allowSSHPort: boolean;
+export interface InstanceStackProps extends cdk.StackProps, EnclaveInstanceProps {
+  // Session Manager preferences document, added to the SSM connection string
+  sessionPreferencesDocumentName?: string;
+  // Route 53 records and health check, when a certificate has a hostedZoneId
+  dns?: DnsConfig;
+  // Configure these instances through Systems Manager instead of launching one (brownfield)
+  existingInstanceIds?: string[];
+  // Standalone template (setup-tool export): the key pair, instance type and server type are parameters
+  standalone?: boolean;
+  // Values of the InstanceType parameter (serverTypes being those of the ServerType parameter). Default: the configured one
+  instanceTypes?: string[];
 }
 
 export class InstanceStack extends cdk.Stack {
+  // Single mode only
+  public readonly instance?: ec2.Instance;
+  // Fleet mode only
+  public readonly autoScalingGroup?: autoscaling.AutoScalingGroup;
+  public readonly loadBalancer?: elbv2.NetworkLoadBalancer;
+  // Brownfield mode only
+  public readonly existingInstances?: EnclaveExistingInstances;
+
   constructor(scope: Construct, id: string, props: InstanceStackProps) {
     super(scope, id, props);
 
-    // Step 2: Prepare the enclave-enabled parent instance
-    const vpc = ec2.Vpc.fromLookup(this, `DefaultVPC-${props.instanceName}`, { isDefault: true })
-
-    const securityGroup = new ec2.SecurityGroup(this, `InstanceSecurityGroup-${props.instanceName}`, {
-      vpc,
-      description: 'Allow SSH (TCP port 22) and HTTP/HTTPS (TCP ports 80/443) in',
-      allowAllOutbound: true
-    });
-
-    securityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(80), 'Allow HTTP Access');
-    securityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(443), 'Allow HTTPS Access');
-    if (props.allowSSHPort) {
-      securityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(22), 'Allow SSH Access');
+    if (props.standalone) {
+      props = this.addTemplateParameters(props);
+    }
+    if (props.existingInstanceIds?.length) {
+      this.existingInstances = this.configureExistingInstances(props, props.existingInstanceIds);
+      return;
     }
 
-    // Configure user data (startup commands) based on AMI type and server type
-    const userData = ec2.UserData.custom(this.getUserDataConfig(props));
-
-    // Configure instance type
-    const instanceType = new ec2.InstanceType(props.instanceType);
-    const isArm = instanceType.architecture === ec2.InstanceArchitecture.ARM_64;
-
-    // Configure AMI
-    const machineImage = new ec2.AmazonLinuxImage({
-      generation: props?.amiType === 'AL2'
-        ? ec2.AmazonLinuxGeneration.AMAZON_LINUX_2
-        : ec2.AmazonLinuxGeneration.AMAZON_LINUX_2023,
-      cpuType: isArm
-        ? ec2.AmazonLinuxCpuType.ARM_64
-        : ec2.AmazonLinuxCpuType.X86_64
-    });
+    const enclaveInstance = new EnclaveInstance(this, 'EnclaveInstance', props);
+    this.instance = enclaveInstance.instance;
+    this.autoScalingGroup = enclaveInstance.autoScalingGroup;
+    this.loadBalancer = enclaveInstance.loadBalancer;
 
-    // Step 2 & Step 6 - Create the enclave-enabled instance with the attached role/instance profile
-    const instance = new ec2.Instance(this, props?.instanceName!, {
-      instanceType: instanceType,
-      machineImage: machineImage,
-      vpc: vpc,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
-      securityGroup: securityGroup,
-      keyPair: ec2.KeyPair.fromKeyPairName(this, `KeyPair-${props.instanceName}`, props?.keyPairName!),
-      instanceProfile: props.instanceProfile,
-      enclaveEnabled: true,
-      blockDevices: [
-        {
-          deviceName: '/dev/xvda',
-          volume: ec2.BlockDeviceVolume.ebs(
-            8, // Default volume size
-            {
-              encrypted: props.encryptVolume,
-            }
-          ),
-        },
-      ],
-      userData: userData
-    });
+    // Outputs: Instance (or fleet) Information
+    new cdk.CfnOutput(this, 'VpcId', { value: enclaveInstance.vpc.vpcId });
+    this.addConfigurationOutputs(enclaveInstance.configuration, enclaveInstance.configurationAssociation);
+    const documentOption = props.sessionPreferencesDocumentName ? ` --document-name ${props.sessionPreferencesDocumentName}` : '';
+    if (this.autoScalingGroup && this.loadBalancer) {
+      new cdk.CfnOutput(this, 'LoadBalancerDnsName', { value: this.loadBalancer.loadBalancerDnsName });
+      new cdk.CfnOutput(this, 'AutoScalingGroupName', { value: this.autoScalingGroup.autoScalingGroupName });
+      new cdk.CfnOutput(this, 'Fleet instances command', {
+        value: `aws autoscaling describe-auto-scaling-groups --auto-scaling-group-names ${this.autoScalingGroup.autoScalingGroupName} --query "AutoScalingGroups[0].Instances[].InstanceId"`,
+      });
+      if (!props.allowSSHPort) {
+        new cdk.CfnOutput(this, 'AWS SSM connection string', { value: `aws ssm start-session --target <instance-id>${documentOption}` });
+      }
+    }
+    const instance = this.instance;
 
-    // Outputs: Instance Information
-    new cdk.CfnOutput(this, 'InstanceId', { value: instance.instanceId });
-    new cdk.CfnOutput(this, 'InstancePublicIP', { value: instance.instancePublicIp });
-    new cdk.CfnOutput(this, 'InstancePublicDnsName', { value: instance.instancePublicDnsName });
+    // Outputs: DNS
+    if (EnclaveDns.getRecordNames(props.certificates).length > 0) {
+      const enclaveDns = new EnclaveDns(this, 'EnclaveDns', {
+        ...props.dns,
+        certificates: props.certificates,
+        instance: instance,
+        loadBalancer: this.loadBalancer,
+        isPrivate: enclaveInstance.isPrivate,
+        httpsPort: enclaveInstance.httpsPort,
+      });
+      if (enclaveDns.elasticIp) {
+        new cdk.CfnOutput(this, 'ElasticIp', { value: enclaveDns.elasticIp.attrPublicIp });
+      }
+      if (enclaveDns.records.length > 0) {
+        new cdk.CfnOutput(this, 'DnsRecords', { value: enclaveDns.records.map(record => record.domainName).join(', ') });
+      }
+      if (enclaveDns.healthCheck) {
+        new cdk.CfnOutput(this, 'HealthCheckId', { value: enclaveDns.healthCheck.attrHealthCheckId });
+      }
+    }
+    if (instance) {
+      new cdk.CfnOutput(this, 'InstanceId', { value: instance.instanceId });
+      if (enclaveInstance.isPrivate) {
+        new cdk.CfnOutput(this, 'InstancePrivateIP', { value: instance.instancePrivateIp });
+        new cdk.CfnOutput(this, 'InstancePrivateDnsName', { value: instance.instancePrivateDnsName });
+      } else {
+        new cdk.CfnOutput(this, 'InstancePublicIP', { value: instance.instancePublicIp });
+        new cdk.CfnOutput(this, 'InstancePublicDnsName', { value: instance.instancePublicDnsName });
+      }
+    }
     new cdk.CfnOutput(this, 'keyPairName', { value: props?.keyPairName });
     new cdk.CfnOutput(this, 'serverType', { value: props?.serverType })
     new cdk.CfnOutput(this, 'amiType', { value: props?.amiType })
-    if (props.allowSSHPort){
-      new cdk.CfnOutput(this, 'SSH connection string', { value: `ssh -i ${props?.keyPairName!}.pem ec2-user@${instance.instancePublicDnsName}` });
-    } else {
-      new cdk.CfnOutput(this, 'AWS SSM connection string', { value: `aws ssm start-session --target ${instance.instanceId}` });
+    if (instance) {
+      if (props.allowSSHPort){
+        const hostName = enclaveInstance.isPrivate ? instance.instancePrivateDnsName : instance.instancePublicDnsName;
+        new cdk.CfnOutput(this, 'SSH connection string', { value: `ssh -i ${props?.keyPairName!}.pem ec2-user@${hostName}` });
+      } else {
+        new cdk.CfnOutput(this, 'AWS SSM connection string', { value: `aws ssm start-session --target ${instance.instanceId}${documentOption}` });
+      }
+    }
+  }
+
+  // Deploy-time values of a standalone template, defaulting to the configured ones
+  private addTemplateParameters(props: InstanceStackProps): InstanceStackProps {
+    const serverTypes = props.serverTypes || [props.serverType];
+    const serverType = addChoiceParameter(this, 'ServerType', 'Web server of the instances', props.serverType, serverTypes);
+    // Imported from the certificate and role stacks
+    const certificateValues = props.certificates.flatMap(certificate => [certificate.certificateArn, certificate.domainName]);
+    const parameters: Partial<InstanceStackProps> = {
+      serverType,
+      serverTypes,
+      deployTimeValues: [serverType, ...certificateValues.filter(value => cdk.Token.isUnresolved(value))],
+    };
+    if (!props.existingInstanceIds?.length) {
+      parameters.keyPairName = addKeyPairNameParameter(this, props.keyPairName);
+      // The AMI follows the architecture of the configured instance type
+      parameters.instanceArchitecture = new ec2.InstanceType(props.instanceType).architecture;
+      parameters.instanceType = addChoiceParameter(this, 'InstanceType', `Nitro Enclaves capable instance type (${parameters.instanceArchitecture})`,
+        props.instanceType, props.instanceTypes || [props.instanceType]);
     }
+    return { ...props, ...parameters };
   }
-  // Get commands for user data
-  private getUserDataConfig(props: InstanceStackProps, userDataScriptsFolder: string = 'src/assets/user-data-scripts'): string {
-    const mainConfig = readFileSync(`${userDataScriptsFolder}/${props.amiType}/${props.serverType.toLowerCase()}-conf.sh`, 'utf8')
-    const privateCertConfig = props.isCertificatePrivate ? readFileSync(`${userDataScriptsFolder}/private-cert-conf.sh`, 'utf8') : ''
-    const combinedConfig = `${mainConfig}\n${privateCertConfig}`
-      .replaceAll('CERTIFICATE_ARN_PLACEHOLDER', props.certificateArn)
-      .replaceAll('DOMAIN_NAME_PLACEHOLDER', props.domainName)
-    return combinedConfig
+
+  private addConfigurationOutputs(configuration: EnclaveConfigurationDocument, association: ssm.CfnAssociation): void {
+    new cdk.CfnOutput(this, 'ConfigurationDocumentName', { value: configuration.documentName });
+    new cdk.CfnOutput(this, 'ConfigurationVersion', { value: configuration.configurationVersion });
+    new cdk.CfnOutput(this, 'ConfigurationAssociationId', { value: association.attrAssociationId });
+    new cdk.CfnOutput(this, 'Configuration status command', {
+      value: `aws ssm describe-association-executions --association-id ${association.attrAssociationId} --max-items 1`,
+    });
+  }
+
+  // The VPC, security groups and DNS of the existing instances are left as they are
+  private configureExistingInstances(props: InstanceStackProps, instanceIds: string[]): EnclaveExistingInstances {
+    const existingInstances = new EnclaveExistingInstances(this, 'EnclaveExistingInstances', { ...props, instanceIds });
+
+    // Outputs: Configuration of the existing instances
+    new cdk.CfnOutput(this, 'InstanceIds', { value: instanceIds.join(', ') });
+    this.addConfigurationOutputs(existingInstances.configuration, existingInstances.association);
+    new cdk.CfnOutput(this, 'serverType', { value: props.serverType });
+    new cdk.CfnOutput(this, 'amiType', { value: props.amiType });
+    const documentOption = props.sessionPreferencesDocumentName ? ` --document-name ${props.sessionPreferencesDocumentName}` : '';
+    new cdk.CfnOutput(this, 'AWS SSM connection string', { value: `aws ssm start-session --target <instance-id>${documentOption}` });
+    return existingInstances;
   }
 }
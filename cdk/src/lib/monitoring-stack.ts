@@ -0,0 +1,28 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { EnclaveMonitoring, EnclaveMonitoringProps } from './constructs/monitoring';
+
+/*
+  Certificate lifecycle monitoring: expiry alarms, ACM / Private CA events, instance logs and the setup dashboard
+*/
+
+export interface MonitoringStackProps extends cdk.StackProps, EnclaveMonitoringProps {}
+
+export class MonitoringStack extends cdk.Stack {
+  public readonly monitoring: EnclaveMonitoring;
+
+  constructor(scope: Construct, id: string, props: MonitoringStackProps) {
+    super(scope, id, props);
+
+    this.monitoring = new EnclaveMonitoring(this, 'EnclaveMonitoring', props);
+
+    new cdk.CfnOutput(this, 'NotificationTopicArn', { value: this.monitoring.topic.topicArn });
+    new cdk.CfnOutput(this, 'DashboardName', { value: props.dashboardName });
+    new cdk.CfnOutput(this, 'DashboardUrl', {
+      value: `https://${this.region}.console.aws.amazon.com/cloudwatch/home?region=${this.region}#dashboards/dashboard/${props.dashboardName}`,
+    });
+    if (this.monitoring.logGroups) {
+      new cdk.CfnOutput(this, 'LogGroupNames', { value: Object.values(this.monitoring.logGroups).join(', ') });
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CertificateStack } from './certificate-stack';
+import { RoleStack } from './role-stack';
+import { InstanceStack } from './instance-stack';
+import { MonitoringStack } from './monitoring-stack';
+import { ImageBuilderStack } from './image-builder-stack';
+import { ConfigValidator, ValidationReport } from '../config/config-validator';
+import { CertificateDefinition, NitroEnclavesAcmStreamlineConfig, PrivateCaConfig } from '../config/types';
+import { getCertificateDefinitions, usesCreatedPrivateCa } from '../config/certificates';
+import { DEFAULT_ENCLAVE_RESOURCES, getInstanceTypeInfo, getInstanceTypeNames } from '../config/instance-types';
+import { EnclaveInstanceCertificate } from './constructs/instance';
+import { EnclavePrivateCaProps } from './constructs/private-ca';
+import { EnclaveMonitoring } from './constructs/monitoring';
+import { applySetupTags } from './tags';
+import { ComplianceChecker } from './compliance/compliance-checker';
+import { getServerTypeNames } from './user-data/server-types';
+
+// Creates the Certificate, Role, Monitoring (optional), Image Builder (optional) and Instance stacks of a setup in an App (or Stage) when deploy() is called.
+// The CloudFormation stack names are the configured ones, also in a Stage (whose path would otherwise prefix them).
+// Standalone stacks (setup-tool export) take the deploy-time values as parameters and share their values through named exports.
+export class NitroEnclavesAcmStreamline {
+  private readonly app: Construct;
+  private readonly config: NitroEnclavesAcmStreamlineConfig;
+  private readonly isDestroySubcommand: boolean;
+  private readonly standalone: boolean;
+  // Warnings of the configuration (errors are thrown as a ConfigValidationError)
+  public readonly validationReport: ValidationReport;
+  // Findings of the compliance rule pack, collected when the app is synthesized (undefined when disabled)
+  public complianceChecker?: ComplianceChecker;
+  private certificates: EnclaveInstanceCertificate[] = [];
+  // Root of the private CA created in the CertificateStack
+  private trustedCaCertificates: string[] = [];
+  // Private CAs issuing the certificates (existing and created), for the monitoring events
+  private certificateAuthorityArns: string[] = [];
+
+  constructor(config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false, scope?: Construct, standalone: boolean = false) {
+    this.app = scope ?? new cdk.App();
+    this.config = config;
+    this.isDestroySubcommand = isDestroySubcommand;
+    this.standalone = standalone;
+    this.validationReport = ConfigValidator.assertValid(this.config, this.isDestroySubcommand);
+  }
+
+  // Create the certificates without an existingCertificateArn, in a single CertificateStack (undefined when there are none)
+  private createCertificateStack(): CertificateStack | undefined {
+    const certificateDefinitions = getCertificateDefinitions(this.config.certificateConfig);
+    const newCertificates = certificateDefinitions.filter(definition => !definition.existingCertificateArn);
+
+    const privateCa = this.config.certificateConfig.privateCa;
+    const createPrivateCa = newCertificates.some(definition => usesCreatedPrivateCa(this.config.certificateConfig, definition));
+
+    let certificateStack: CertificateStack | undefined;
+    if (newCertificates.length > 0) {
+      const stackName = this.config.certificateConfig.stackName || 'CertificateStack';
+      certificateStack = new CertificateStack(
+        this.app,
+        stackName,
+        {
+          env: this.getEnv(),
+          stackName,
+          certificates: newCertificates.map(definition => ({
+            domainName: definition.domainName,
+            subjectAlternativeNames: definition.subjectAlternativeNames,
+            hostedZoneId: definition.hostedZoneId,
+            isPrivate: definition.isPrivate,
+            pcaArn: definition.pcaArn,
+            certificateName: definition.certificateName,
+            validationType: definition.validationType,
+            removalPolicy: definition.removalPolicy,
+          })),
+          privateCa: createPrivateCa ? this.getPrivateCaProps(privateCa!) : undefined,
+          standalone: this.standalone,
+          domainNameParameter: newCertificates[0] === certificateDefinitions[0] && !this.isEmailValidated(newCertificates[0]),
+        });
+      if (certificateStack.privateCa) {
+        this.trustedCaCertificates = [certificateStack.rootCertificatePem!];
+        this.certificateAuthorityArns.push(certificateStack.certificateAuthorityArn!);
+      }
+    }
+    certificateDefinitions.forEach(definition => {
+      if (definition.pcaArn && !definition.existingCertificateArn && !this.certificateAuthorityArns.includes(definition.pcaArn)) {
+        this.certificateAuthorityArns.push(definition.pcaArn);
+      }
+    });
+
+    this.certificates = certificateDefinitions.map((definition, index) => ({
+      certificateArn: definition.existingCertificateArn || certificateStack!.certificateArns[newCertificates.indexOf(definition)],
+      domainName: index === 0 && !definition.existingCertificateArn ? certificateStack!.domainName : definition.domainName,
+      subjectAlternativeNames: definition.subjectAlternativeNames,
+      isPrivate: definition.isPrivate,
+      hostedZoneId: definition.hostedZoneId,
+    }));
+    return certificateStack;
+  }
+
+  // The domain name of an email validated certificate stays as configured: its validation domain is derived from it at synthesis
+  private isEmailValidated(definition: CertificateDefinition): boolean {
+    return !definition.isPrivate && !definition.hostedZoneId && definition.validationType !== 'DNS';
+  }
+
+  // The existing primary certificate of a standalone template comes from the parameters of the RoleStack
+  private createRoleStack(): RoleStack {
+    const stackName = this.config.roleConfig?.stackName || 'RoleStack';
+    const existingCertificate = this.config.certificateConfig.existingCertificateArn;
+    const roleStack = new RoleStack(
+      this.app,
+      stackName,
+      {
+        env: this.getEnv(),
+        stackName,
+        certificateArns: this.certificates.map(certificate => certificate.certificateArn),
+        roleName: this.config.roleConfig?.roleName || 'AcmneRole',
+        existingRoleArn: this.config.roleConfig?.existingRoleArn,
+        sessionManager: this.config.roleConfig?.sessionManager,
+        cloudWatchAgent: this.hasMonitoringLogs(),
+        standalone: this.standalone,
+        existingCertificate: existingCertificate ? { domainName: this.config.certificateConfig.domainName } : undefined,
+      });
+    if (roleStack.certificateArn) {
+      this.certificates[0] = { ...this.certificates[0], certificateArn: roleStack.certificateArn, domainName: roleStack.domainName! };
+    }
+    return roleStack;
+  }
+
+  // Undefined unless monitoringConfig.enabled
+  private createMonitoringStack(): MonitoringStack | undefined {
+    const monitoringConfig = this.config.monitoringConfig;
+    if (!monitoringConfig?.enabled) {
+      return undefined;
+    }
+    const stackName = monitoringConfig.stackName || 'MonitoringStack';
+    return new MonitoringStack(
+      this.app,
+      stackName,
+      {
+        env: this.getEnv(),
+        stackName,
+        dashboardName: this.getDashboardName(),
+        certificates: this.certificates,
+        certificateAuthorityArns: this.certificateAuthorityArns,
+        expiryThresholdDays: monitoringConfig.expiryThresholdDays,
+        notificationEmails: monitoringConfig.notificationEmails,
+        notificationTopicArn: monitoringConfig.notificationTopicArn,
+        logs: monitoringConfig.logs,
+        logRetentionDays: monitoringConfig.logRetentionDays,
+      });
+  }
+
+  // Undefined unless imageBuilderConfig.enabled (existing instances are not launched from an image)
+  private createImageBuilderStack(): ImageBuilderStack | undefined {
+    const imageBuilderConfig = this.config.imageBuilderConfig;
+    if (!imageBuilderConfig?.enabled || this.config.instanceConfig.existingInstanceIds) {
+      return undefined;
+    }
+    const { stackName = 'ImageBuilderStack', enabled, buildInstanceType, ...goldenImageProps } = imageBuilderConfig;
+    return new ImageBuilderStack(
+      this.app,
+      stackName,
+      {
+        env: this.getEnv(),
+        stackName,
+        ...goldenImageProps,
+        amiType: this.config.instanceConfig.amiType,
+        serverType: this.config.instanceConfig.serverType,
+        buildInstanceType: buildInstanceType || this.config.instanceConfig.instanceType,
+        enclave: this.config.instanceConfig.enclave ? {
+          cpuCount: this.config.instanceConfig.enclave.cpuCount ?? DEFAULT_ENCLAVE_RESOURCES.cpuCount,
+          memoryMiB: this.config.instanceConfig.enclave.memoryMiB ?? DEFAULT_ENCLAVE_RESOURCES.memoryMiB,
+        } : undefined,
+      });
+  }
+
+  private hasMonitoringLogs(): boolean {
+    return !!this.config.monitoringConfig?.enabled && (this.config.monitoringConfig.logs ?? true);
+  }
+
+  private getDashboardName(): string {
+    return this.config.monitoringConfig?.dashboardName || this.config.monitoringConfig?.stackName || 'AcmneDashboard';
+  }
+
+  private createInstanceStack(roleStack: RoleStack, imageBuilderStack?: ImageBuilderStack): InstanceStack {
+    const stackName = this.config.instanceConfig.stackName || 'InstanceStack';
+    return new InstanceStack(
+      this.app,
+      stackName,
+      {
+        env: this.getEnv(),
+        stackName,
+        instanceProfile: roleStack.instanceProfile,
+        keyPairName: this.config.instanceConfig.keyPairName,
+        serverType: this.config.instanceConfig.serverType,
+        amiType: this.config.instanceConfig.amiType,
+        instanceType: this.config.instanceConfig.instanceType,
+        instanceName: this.config.instanceConfig.instanceName || 'AcmneInstance',
+        certificates: this.certificates,
+        encryptVolume: this.config.instanceConfig.encryptVolume,
+        allowSSHPort: this.config.instanceConfig.allowSSHPort,
+        vpc: this.config.instanceConfig.vpc,
+        networkAccess: this.config.instanceConfig.networkAccess,
+        deploymentMode: this.config.instanceConfig.deploymentMode,
+        fleet: this.config.instanceConfig.fleet,
+        dns: this.config.instanceConfig.dns,
+        tls: this.config.instanceConfig.tls,
+        enclave: this.config.instanceConfig.enclave,
+        trustedCaCertificates: this.trustedCaCertificates,
+        sessionPreferencesDocumentName: roleStack.sessionPreferencesDocumentName,
+        monitoringLogGroups: this.hasMonitoringLogs() ? EnclaveMonitoring.getLogGroupNames(this.getDashboardName()) : undefined,
+        existingInstanceIds: this.config.instanceConfig.existingInstanceIds,
+        hardening: this.config.instanceConfig.hardening,
+        // The golden image is read from its parameter on each deployment, and already has the packages
+        image: imageBuilderStack
+          ? { ssmParameterName: imageBuilderStack.goldenImage.parameterName, preinstalled: true }
+          : this.config.instanceConfig.image,
+        standalone: this.standalone,
+        instanceTypes: this.standalone ? this.getInstanceTypeChoices(imageBuilderStack) : undefined,
+        serverTypes: this.standalone ? this.getServerTypeChoices(imageBuilderStack) : undefined,
+      }
+    );
+  }
+
+  // InstanceType parameter: the instance types of the built-in table with the architecture of the configured one, passing its checks
+  private getInstanceTypeChoices(imageBuilderStack?: ImageBuilderStack): string[] {
+    const architecture = getInstanceTypeInfo(this.config.instanceConfig.instanceType)?.architecture;
+    // The golden image is built for one instance type
+    if (!architecture || imageBuilderStack) {
+      return [this.config.instanceConfig.instanceType];
+    }
+    return getInstanceTypeNames()
+      .filter(instanceType => getInstanceTypeInfo(instanceType)!.architecture === architecture)
+      .filter(instanceType => this.passesChecks('instanceConfig.instanceType', { instanceType }) && this.passesChecks('instanceConfig.enclave', { instanceType }));
+  }
+
+  // ServerType parameter: the registered server types passing the checks of the configuration (e.g. their number of certificates)
+  private getServerTypeChoices(imageBuilderStack?: ImageBuilderStack): string[] {
+    // A preinstalled image only has the configured web server
+    if (imageBuilderStack || this.config.instanceConfig.image?.preinstalled) {
+      return [this.config.instanceConfig.serverType];
+    }
+    return getServerTypeNames().filter(serverType => this.passesChecks('instanceConfig', { serverType }));
+  }
+
+  // No error at the given path (or below it) with these instance settings
+  private passesChecks(path: string, instanceConfig: Partial<NitroEnclavesAcmStreamlineConfig['instanceConfig']>): boolean {
+    const report = ConfigValidator.validate({ ...this.config, instanceConfig: { ...this.config.instanceConfig, ...instanceConfig } });
+    return !report.errors.some(issue => issue.path === path || issue.path.startsWith(`${path}.`));
+  }
+
+  private getPrivateCaProps({ mode, pcaArn, ...privateCaProps }: PrivateCaConfig): EnclavePrivateCaProps {
+    return privateCaProps;
+  }
+
+  private getEnv(): { account: string; region: string } {
+    return {
+      account: this.config.account,
+      region: this.config.region
+    };
+  }
+
+  public deploy(): void {
+    const certificateStack = this.createCertificateStack();
+    const roleStack = this.createRoleStack();
+    const monitoringStack = this.createMonitoringStack();
+    const imageBuilderStack = this.createImageBuilderStack();
+    const instanceStack = this.createInstanceStack(roleStack, imageBuilderStack);
+    instanceStack.addDependency(roleStack);
+    // The imports of a standalone template are not references: the stacks exporting the values are deployed first
+    if (this.standalone) {
+      for (const stack of [roleStack, monitoringStack, instanceStack]) {
+        if (certificateStack) {
+          stack?.addDependency(certificateStack);
+        }
+      }
+      monitoringStack?.addDependency(roleStack);
+    }
+    // The log groups exist before the CloudWatch agent starts shipping logs
+    if (monitoringStack) {
+      instanceStack.addDependency(monitoringStack);
+    }
+    // The image parameter is written once the first image is built
+    if (imageBuilderStack) {
+      instanceStack.addDependency(imageBuilderStack);
+    }
+
+    // Same tag set and compliance checks on every stack of the setup (the stacks being destroyed are not checked)
+    const complianceConfig = this.config.complianceConfig || {};
+    if ((complianceConfig.enabled ?? true) && !this.isDestroySubcommand) {
+      this.complianceChecker = new ComplianceChecker(complianceConfig);
+    }
+    for (const stack of [certificateStack, roleStack, monitoringStack, imageBuilderStack, instanceStack]) {
+      if (stack) {
+        applySetupTags(stack, this.config.instanceConfig.hardening?.tags);
+        if (this.complianceChecker) {
+          cdk.Aspects.of(stack).add(this.complianceChecker, { priority: cdk.AspectPriority.READONLY });
+        }
+      }
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import * as cdk from 'aws-cdk-lib';
 import * as iam from 'aws-cdk-lib/aws-iam';
-import * as ec2 from 'aws-cdk-lib/aws-ec2';
 
 import { Construct } from 'constructs';
+import { EnclaveRole, EnclaveRoleProps } from './constructs/role';
+import { EnclaveSessionManager } from './constructs/session-manager';
+import { addCertificateArnParameter, addDomainNameParameter, addSharedOutput } from './export/standalone-template';
 
 /*
     Step 3 - Create the ACM role: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#create-role
@@ -10,64 +12,74 @@ import { Construct } from 'constructs';
     Step 5 - Grant the ACM role permission to access the certificate and encryption key: https://docs.aws.amazon.com/enclaves/latest/user/install-acm.html#add-policy
 */
 
-interface RoleStackProps extends cdk.StackProps {
-    roleName?: string;
-    certificateArn: string;
+export interface RoleStackProps extends cdk.StackProps, EnclaveRoleProps {
+    // Standalone template (setup-tool export): the values read by the other stacks are named exports
+    standalone?: boolean;
+    // The first certificate (the primary one) is an existing certificate: its ARN and domain name are parameters of the standalone template
+    existingCertificate?: { domainName: string };
 }
 
 export class RoleStack extends cdk.Stack {
-    public readonly instanceProfile: iam.InstanceProfile;
-
-    constructor(scope: Construct, id: string, props?: RoleStackProps) {
+    public readonly role: iam.IRole;
+    // Imported from a standalone template
+    public readonly instanceProfile: iam.IInstanceProfile;
+    public readonly sessionManager?: EnclaveSessionManager;
+    public readonly sessionPreferencesDocumentName?: string;
+    // Existing primary certificate of a standalone template, imported from its parameters
+    public readonly certificateArn?: string;
+    public readonly domainName?: string;
+
+    constructor(scope: Construct, id: string, props: RoleStackProps) {
         super(scope, id, props);
 
-        // Step 3 - Create the ACM role
-        const role = new iam.Role(this, props?.roleName!, {
-            assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
-        });
-
-        // Step 4 - Associate the certificate with the ACM role
-        const enclaveCertificateIamRoleAssociation = new ec2.CfnEnclaveCertificateIamRoleAssociation(this, `EnclaveCertificateIamRoleAssociation-${props?.roleName}`, {
-            certificateArn: `${props?.certificateArn!}`,
-            roleArn: `${role.roleArn}`,
-        });
-
-        // Step 5 - Grant the ACM role permission to access the certificate and encryption key
-        role.addToPolicy(new iam.PolicyStatement({
-            effect: iam.Effect.ALLOW,
-            actions: ['s3:GetObject'],
-            resources: [`arn:aws:s3:::${enclaveCertificateIamRoleAssociation.attrCertificateS3BucketName}/*`],
-        }));
-
-        role.addToPolicy(new iam.PolicyStatement({
-            sid: 'VisualEditor0',
-            effect: iam.Effect.ALLOW,
-            actions: ['kms:Decrypt'],
-            resources: [`arn:aws:kms:${props?.env?.region}:*:key/${enclaveCertificateIamRoleAssociation.attrEncryptionKmsKeyId}`],
-        }));
-
-        role.addToPolicy(new iam.PolicyStatement({
-            effect: iam.Effect.ALLOW,
-            actions: ['iam:GetRole'],
-            resources: [`${role.roleArn}`],
-        }));
+        const certificateArns = [...props.certificateArns];
+        if (props.standalone && props.existingCertificate) {
+            certificateArns[0] = addCertificateArnParameter(this, certificateArns[0]);
+        }
+        const enclaveRole = new EnclaveRole(this, 'EnclaveRole', { ...props, certificateArns });
 
-        // Create Instance Profile from the role
-        const instanceProfile = new iam.InstanceProfile(this, `AcmneInstanceProfile`, { role: role });
-
-        // Populate instanceProfile to pass it to external stacks
-        this.instanceProfile = instanceProfile;
+        // Populate role and instanceProfile to pass them to external stacks
+        this.role = enclaveRole.role;
+        this.instanceProfile = enclaveRole.instanceProfile;
 
         // Role outputs
-        new cdk.CfnOutput(this, 'ACMRoleName', { value: role.roleName });
-        new cdk.CfnOutput(this, 'ACMRoleArn', { value: role.roleArn });
-
-        // ACM Certificate / Role association outputs
-        new cdk.CfnOutput(this, 'CertificateS3BucketName', { value: enclaveCertificateIamRoleAssociation.attrCertificateS3BucketName });
-        new cdk.CfnOutput(this, 'CertificateS3ObjectKey', { value: enclaveCertificateIamRoleAssociation.attrCertificateS3ObjectKey });
-        new cdk.CfnOutput(this, 'EncryptionKmsKeyId', { value: enclaveCertificateIamRoleAssociation.attrEncryptionKmsKeyId });
+        new cdk.CfnOutput(this, 'ACMRoleName', { value: this.role.roleName });
+        const roleArn = addSharedOutput(this, 'ACMRoleArn', this.role.roleArn, props.standalone);
+        if (props.standalone) {
+            this.role = iam.Role.fromRoleArn(this, 'ExportedRole', roleArn, { mutable: true });
+            this.instanceProfile = iam.InstanceProfile.fromInstanceProfileAttributes(this, 'ExportedInstanceProfile', {
+                instanceProfileArn: addSharedOutput(this, 'InstanceProfileArn', enclaveRole.instanceProfile.instanceProfileArn, true),
+                role: this.role,
+            });
+        }
+
+        // Session Manager outputs
+        this.sessionManager = enclaveRole.sessionManager;
+        if (this.sessionManager) {
+            this.sessionPreferencesDocumentName = addSharedOutput(this, 'SessionPreferencesDocumentName', this.sessionManager.preferencesDocumentName, props.standalone);
+            if (this.sessionManager.encryptionKey) {
+                new cdk.CfnOutput(this, 'SessionEncryptionKmsKeyArn', { value: this.sessionManager.encryptionKey.keyArn });
+            }
+            if (this.sessionManager.logBucket) {
+                new cdk.CfnOutput(this, 'SessionLogBucketName', { value: this.sessionManager.logBucket.bucketName });
+            }
+            if (this.sessionManager.logGroup) {
+                new cdk.CfnOutput(this, 'SessionLogGroupName', { value: this.sessionManager.logGroup.logGroupName });
+            }
+        }
+
+        // Existing primary certificate outputs
+        if (props.standalone && props.existingCertificate) {
+            this.certificateArn = addSharedOutput(this, 'CertificateArn', certificateArns[0], true);
+            this.domainName = addSharedOutput(this, 'DomainName', addDomainNameParameter(this, props.existingCertificate.domainName), true);
+        }
+
+        // ACM Certificate / Role association outputs (suffixed from the second certificate on)
+        enclaveRole.certificateAssociations.forEach((enclaveCertificateIamRoleAssociation, index) => {
+            const suffix = index === 0 ? '' : `${index + 1}`;
+            new cdk.CfnOutput(this, `CertificateS3BucketName${suffix}`, { value: enclaveCertificateIamRoleAssociation.attrCertificateS3BucketName });
+            new cdk.CfnOutput(this, `CertificateS3ObjectKey${suffix}`, { value: enclaveCertificateIamRoleAssociation.attrCertificateS3ObjectKey });
+            new cdk.CfnOutput(this, `EncryptionKmsKeyId${suffix}`, { value: enclaveCertificateIamRoleAssociation.attrEncryptionKmsKeyId });
+        });
     }
 }
-
-
-
@@ -0,0 +1,22 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { NitroEnclavesAcmStreamlineConfig } from '../config/types';
+import { NitroEnclavesAcmStreamline } from './nitro-enclaves-acm-streamline';
+
+export interface SetupStageProps extends cdk.StageProps {
+  config: NitroEnclavesAcmStreamlineConfig;
+  isDestroySubcommand?: boolean;
+}
+
+// Stacks of a setup in one environment of a multi-environment config file, selected by the CDK CLI as <stage>/<stackName>
+export class SetupStage extends cdk.Stage {
+  public readonly streamline: NitroEnclavesAcmStreamline;
+
+  constructor(scope: Construct, id: string, props: SetupStageProps) {
+    const { config, isDestroySubcommand, ...stageProps } = props;
+    super(scope, id, { env: { account: config.account, region: config.region }, ...stageProps });
+
+    this.streamline = new NitroEnclavesAcmStreamline(config, isDestroySubcommand, this);
+    this.streamline.deploy();
+  }
+}
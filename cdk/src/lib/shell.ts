@@ -0,0 +1,13 @@
+import * as path from 'path';
+
+// Argument of a shell command line, quoted when it contains special characters
+export const quoteShellArg = (arg: string): string => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
+// Command running a TypeScript entry point with the ts-node and tsconfig.json of the project, wherever it is run from
+// (npx would use the ts-node of the current directory, or download the latest one)
+export const getTsNodeCommand = (projectDir: string, args: string[]): string => [
+  path.join(projectDir, 'node_modules', '.bin', 'ts-node'),
+  '-P', path.join(projectDir, 'tsconfig.json'),
+  '--prefer-ts-exts',
+  ...args,
+].map(quoteShellArg).join(' ');
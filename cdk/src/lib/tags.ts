@@ -0,0 +1,27 @@
+import * as cdk from 'aws-cdk-lib';
+import { IConstruct } from 'constructs';
+import { TagsConfig } from '../config/types';
+
+// Tag keys of the TagsConfig fields, the additional tags keep their own keys
+export const SETUP_TAG_KEYS = {
+  setupName: 'SetupName',
+  owner: 'Owner',
+  costCenter: 'CostCenter',
+};
+
+export const getSetupTags = (tags: TagsConfig = {}): { [key: string]: string } => {
+  const result: { [key: string]: string } = {};
+  for (const [field, key] of Object.entries(SETUP_TAG_KEYS) as [keyof typeof SETUP_TAG_KEYS, string][]) {
+    if (tags[field]) {
+      result[key] = tags[field]!;
+    }
+  }
+  return { ...result, ...tags.additionalTags };
+};
+
+// Tags every taggable resource of the scope (instances launched by an Auto Scaling group and their volumes included)
+export const applySetupTags = (scope: IConstruct, tags: TagsConfig | undefined): void => {
+  for (const [key, value] of Object.entries(getSetupTags(tags))) {
+    cdk.Tags.of(scope).add(key, value);
+  }
+};
@@ -0,0 +1,68 @@
+import { stringify } from 'yaml';
+import { DEFAULT_ENCLAVE_RESOURCES } from '../../config/instance-types';
+
+/*
+  /etc/nitro_enclaves/acm.yaml of the ACM for Nitro Enclaves service: https://docs.aws.amazon.com/enclaves/latest/user/nitro-enclave-refapp.html
+  One PKCS#11 token per certificate, each written to the web server configuration by the service.
+*/
+
+export const ACM_CONFIG_PATH = '/etc/nitro_enclaves/acm.yaml';
+// Interval of the service between two syncs of its tokens
+export const DEFAULT_SYNC_INTERVAL_SECS = 600;
+
+// vCPUs and memory of the enclave run by the service
+export interface EnclaveResources {
+  cpuCount: number;
+  memoryMiB: number;
+}
+
+export interface AcmToken {
+  label: string;
+  certificateArn: string;
+  // NginxStanza: ssl_certificate(_key) stanza included by a server block
+  // Conf: httpd configuration file whose SSLCertificateFile/SSLCertificateKeyFile are rewritten with pkcs11 URIs
+  // Default: none, the server opens the token itself and the service restarts nothing
+  target?: {
+    type: 'NginxStanza' | 'Conf';
+    path: string;
+    user: string;
+  };
+  refreshIntervalSecs?: number; // Default: 43200
+}
+
+export interface AcmConfig {
+  // Service restarted by the ACM service after it writes the token targets (e.g. after a certificate renewal).
+  // Required with targets. Default: not written, for tokens without target (the service restarts nothing)
+  service?: 'nginx' | 'httpd';
+  // Start the service if it is not running. Default: true with a service, false otherwise
+  forceStart?: boolean;
+  reloadWaitMs?: number; // Default: 1000
+  syncIntervalSecs?: number; // Default: DEFAULT_SYNC_INTERVAL_SECS
+  // Required by the service, same default as the allocator: DEFAULT_ENCLAVE_RESOURCES
+  enclave?: EnclaveResources;
+  tokens: AcmToken[];
+}
+
+// acm.yaml document, with the keys expected by the service (src/vtok_agent/src/config.rs)
+export const toAcmDocument = (config: AcmConfig): object => {
+  const enclave = config.enclave || DEFAULT_ENCLAVE_RESOURCES;
+  return {
+    enclave: { cpu_count: enclave.cpuCount, memory_mib: enclave.memoryMiB },
+    options: {
+      ...(config.service ? { service: config.service } : {}),
+      force_start: config.forceStart ?? config.service !== undefined,
+      reload_wait_ms: config.reloadWaitMs ?? 1000,
+      sync_interval_secs: config.syncIntervalSecs ?? DEFAULT_SYNC_INTERVAL_SECS,
+    },
+    tokens: config.tokens.map(token => ({
+      label: token.label,
+      source: { Acm: { certificate_arn: token.certificateArn } },
+      ...(token.target ? { target: { [token.target.type]: { path: token.target.path, user: token.target.user } } } : {}),
+      refresh_interval_secs: token.refreshIntervalSecs ?? 43200,
+    })),
+  };
+};
+
+// Strings are double quoted and never folded, so that CDK tokens (e.g. certificate ARNs) are kept intact
+export const renderAcmConfig = (config: AcmConfig): string =>
+  `---\n${stringify(toAcmDocument(config), { lineWidth: 0, defaultStringType: 'QUOTE_DOUBLE', defaultKeyType: 'PLAIN' })}`;
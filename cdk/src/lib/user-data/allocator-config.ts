@@ -0,0 +1,12 @@
+import { stringify } from 'yaml';
+import { EnclaveResources } from './acm-config';
+
+/*
+  /etc/nitro_enclaves/allocator.yaml: resources reserved for the enclaves at boot by the Nitro Enclaves allocator service.
+  They must cover the enclave of the ACM for Nitro Enclaves service.
+*/
+
+export const ALLOCATOR_CONFIG_PATH = '/etc/nitro_enclaves/allocator.yaml';
+
+export const renderAllocatorConfig = (resources: EnclaveResources): string =>
+  `---\n${stringify({ memory_mib: resources.memoryMiB, cpu_count: resources.cpuCount })}`;
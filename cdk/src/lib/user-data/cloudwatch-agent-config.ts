@@ -0,0 +1,38 @@
+/*
+  CloudWatch agent shipping the logs of the setup: https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch-Agent-Configuration-File-Details.html
+  The log groups are created (with their retention) by the MonitoringStack, one log stream per instance.
+*/
+
+export const CLOUDWATCH_AGENT_CONFIG_PATH = '/opt/aws/amazon-cloudwatch-agent/etc/acmne.json';
+// The ACM service logs to the journal, exported to this file for the agent
+export const ACM_SERVICE_LOG_PATH = '/var/log/nitro-enclaves-acm.log';
+// ACMNE_OK / ACMNE_FAIL lines written by the health check timer
+export const HEALTH_LOG_PATH = '/var/log/acmne-health.log';
+
+export interface MonitoringLogGroups {
+  service: string;
+  webServer: string;
+  health: string;
+}
+
+export const renderCloudWatchAgentConfig = (logGroups: MonitoringLogGroups, webServerLogFiles: string[]): string => {
+  const collect = (filePath: string, logGroupName: string) => ({
+    file_path: filePath,
+    log_group_name: logGroupName,
+    log_stream_name: '{instance_id}',
+  });
+  return JSON.stringify({
+    agent: { run_as_user: 'root' },
+    logs: {
+      logs_collected: {
+        files: {
+          collect_list: [
+            collect(ACM_SERVICE_LOG_PATH, logGroups.service),
+            collect(HEALTH_LOG_PATH, logGroups.health),
+            ...webServerLogFiles.map(filePath => collect(filePath, logGroups.webServer)),
+          ],
+        },
+      },
+    },
+  }, null, 2);
+};
@@ -0,0 +1,9 @@
+// Shell command writing a file (quoted heredoc: the content is not expanded)
+export const writeFileCommands = (path: string, content: string): string[] =>
+  [`sudo tee ${path} > /dev/null << 'EOF'`, content.trimEnd(), 'EOF'];
+
+export const installPackagesCommand = (amiType: 'AL2' | 'AL2023', packages: string[]): string =>
+  `sudo ${amiType === 'AL2' ? 'yum' : 'dnf'} install ${packages.join(' ')} -y`;
+
+// Suffix of the token, stanza and configuration file names of the index-th certificate ('', '-2', '-3', ...)
+export const getCertificateSuffix = (index: number): string => index === 0 ? '' : `-${index + 1}`;
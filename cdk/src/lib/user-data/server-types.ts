@@ -0,0 +1,226 @@
+import { TlsConfig } from '../../config/types';
+import { ACM_CONFIG_PATH, AcmConfig, AcmToken } from './acm-config';
+import { getCertificateSuffix, installPackagesCommand, writeFileCommands } from './commands';
+import {
+  renderHaproxyConfig,
+  renderHttpdVirtualHost,
+  renderNginxServerBlock,
+  renderSunPkcs11Config,
+  renderTomcatConnector,
+  renderTomcatHstsFilter,
+  VirtualServer,
+} from './web-server-config';
+
+/*
+  Server type registry: each type contributes its packages, its configuration and how it picks up refreshed tokens.
+  NGINX and httpd are restarted by the ACM service itself, after it writes their token targets. Tomcat opens its token
+  (SunPKCS11 keystore) with a PIN set on the instance and has no target: a timer lists the token and restarts Tomcat when it changes.
+*/
+
+export interface ServerTypeContext {
+  amiType: 'AL2' | 'AL2023';
+  httpsPort: number;
+  tls?: TlsConfig;
+  // One per certificate, the first one is the default server
+  servers: VirtualServer[];
+}
+
+export interface ServerTypeProfile {
+  // Shown in the CLI help
+  description: string;
+  // ACM token labels: <tokenPrefix>-acm-token, <tokenPrefix>-acm-token-2, ...
+  tokenPrefix: string;
+  // Default: no limit
+  maxCertificates?: number;
+  // Run before the ACM for Nitro Enclaves package is installed
+  getInstallCommands(amiType: ServerTypeContext['amiType']): string[];
+  // File written by the ACM service for the token of the index-th certificate, after which it restarts reloadService.
+  // Default: none, the server opens the token itself
+  getTokenTarget?(index: number): AcmToken['target'];
+  // Run before the ACM service is started
+  getConfigureCommands(context: ServerTypeContext): string[];
+  // Restarted by the ACM service after it writes the token targets, required with getTokenTarget. Default: none
+  reloadService?: AcmConfig['service'];
+  // Run as root when a token target changes, for servers the ACM service cannot restart
+  getReloadHook?(context: ServerTypeContext): string[];
+  // Prints the tokens, for servers without token targets: the reload hook runs when the output changes (checked periodically)
+  getTokenStateCommand?(context: ServerTypeContext): string;
+  // Shipped to CloudWatch Logs when monitoring is enabled (wildcards allowed)
+  getLogFiles?(amiType: ServerTypeContext['amiType']): string[];
+}
+
+const nginxInstallCommands = (amiType: ServerTypeContext['amiType']): string[] => amiType === 'AL2'
+  ? ['sudo amazon-linux-extras enable nginx1', 'sudo amazon-linux-extras install nginx1 -y']
+  : [installPackagesCommand(amiType, ['nginx'])];
+
+const nginxConfigureCommands = (context: ServerTypeContext): string[] => [
+  '# Load the pkcs11 OpenSSL engine in /etc/nginx/nginx.conf',
+  `grep -q '^ssl_engine pkcs11;' /etc/nginx/nginx.conf || sudo sed -i '/pid \\/run\\/nginx\\.pid;/a\\ssl_engine pkcs11;' /etc/nginx/nginx.conf`,
+  ...(context.amiType === 'AL2023' ? [
+    '# Edit the OpenSSL configuration /etc/pki/tls/openssl.cnf',
+    `grep -q '^\\[engine_section\\]' /etc/pki/tls/openssl.cnf || sudo sed -i '/ssl_conf = ssl_module/a\\engines = engine_section\\n\\n[engine_section]\\npkcs11 = pkcs11_section\\n\\n[ pkcs11_section ]\\nengine_id = pkcs11\\ninit = 1' /etc/pki/tls/openssl.cnf`,
+  ] : []),
+  '# Server blocks, one per certificate (replacing those of a previous configuration)',
+  'sudo rm -f /etc/nginx/conf.d/nginx-acm*.conf',
+  ...context.servers.flatMap((server, index) =>
+    writeFileCommands(`/etc/nginx/conf.d/nginx-acm${getCertificateSuffix(index)}.conf`, renderNginxServerBlock(server, context.tls))),
+];
+
+const nginxTokenTarget = (index: number): AcmToken['target'] =>
+  ({ type: 'NginxStanza', path: `/etc/pki/nginx/nginx-acm${getCertificateSuffix(index)}.conf`, user: 'nginx' });
+
+const nginxLogFiles = (): string[] => ['/var/log/nginx/access.log', '/var/log/nginx/error.log'];
+
+const NGINX: ServerTypeProfile = {
+  description: 'NGINX with the pkcs11 OpenSSL engine',
+  tokenPrefix: 'nginx',
+  reloadService: 'nginx',
+  getInstallCommands: nginxInstallCommands,
+  getTokenTarget: nginxTokenTarget,
+  getConfigureCommands: nginxConfigureCommands,
+  getLogFiles: nginxLogFiles,
+};
+
+const APACHE: ServerTypeProfile = {
+  description: 'Apache httpd with the pkcs11 crypto device',
+  tokenPrefix: 'httpd',
+  reloadService: 'httpd',
+  getInstallCommands: amiType => [installPackagesCommand(amiType, ['httpd', 'mod_ssl'])],
+  getTokenTarget: index => ({ type: 'Conf', path: `/etc/httpd/conf.d/httpd-acm${getCertificateSuffix(index)}.conf`, user: 'apache' }),
+  getConfigureCommands: context => [
+    '# Replace the default TLS configuration (or a previous one) with one VirtualHost per certificate',
+    '[ ! -e /etc/httpd/conf.d/ssl.conf ] || sudo mv /etc/httpd/conf.d/ssl.conf /etc/httpd/conf.d/ssl.conf-bkp',
+    'sudo rm -f /etc/httpd/conf.d/httpd-acm*.conf',
+    ...context.servers.flatMap((server, index) =>
+      writeFileCommands(server.tokenPath!, renderHttpdVirtualHost(server, context.tls, index === 0))),
+  ],
+  getLogFiles: () => ['/var/log/httpd/access_log', '/var/log/httpd/error_log'],
+};
+
+// NGINX terminates TLS on the loopback, HAProxy (tcp mode) listens on the HTTPS port
+const haproxyBackendPort = (httpsPort: number): number => httpsPort === 10443 ? 10444 : 10443;
+
+const HAPROXY: ServerTypeProfile = {
+  description: 'HAProxy in front of NGINX (TLS passthrough, NGINX holds the enclave keys)',
+  tokenPrefix: 'nginx',
+  reloadService: 'nginx',
+  getInstallCommands: amiType => [...nginxInstallCommands(amiType), installPackagesCommand(amiType, ['haproxy'])],
+  getTokenTarget: nginxTokenTarget,
+  getConfigureCommands: context => {
+    const backendPort = haproxyBackendPort(context.httpsPort);
+    return [
+      ...nginxConfigureCommands({
+        ...context,
+        servers: context.servers.map(server => ({ ...server, httpsPort: backendPort, behindLocalProxy: true })),
+      }),
+      '# Forward TLS to NGINX, with the PROXY protocol for the client addresses',
+      ...writeFileCommands('/etc/haproxy/haproxy.cfg', renderHaproxyConfig(context.httpsPort, backendPort)),
+      'sudo systemctl enable haproxy',
+      'sudo systemctl restart haproxy',
+    ];
+  },
+  // HAProxy logs to the journal, the requests are logged by NGINX
+  getLogFiles: nginxLogFiles,
+};
+
+// Tomcat 9 packages, AL2: amazon-linux-extras topic tomcat9
+const TOMCAT_PACKAGES = {
+  AL2: { service: 'tomcat', confDir: '/etc/tomcat', configFile: '/etc/tomcat/tomcat.conf' },
+  AL2023: { service: 'tomcat9', confDir: '/etc/tomcat9', configFile: '/etc/tomcat9/tomcat9.conf' },
+};
+const CORRETTO_HOME = '/usr/lib/jvm/java-17-amazon-corretto';
+const TOMCAT_PKCS11_PROVIDER = 'acmne';
+const TOMCAT_TOKEN_LABEL = 'tomcat-acm-token';
+const TOMCAT_PIN_PATH = '/etc/pki/tomcat/acm-token.pin';
+const TOMCAT_PIN_PROPERTY = 'acmne.token.pin';
+const TOMCAT_WAIT_TOKEN_PATH = '/usr/local/bin/acmne-tomcat-wait-token';
+
+// Elements inserted in the Tomcat XML files, between markers so that a new configuration replaces them
+const withTomcatMarkers = (xml: string): string => ['    <!-- BEGIN acmne -->', xml.trimEnd(), '    <!-- END acmne -->'].join('\n');
+const removeTomcatMarkedCommand = (path: string): string => `sudo sed -i '/<!-- BEGIN acmne -->/,/<!-- END acmne -->/d' ${path}`;
+
+// No token target, so the ACM service neither writes nor restarts anything for Tomcat: the token is created with a PIN generated
+// on the instance (acm.yaml), which Tomcat reads from catalina.properties. Tomcat loads the keystore when it starts,
+// so the reload hook restarts it once the listed certificates of the token change (e.g. after a renewal)
+const TOMCAT: ServerTypeProfile = {
+  description: 'Apache Tomcat on Amazon Corretto 17, with a SunPKCS11 keystore (single certificate)',
+  tokenPrefix: 'tomcat',
+  maxCertificates: 1,
+  getInstallCommands: amiType => amiType === 'AL2'
+    ? [installPackagesCommand(amiType, ['java-17-amazon-corretto-headless']), 'sudo amazon-linux-extras install tomcat9 -y']
+    : [installPackagesCommand(amiType, ['java-17-amazon-corretto-headless', 'tomcat9'])],
+  getConfigureCommands: context => {
+    const { service, confDir, configFile } = TOMCAT_PACKAGES[context.amiType];
+    const connectorPath = '/etc/pki/tomcat/acm-connector.xml';
+    const hstsFilterPath = '/etc/pki/tomcat/acm-hsts-filter.xml';
+    return [
+      '# Register the SunPKCS11 provider of the enclave token in Corretto',
+      'sudo mkdir -p /etc/pki/tomcat',
+      ...writeFileCommands('/etc/pki/tomcat/acm-pkcs11.conf', renderSunPkcs11Config(TOMCAT_PKCS11_PROVIDER)),
+      `sudo sed -i 's|^security.provider.12=SunPKCS11$|security.provider.12=SunPKCS11 /etc/pki/tomcat/acm-pkcs11.conf|' ${CORRETTO_HOME}/conf/security/java.security`,
+      `grep -q '^JAVA_HOME=' ${configFile} || echo 'JAVA_HOME="${CORRETTO_HOME}"' | sudo tee -a ${configFile} > /dev/null`,
+      '# Token PIN, generated once: the ACM service creates the token with it, Tomcat opens the keystore with it',
+      `sudo test -s ${TOMCAT_PIN_PATH} || openssl rand -hex 16 | sudo tee ${TOMCAT_PIN_PATH} > /dev/null`,
+      `sudo chmod 600 ${TOMCAT_PIN_PATH} ${ACM_CONFIG_PATH}`,
+      `pin=$(sudo cat ${TOMCAT_PIN_PATH})`,
+      `sudo sed -i "/^  - label: \\"${TOMCAT_TOKEN_LABEL}\\"\$/a\\    pin: \\"$pin\\"" ${ACM_CONFIG_PATH}`,
+      `sudo sed -i '/^${TOMCAT_PIN_PROPERTY.replace(/\./g, '\\.')}=/d' ${confDir}/catalina.properties`,
+      `echo "${TOMCAT_PIN_PROPERTY}=$pin" | sudo tee -a ${confDir}/catalina.properties > /dev/null`,
+      '# Started (and stopped) with the ACM service, once it has added the token',
+      ...writeFileCommands(TOMCAT_WAIT_TOKEN_PATH, [
+        '#!/bin/bash',
+        'for attempt in $(seq 60); do',
+        `  p11-kit list-modules 2> /dev/null | grep -q 'token: ${TOMCAT_TOKEN_LABEL}$' && exit 0`,
+        '  sleep 5',
+        'done',
+        `echo 'Token ${TOMCAT_TOKEN_LABEL} not found' >&2`,
+        'exit 1',
+      ].join('\n')),
+      `sudo chmod 755 ${TOMCAT_WAIT_TOKEN_PATH}`,
+      `sudo mkdir -p /etc/systemd/system/${service}.service.d /etc/systemd/system/nitro-enclaves-acm.service.d`,
+      ...writeFileCommands(`/etc/systemd/system/${service}.service.d/acmne.conf`, [
+        '[Unit]',
+        'After=nitro-enclaves-acm.service',
+        'PartOf=nitro-enclaves-acm.service',
+        '',
+        '[Service]',
+        '# Allow Tomcat to listen on ports below 1024',
+        'AmbientCapabilities=CAP_NET_BIND_SERVICE',
+        `ExecStartPre=${TOMCAT_WAIT_TOKEN_PATH}`,
+        'TimeoutStartSec=330',
+      ].join('\n')),
+      ...writeFileCommands('/etc/systemd/system/nitro-enclaves-acm.service.d/acmne-tomcat.conf', `[Unit]\nWants=${service}.service`),
+      '# HTTPS connector, inserted before </Service> in server.xml (replacing the one of a previous configuration)',
+      ...writeFileCommands(connectorPath, withTomcatMarkers(renderTomcatConnector(context.httpsPort, TOMCAT_PKCS11_PROVIDER, TOMCAT_PIN_PROPERTY, context.tls))),
+      removeTomcatMarkedCommand(`${confDir}/server.xml`),
+      `sudo sed -i '/<\\/Service>/e cat ${connectorPath}' ${confDir}/server.xml`,
+      removeTomcatMarkedCommand(`${confDir}/web.xml`),
+      ...(context.tls?.hstsMaxAgeSeconds !== undefined ? [
+        ...writeFileCommands(hstsFilterPath, withTomcatMarkers(renderTomcatHstsFilter(context.tls.hstsMaxAgeSeconds))),
+        `sudo sed -i '/<\\/web-app>/e cat ${hstsFilterPath}' ${confDir}/web.xml`,
+      ] : []),
+      'sudo systemctl daemon-reload',
+      `sudo systemctl enable ${service}`,
+    ];
+  },
+  getReloadHook: context => [`systemctl try-restart ${TOMCAT_PACKAGES[context.amiType].service}`],
+  getTokenStateCommand: () => `${CORRETTO_HOME}/bin/keytool -list -rfc -keystore NONE -storetype PKCS11 `
+    + `-providername SunPKCS11-${TOMCAT_PKCS11_PROVIDER} -storepass "$(cat ${TOMCAT_PIN_PATH})"`,
+  getLogFiles: amiType => [`/var/log/${TOMCAT_PACKAGES[amiType].service}/catalina*.log`],
+};
+
+const SERVER_TYPES = new Map<string, ServerTypeProfile>([
+  ['NGINX', NGINX],
+  ['APACHE', APACHE],
+  ['TOMCAT', TOMCAT],
+  ['HAPROXY', HAPROXY],
+]);
+
+// Makes a custom server type available to the configuration (instanceConfig.serverType), the CLI and the validator
+export const registerServerType = (name: string, profile: ServerTypeProfile): void => {
+  SERVER_TYPES.set(name, profile);
+};
+
+export const getServerType = (name?: string): ServerTypeProfile | undefined => name ? SERVER_TYPES.get(name) : undefined;
+
+export const getServerTypeNames = (): string[] => [...SERVER_TYPES.keys()];
@@ -0,0 +1,279 @@
+import { DEFAULT_ENCLAVE_RESOURCES } from '../../config/instance-types';
+import { TlsConfig } from '../../config/types';
+import { ACM_CONFIG_PATH, AcmToken, DEFAULT_SYNC_INTERVAL_SECS, EnclaveResources, renderAcmConfig } from './acm-config';
+import { ALLOCATOR_CONFIG_PATH, renderAllocatorConfig } from './allocator-config';
+import {
+  ACM_SERVICE_LOG_PATH,
+  CLOUDWATCH_AGENT_CONFIG_PATH,
+  HEALTH_LOG_PATH,
+  MonitoringLogGroups,
+  renderCloudWatchAgentConfig,
+} from './cloudwatch-agent-config';
+import { getCertificateSuffix, installPackagesCommand, writeFileCommands } from './commands';
+import { getServerType, getServerTypeNames, ServerTypeContext, ServerTypeProfile } from './server-types';
+
+/*
+  Step 2 - Install and configure ACM for Nitro Enclaves and the web server on the instance, as user data commands.
+  Rendering is pure (no file or AWS access): CDK tokens (e.g. certificate ARNs) are resolved when the template is synthesized.
+  The commands can be run again with other settings (Systems Manager configuration document): they replace the previous configuration.
+*/
+
+export interface UserDataCertificate {
+  certificateArn: string;
+  domainName: string;
+  subjectAlternativeNames?: string[];
+}
+
+export interface UserDataSettings {
+  amiType: 'AL2' | 'AL2023';
+  // Registered server type (NGINX, APACHE, TOMCAT, HAPROXY or a custom one)
+  serverType: string;
+  // The first certificate is configured in the default server block / VirtualHost, the others get their own
+  certificates: UserDataCertificate[];
+  httpsPort: number;
+  tls?: TlsConfig;
+  // Reserved by the allocator and used by the enclave of the ACM service. Default: 2 vCPUs and 512 MiB (DEFAULT_ENCLAVE_RESOURCES)
+  enclave?: EnclaveResources;
+  // PEM encoded CA certificates added to the trust store
+  trustedCaCertificates?: string[];
+  // Names resolved to 127.0.0.1 (e.g. private domains, to test the server locally)
+  localDomainNames?: string[];
+  // CloudWatch agent and health check, shipping their logs to the log groups of the MonitoringStack
+  monitoring?: { logGroups: MonitoringLogGroups };
+  // The web server and ACM for Nitro Enclaves are installed in the AMI (renderImageBuildCommands), only the configuration is applied
+  preinstalled?: boolean;
+}
+
+export const renderUserDataCommands = (settings: UserDataSettings): string[] => {
+  const serverType = getServerType(settings.serverType);
+  if (!serverType) {
+    throw new Error(`Unknown server type ${settings.serverType}, must be one of ${getServerTypeNames().join(', ')}`);
+  }
+  if (serverType.maxCertificates && settings.certificates.length > serverType.maxCertificates) {
+    throw new Error(`${settings.serverType} serves at most ${serverType.maxCertificates} certificate(s), got ${settings.certificates.length}`);
+  }
+
+  const targets = settings.certificates.map((_, index) => serverType.getTokenTarget?.(index));
+  const context: ServerTypeContext = {
+    amiType: settings.amiType,
+    httpsPort: settings.httpsPort,
+    tls: settings.tls,
+    servers: settings.certificates.map((certificate, index) => ({
+      serverNames: [certificate.domainName, ...(certificate.subjectAlternativeNames || [])],
+      httpsPort: settings.httpsPort,
+      isDefault: index === 0,
+      tokenPath: targets[index]?.path,
+    })),
+  };
+  const tokens: AcmToken[] = settings.certificates.map((certificate, index) => ({
+    label: `${serverType.tokenPrefix}-acm-token${getCertificateSuffix(index)}`,
+    certificateArn: certificate.certificateArn,
+    target: targets[index],
+  }));
+  const watchPaths = targets.flatMap(target => target ? [target.path] : []);
+  if (watchPaths.length > 0 && !serverType.reloadService) {
+    throw new Error(`${settings.serverType} writes token targets, but has no reloadService for the ACM service to restart`);
+  }
+  const stateCommand = watchPaths.length > 0 ? `sha256sum ${watchPaths.join(' ')}` : serverType.getTokenStateCommand?.(context);
+  const reloadHook = stateCommand ? serverType.getReloadHook?.(context) : undefined;
+
+  return [
+    ...(settings.preinstalled ? [] : [...getInstallCommands(settings.amiType, serverType), '']),
+    '# Reserve the enclave resources',
+    ...writeFileCommands(ALLOCATOR_CONFIG_PATH, renderAllocatorConfig(settings.enclave || DEFAULT_ENCLAVE_RESOURCES)),
+    '',
+    `# Generate the ${ACM_CONFIG_PATH} file`,
+    ...writeFileCommands(ACM_CONFIG_PATH, renderAcmConfig({ service: serverType.reloadService, enclave: settings.enclave, tokens })),
+    '',
+    ...serverType.getConfigureCommands(context),
+    '',
+    ...(reloadHook ? [...getReloadHookCommands(settings.serverType.toLowerCase(), stateCommand!, watchPaths, reloadHook), ''] : []),
+    ...getTrustCommands(settings),
+    '# (Re)start the ACM for Nitro Enclaves service, with the enclave resources of the allocator',
+    'sudo systemctl stop nitro-enclaves-acm.service',
+    'sudo systemctl try-restart nitro-enclaves-allocator.service',
+    'sudo systemctl start nitro-enclaves-acm.service',
+    'sudo systemctl enable nitro-enclaves-acm',
+    ...(settings.monitoring ? ['', ...getMonitoringCommands(settings, serverType, settings.monitoring.logGroups)] : []),
+  ];
+};
+
+// Systems Manager agent, and jq to extract the commands of the configuration document
+const BOOTSTRAP_PACKAGES = ['amazon-ssm-agent', 'jq'];
+
+export interface ImageBuildSettings {
+  amiType: 'AL2' | 'AL2023';
+  serverType: string;
+  // Default: 2 vCPUs and 512 MiB reserved
+  enclave?: EnclaveResources;
+}
+
+// Build commands of a golden image: the packages of the web server, ACM for Nitro Enclaves and the bootstrap (preinstalled),
+// and the allocator configuration. The instances launched from it only get their own settings (certificates, server blocks, trust store)
+export const renderImageBuildCommands = (settings: ImageBuildSettings): string[] => {
+  const serverType = getServerType(settings.serverType);
+  if (!serverType) {
+    throw new Error(`Unknown server type ${settings.serverType}, must be one of ${getServerTypeNames().join(', ')}`);
+  }
+  return [
+    ...getInstallCommands(settings.amiType, serverType),
+    installPackagesCommand(settings.amiType, BOOTSTRAP_PACKAGES),
+    '',
+    '# Reserve the enclave resources',
+    ...writeFileCommands(ALLOCATOR_CONFIG_PATH, renderAllocatorConfig(settings.enclave || DEFAULT_ENCLAVE_RESOURCES)),
+  ];
+};
+
+export interface BootstrapSettings {
+  amiType: 'AL2' | 'AL2023';
+  region: string;
+  // Command document holding the commands of renderUserDataCommands
+  documentName: string;
+  // The bootstrap packages are installed in the AMI (renderImageBuildCommands)
+  preinstalled?: boolean;
+}
+
+// User data of an instance configured by a Systems Manager document: the agent applies the later versions of the document,
+// the first one is run at boot so that the instance is configured when the user data completes
+export const renderBootstrapCommands = (settings: BootstrapSettings): string[] => [
+  '# Start the Systems Manager agent, which applies the configuration changes',
+  ...(settings.preinstalled ? [] : [installPackagesCommand(settings.amiType, BOOTSTRAP_PACKAGES)]),
+  'sudo systemctl enable --now amazon-ssm-agent',
+  '',
+  '# Run the latest version of the configuration document',
+  `aws ssm get-document --region ${settings.region} --name ${settings.documentName} --document-version '$LATEST' --query Content --output text \\`,
+  `  | jq -r '.mainSteps[].inputs.runCommand[]' > /tmp/acmne-configuration.sh`,
+  'sudo bash /tmp/acmne-configuration.sh',
+];
+
+const getInstallCommands = (amiType: UserDataSettings['amiType'], serverType: ServerTypeProfile): string[] => [
+  '# Install the web server and ACM for Nitro Enclaves',
+  ...(amiType === 'AL2' ? ['sudo amazon-linux-extras enable aws-nitro-enclaves-cli'] : []),
+  ...serverType.getInstallCommands(amiType),
+  installPackagesCommand(amiType, ['aws-nitro-enclaves-acm']),
+];
+
+// systemd unit running the hook when the tokens change: a path unit on the token targets (the ACM service rewrites them
+// on each sync), or a timer on the sync interval of the service for the servers that have none
+const getReloadHookCommands = (name: string, stateCommand: string, watchPaths: string[], hook: string[]): string[] => {
+  const unitName = `acmne-${name}-reload`;
+  const scriptPath = `/usr/local/bin/${unitName}`;
+  const statePath = `/var/lib/acmne/${name}-tokens.sha256`;
+  const triggerUnit = watchPaths.length > 0 ? 'path' : 'timer';
+  return [
+    `# Reload ${name} when ACM for Nitro Enclaves refreshes its tokens`,
+    ...writeFileCommands(scriptPath, [
+      '#!/bin/bash',
+      'set -o pipefail',
+      'mkdir -p /var/lib/acmne',
+      `${stateCommand} 2> /dev/null | sha256sum > ${statePath}.new || exit 0`,
+      `cmp -s ${statePath}.new ${statePath} && exit 0`,
+      `mv ${statePath}.new ${statePath}`,
+      ...hook,
+    ].join('\n')),
+    `sudo chmod 700 ${scriptPath}`,
+    '# Run the hook on the next token change, to apply a new configuration',
+    `sudo rm -f ${statePath}`,
+    ...writeFileCommands(`/etc/systemd/system/${unitName}.service`, [
+      '[Unit]',
+      `Description=Reload ${name} after an ACM for Nitro Enclaves token refresh`,
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=${scriptPath}`,
+    ].join('\n')),
+    ...writeFileCommands(`/etc/systemd/system/${unitName}.${triggerUnit}`, [
+      '[Unit]',
+      `Description=Watch the ACM for Nitro Enclaves tokens of ${name}`,
+      '',
+      ...(triggerUnit === 'path' ? [
+        '[Path]',
+        ...watchPaths.map(path => `PathChanged=${path}`),
+      ] : [
+        '[Timer]',
+        'OnActiveSec=5min',
+        `OnUnitActiveSec=${DEFAULT_SYNC_INTERVAL_SECS}s`,
+      ]),
+      '',
+      '[Install]',
+      'WantedBy=multi-user.target',
+    ].join('\n')),
+    'sudo systemctl daemon-reload',
+    `sudo systemctl enable --now ${unitName}.${triggerUnit}`,
+  ];
+};
+
+// Journal export of the ACM service, health check every minute and CloudWatch agent
+const getMonitoringCommands = (settings: UserDataSettings, serverType: ServerTypeProfile, logGroups: MonitoringLogGroups): string[] => {
+  const healthScriptPath = '/usr/local/bin/acmne-health-check';
+  return [
+    '# Ship the ACM service, web server and health check logs to CloudWatch Logs',
+    installPackagesCommand(settings.amiType, ['amazon-cloudwatch-agent']),
+    ...writeFileCommands('/etc/systemd/system/acmne-journal-export.service', [
+      '[Unit]',
+      'Description=Export the ACM for Nitro Enclaves journal for the CloudWatch agent',
+      'After=nitro-enclaves-acm.service',
+      '',
+      '[Service]',
+      `ExecStart=/bin/sh -c 'journalctl -u nitro-enclaves-acm.service -f -o short-iso >> ${ACM_SERVICE_LOG_PATH}'`,
+      'Restart=always',
+      '',
+      '[Install]',
+      'WantedBy=multi-user.target',
+    ].join('\n')),
+    '# Health check: ACM service active, enclave running and TLS handshake on the HTTPS port',
+    ...writeFileCommands(healthScriptPath, [
+      '#!/bin/bash',
+      'failures=()',
+      'systemctl is-active --quiet nitro-enclaves-acm.service || failures+=("nitro-enclaves-acm inactive")',
+      `nitro-cli describe-enclaves | grep -q '"State": "RUNNING"' || failures+=("no running enclave")`,
+      `curl -sk -o /dev/null --max-time 10 https://127.0.0.1:${settings.httpsPort}/ || failures+=("no TLS handshake on port ${settings.httpsPort}")`,
+      'if [ ${#failures[@]} -eq 0 ]; then status=ACMNE_OK; else status="ACMNE_FAIL $(IFS=,; echo "${failures[*]}")"; fi',
+      `echo "$(date -u +%Y-%m-%dT%H:%M:%SZ) $status" >> ${HEALTH_LOG_PATH}`,
+    ].join('\n')),
+    `sudo chmod 700 ${healthScriptPath}`,
+    ...writeFileCommands('/etc/systemd/system/acmne-health-check.service', [
+      '[Unit]',
+      'Description=ACM for Nitro Enclaves health check',
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=${healthScriptPath}`,
+    ].join('\n')),
+    ...writeFileCommands('/etc/systemd/system/acmne-health-check.timer', [
+      '[Unit]',
+      'Description=Run the ACM for Nitro Enclaves health check every minute',
+      '',
+      '[Timer]',
+      'OnBootSec=1min',
+      'OnUnitActiveSec=1min',
+      '',
+      '[Install]',
+      'WantedBy=timers.target',
+    ].join('\n')),
+    'sudo systemctl daemon-reload',
+    'sudo systemctl enable --now acmne-journal-export.service acmne-health-check.timer',
+    ...writeFileCommands(CLOUDWATCH_AGENT_CONFIG_PATH,
+      renderCloudWatchAgentConfig(logGroups, serverType.getLogFiles?.(settings.amiType) || [])),
+    `sudo /opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a fetch-config -m ec2 -s -c file:${CLOUDWATCH_AGENT_CONFIG_PATH}`,
+  ];
+};
+
+const getTrustCommands = (settings: UserDataSettings): string[] => {
+  const commands: string[] = [];
+  const trustedCaCertificates = settings.trustedCaCertificates || [];
+  if (trustedCaCertificates.length > 0) {
+    commands.push('# Add the private CA certificates to the trust store');
+    trustedCaCertificates.forEach((certificatePem, index) =>
+      commands.push(...writeFileCommands(`/etc/pki/ca-trust/source/anchors/acmne-private-ca-${index + 1}.pem`, certificatePem)));
+    commands.push('sudo update-ca-trust extract', '');
+  }
+  const localDomainNames = settings.localDomainNames || [];
+  if (localDomainNames.length > 0) {
+    commands.push('# Append the private domain names to /etc/hosts');
+    localDomainNames.forEach(name =>
+      commands.push(`grep -qx "127.0.0.1   ${name}" /etc/hosts || echo "127.0.0.1   ${name}" | sudo tee -a /etc/hosts > /dev/null`));
+    commands.push('');
+  }
+  return commands;
+};
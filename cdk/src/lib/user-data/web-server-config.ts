@@ -0,0 +1,133 @@
+import { TlsConfig } from '../../config/types';
+
+/*
+  TLS configuration of the web servers, the private keys staying in the enclave:
+  - NGINX loads the pkcs11 OpenSSL engine (ssl_engine), each server block includes the stanza written by the ACM service
+    (ssl_certificate and the pkcs11 URI of ssl_certificate_key): https://docs.aws.amazon.com/enclaves/latest/user/nitro-enclave-refapp.html
+  - httpd uses the pkcs11 crypto device, the ACM service rewrites SSLCertificateFile/SSLCertificateKeyFile of each VirtualHost file
+  - Tomcat reads the token through the SunPKCS11 provider of the JDK (PKCS11 keystore): docs/java_keystore.md
+  - HAProxy cannot load private keys through PKCS#11, it forwards TLS (tcp mode) to an NGINX server block bound to the loopback
+*/
+
+export interface VirtualServer {
+  // First name is the ServerName, the others are aliases
+  serverNames: string[];
+  httpsPort: number;
+  // Receives the requests that match no other server name
+  isDefault: boolean;
+  // Stanza (NGINX) or configuration file (httpd) of the ACM token, for the server types with a token target
+  tokenPath?: string;
+  // Only listen on 127.0.0.1, behind a local proxy sending the PROXY protocol (NGINX)
+  behindLocalProxy?: boolean;
+}
+
+export const DEFAULT_TLS_PROTOCOLS: NonNullable<TlsConfig['protocols']> = ['TLSv1.2'];
+
+export const renderNginxServerBlock = (server: VirtualServer, tls: TlsConfig = {}): string => {
+  const defaultServer = server.isDefault ? ' default_server' : '';
+  const listen = server.behindLocalProxy
+    ? [
+      `    listen       127.0.0.1:${server.httpsPort} ssl proxy_protocol${defaultServer};`,
+      '    set_real_ip_from 127.0.0.1;',
+      '    real_ip_header proxy_protocol;',
+    ]
+    : [
+      `    listen       ${server.httpsPort} ssl${defaultServer};`,
+      `    listen       [::]:${server.httpsPort} ssl${defaultServer};`,
+    ];
+  return [
+    'server {',
+    ...listen,
+    `    server_name  ${server.serverNames.join(' ')};`,
+    '    root         /usr/share/nginx/html;',
+    '',
+    '    ssl_session_cache shared:SSL:1m;',
+    '    ssl_session_timeout  10m;',
+    `    ssl_protocols ${(tls.protocols || DEFAULT_TLS_PROTOCOLS).join(' ')};`,
+    ...(tls.ciphers ? [`    ssl_ciphers ${tls.ciphers};`, '    ssl_prefer_server_ciphers on;'] : []),
+    ...(tls.hstsMaxAgeSeconds !== undefined ? [`    add_header Strict-Transport-Security "max-age=${tls.hstsMaxAgeSeconds}" always;`] : []),
+    `    include "${server.tokenPath}";`,
+    '}',
+  ].join('\n');
+};
+
+// Listen and the pkcs11 crypto device are global, they are only rendered once (withGlobals)
+export const renderHttpdVirtualHost = (server: VirtualServer, tls: TlsConfig = {}, withGlobals: boolean = false): string => {
+  const [serverName, ...aliases] = server.serverNames;
+  return [
+    ...(withGlobals ? [
+      `Listen ${server.httpsPort} https`,
+      'SSLPassPhraseDialog exec:/usr/libexec/httpd-ssl-pass-dialog',
+      'SSLCryptoDevice pkcs11',
+    ] : []),
+    `<VirtualHost *:${server.httpsPort}>`,
+    `ServerName ${serverName}`,
+    ...(aliases.length ? [`ServerAlias ${aliases.join(' ')}`] : []),
+    'SSLEngine on',
+    `SSLProtocol -all ${(tls.protocols || DEFAULT_TLS_PROTOCOLS).map(protocol => `+${protocol}`).join(' ')}`,
+    ...(tls.ciphers ? [`SSLCipherSuite ${tls.ciphers}`, 'SSLHonorCipherOrder on'] : []),
+    ...(tls.hstsMaxAgeSeconds !== undefined ? [`Header always set Strict-Transport-Security "max-age=${tls.hstsMaxAgeSeconds}"`] : []),
+    // Rewritten by the ACM service with the pkcs11 URIs of the token
+    'SSLCertificateKeyFile /etc/pki/tls/private/localhost.key',
+    'SSLCertificateFile /etc/pki/tls/certs/localhost.crt',
+    '</VirtualHost>',
+  ].join('\n');
+};
+
+// SunPKCS11 provider configuration: the PKCS#11 module of the enclave token is loaded through p11-kit
+export const renderSunPkcs11Config = (providerName: string): string => [
+  `name = ${providerName}`,
+  'description = "ACM for Nitro Enclaves token"',
+  'library = /usr/lib64/libp11-kit.so.0',
+].join('\n');
+
+// HTTPS connector reading the key from the token, the token PIN is resolved from a system property at startup
+export const renderTomcatConnector = (httpsPort: number, providerName: string, pinProperty: string, tls: TlsConfig = {}): string => [
+  `    <Connector port="${httpsPort}" protocol="org.apache.coyote.http11.Http11NioProtocol"`,
+  '               SSLEnabled="true" maxThreads="150" scheme="https" secure="true">',
+  `        <SSLHostConfig protocols="${(tls.protocols || DEFAULT_TLS_PROTOCOLS).join(',')}"${tls.ciphers ? ` ciphers="${tls.ciphers}"` : ''}>`,
+  '            <Certificate certificateKeystoreFile="NONE" certificateKeystoreType="PKCS11"',
+  `                         certificateKeystoreProvider="SunPKCS11-${providerName}" certificateKeystorePassword="\${${pinProperty}}" />`,
+  '        </SSLHostConfig>',
+  '    </Connector>',
+].join('\n');
+
+// HSTS header filter, added to conf/web.xml
+export const renderTomcatHstsFilter = (hstsMaxAgeSeconds: number): string => [
+  '    <filter>',
+  '        <filter-name>httpHeaderSecurity</filter-name>',
+  '        <filter-class>org.apache.catalina.filters.HttpHeaderSecurityFilter</filter-class>',
+  `        <init-param><param-name>hstsMaxAgeSeconds</param-name><param-value>${hstsMaxAgeSeconds}</param-value></init-param>`,
+  '    </filter>',
+  '    <filter-mapping>',
+  '        <filter-name>httpHeaderSecurity</filter-name>',
+  '        <url-pattern>/*</url-pattern>',
+  '    </filter-mapping>',
+].join('\n');
+
+// TLS passthrough (SNI is preserved) to the NGINX server blocks listening on backendPort
+export const renderHaproxyConfig = (httpsPort: number, backendPort: number): string => [
+  'global',
+  '    log /dev/log local0',
+  '    maxconn 4096',
+  '    user haproxy',
+  '    group haproxy',
+  '    daemon',
+  '',
+  'defaults',
+  '    mode tcp',
+  '    log global',
+  '    option tcplog',
+  '    timeout connect 5s',
+  '    timeout client 1m',
+  '    timeout server 1m',
+  '',
+  'frontend https',
+  `    bind :::${httpsPort} v4v6`,
+  '    tcp-request inspect-delay 5s',
+  '    tcp-request content accept if { req_ssl_hello_type 1 }',
+  '    default_backend nginx-acm',
+  '',
+  'backend nginx-acm',
+  `    server nginx 127.0.0.1:${backendPort} send-proxy-v2 check`,
+].join('\n');
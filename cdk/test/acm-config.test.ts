@@ -0,0 +1,82 @@
+import { parse } from 'yaml';
+import { renderAcmConfig, toAcmDocument } from '../src/lib/user-data/acm-config';
+
+const CERTIFICATE_ARN = 'arn:aws:acm:us-east-1:123456789012:certificate/abcd-1234';
+
+describe('toAcmDocument', () => {
+  test('defaults the enclave resources and the service options', () => {
+    const document = toAcmDocument({ service: 'nginx', tokens: [] });
+
+    expect(document).toEqual({
+      enclave: { cpu_count: 2, memory_mib: 512 },
+      options: { service: 'nginx', force_start: true, reload_wait_ms: 1000, sync_interval_secs: 600 },
+      tokens: [],
+    });
+  });
+
+  test('writes no service to restart without one', () => {
+    const document = toAcmDocument({ tokens: [] });
+
+    expect(document).toEqual({
+      enclave: { cpu_count: 2, memory_mib: 512 },
+      options: { force_start: false, reload_wait_ms: 1000, sync_interval_secs: 600 },
+      tokens: [],
+    });
+  });
+
+  test('maps the service options and the enclave resources', () => {
+    const document = toAcmDocument({
+      service: 'httpd',
+      forceStart: false,
+      reloadWaitMs: 2000,
+      syncIntervalSecs: 300,
+      enclave: { cpuCount: 4, memoryMiB: 1024 },
+      tokens: [],
+    });
+
+    expect(document).toMatchObject({
+      enclave: { cpu_count: 4, memory_mib: 1024 },
+      options: { service: 'httpd', force_start: false, reload_wait_ms: 2000, sync_interval_secs: 300 },
+    });
+  });
+
+  test('writes the token target only when there is one', () => {
+    const document = toAcmDocument({
+      tokens: [
+        {
+          label: 'nginx-acm-token',
+          certificateArn: CERTIFICATE_ARN,
+          target: { type: 'NginxStanza', path: '/etc/pki/nginx/nginx-acm.conf', user: 'nginx' },
+        },
+        { label: 'tomcat-acm-token', certificateArn: CERTIFICATE_ARN, refreshIntervalSecs: 3600 },
+      ],
+    });
+
+    expect(document).toMatchObject({
+      tokens: [
+        {
+          label: 'nginx-acm-token',
+          source: { Acm: { certificate_arn: CERTIFICATE_ARN } },
+          target: { NginxStanza: { path: '/etc/pki/nginx/nginx-acm.conf', user: 'nginx' } },
+          refresh_interval_secs: 43200,
+        },
+        {
+          label: 'tomcat-acm-token',
+          source: { Acm: { certificate_arn: CERTIFICATE_ARN } },
+          refresh_interval_secs: 3600,
+        },
+      ],
+    });
+    expect((document as { tokens: object[] }).tokens[1]).not.toHaveProperty('target');
+  });
+});
+
+describe('renderAcmConfig', () => {
+  test('renders a YAML document with double quoted strings', () => {
+    const content = renderAcmConfig({ tokens: [{ label: 'nginx-acm-token', certificateArn: CERTIFICATE_ARN }] });
+
+    expect(content.startsWith('---\n')).toBe(true);
+    expect(content).toContain(`certificate_arn: "${CERTIFICATE_ARN}"`);
+    expect(parse(content)).toEqual(toAcmDocument({ tokens: [{ label: 'nginx-acm-token', certificateArn: CERTIFICATE_ARN }] }));
+  });
+});
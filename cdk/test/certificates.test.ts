@@ -0,0 +1,72 @@
+import { getCertificateDefinitions } from '../src/config/certificates';
+import { ConfigValidator } from '../src/config/config-validator';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup, TEST_PCA_ARN } from './test-config';
+
+const EXISTING_CERTIFICATE_ARN = 'arn:aws:acm:us-east-1:123456789012:certificate/abcd-1234';
+
+const getConfig = () => getTestConfig({
+  certificateConfig: {
+    subjectAlternativeNames: ['www.private.example.com', '*.apps.private.example.com'],
+    additionalCertificates: [
+      { domainName: 'other.example.com', isPrivate: true, pcaArn: TEST_PCA_ARN },
+      { domainName: 'existing.example.com', isPrivate: true, existingCertificateArn: EXISTING_CERTIFICATE_ARN },
+    ],
+  },
+});
+
+describe('multiple certificates', () => {
+  const assembly = synthSetup(getConfig());
+
+  test('names the certificates in their order', () => {
+    expect(getCertificateDefinitions(getConfig().certificateConfig).map(definition => definition.certificateName))
+      .toEqual(['AcmneCertificate', 'AcmneCertificate2', 'AcmneCertificate3']);
+  });
+
+  test('creates the certificates without an existing ARN, with their SANs', () => {
+    const template = getTemplate(assembly, 'test-CertificateStack');
+
+    template.resourceCountIs('AWS::CertificateManager::Certificate', 2);
+    template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+      DomainName: 'private.example.com',
+      SubjectAlternativeNames: ['www.private.example.com', '*.apps.private.example.com'],
+    });
+    template.hasResourceProperties('AWS::CertificateManager::Certificate', { DomainName: 'other.example.com' });
+  });
+
+  test('associates every certificate with the role', () => {
+    const template = getTemplate(assembly, 'test-RoleStack');
+
+    template.resourceCountIs('AWS::EC2::EnclaveCertificateIamRoleAssociation', 3);
+    template.hasResourceProperties('AWS::EC2::EnclaveCertificateIamRoleAssociation', { CertificateArn: EXISTING_CERTIFICATE_ARN });
+  });
+
+  test('configures a token and a server block per certificate', () => {
+    const script = getConfigurationScript(getTemplate(assembly, 'test-InstanceStack'));
+
+    expect(script).toContain(`- label: "nginx-acm-token"\n    source:\n      Acm:\n        certificate_arn: "{"Fn::ImportValue"`);
+    expect(script).toContain('- label: "nginx-acm-token-2"');
+    expect(script).toContain(`- label: "nginx-acm-token-3"\n    source:\n      Acm:\n        certificate_arn: "${EXISTING_CERTIFICATE_ARN}"`);
+    expect(script).toContain('server_name  private.example.com www.private.example.com *.apps.private.example.com;');
+    expect(script).toContain('include "/etc/pki/nginx/nginx-acm-3.conf";');
+  });
+});
+
+describe('certificate validation', () => {
+  test('rejects an invalid subject alternative name', () => {
+    const config = getTestConfig({ certificateConfig: { subjectAlternativeNames: ['not a domain'] } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({
+      code: 'INVALID_DOMAIN_NAME',
+      path: 'certificateConfig.subjectAlternativeNames.0',
+    }));
+  });
+
+  test('reports the fields of an additional certificate by their path', () => {
+    const config = getTestConfig({ certificateConfig: { additionalCertificates: [{ domainName: 'other.example.com', isPrivate: true }] } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({
+      code: 'MISSING_PCA_ARN',
+      path: 'certificateConfig.additionalCertificates.0.pcaArn',
+    }));
+  });
+});
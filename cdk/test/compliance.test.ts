@@ -0,0 +1,44 @@
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { ComplianceConfig } from '../src/config/types';
+import { getTestConfig, synthSetup } from './test-config';
+
+// Compliance annotations of the instance stack, by level
+const getMessages = (assembly: cxapi.CloudAssembly, level: 'error' | 'warning' | 'info'): string[] =>
+  assembly.getStackByName('test-InstanceStack').messages
+    .filter(message => message.level === level && String(message.entry.data).includes('ACMNE-'))
+    .map(message => String(message.entry.data));
+
+// Unencrypted root volume: finding ACMNE-EC2-3 (error)
+const synthUnencrypted = (complianceConfig: ComplianceConfig) =>
+  synthSetup(getTestConfig({ instanceConfig: { encryptVolume: false }, complianceConfig }));
+
+describe('compliance checks', () => {
+  test('reports the error findings as warnings by default', () => {
+    const assembly = synthUnencrypted({});
+
+    expect(getMessages(assembly, 'warning')).toContainEqual(expect.stringMatching(/^ERROR ACMNE-EC2-3: EBS volume \/dev\/xvda is not encrypted\./));
+    expect(getMessages(assembly, 'error')).toEqual([]);
+  });
+
+  test('reports the error findings as errors with failOnError', () => {
+    const assembly = synthUnencrypted({ failOnError: true });
+
+    expect(getMessages(assembly, 'error')).toContainEqual(expect.stringMatching(/^ERROR ACMNE-EC2-3:/));
+  });
+
+  test('keeps the suppressed findings as info with their justification', () => {
+    const assembly = synthUnencrypted({
+      failOnError: true,
+      suppressions: [{ ruleId: 'ACMNE-EC2-3', resource: 'test-InstanceStack', justification: 'Test volume without data' }],
+    });
+
+    expect(getMessages(assembly, 'error')).toEqual([]);
+    expect(getMessages(assembly, 'info')).toContainEqual(expect.stringMatching(/^ERROR ACMNE-EC2-3: .* Suppressed: Test volume without data$/));
+  });
+
+  test('checks nothing when disabled', () => {
+    const assembly = synthUnencrypted({ enabled: false });
+
+    expect(getMessages(assembly, 'warning')).toEqual([]);
+  });
+});
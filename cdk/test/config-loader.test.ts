@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigLoader } from '../src/config/config-loader';
+import { ConfigValidator } from '../src/config/config-validator';
+import { TEST_ENV } from './test-config';
+
+describe('ConfigLoader', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'acmne-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfigFile = (name: string, content: string): string => {
+    const filePath = join(directory, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  test('resolves the base configuration from the setup name', () => {
+    const config = ConfigLoader.resolve({ cliConfig: { setupName: 'test' } }, TEST_ENV);
+
+    expect(config.region).toBe('us-east-1');
+    expect(config.account).toBe('123456789012');
+    expect(config.instanceConfig.instanceType).toBe('c5.xlarge');
+    expect(config.instanceConfig.stackName).toBe('test-InstanceStack');
+    expect(config.certificateConfig.stackName).toBe('test-CertificateStack');
+  });
+
+  test('requires a setup name', () => {
+    expect(() => ConfigLoader.resolve({}, {})).toThrow(/A setup name is required/);
+  });
+
+  test('merges base < config file < env vars < environment < CLI flags', () => {
+    const configFile = ConfigLoader.loadFile(writeConfigFile('setup.yaml', [
+      'setupName: test',
+      'region: eu-west-1',
+      'instanceConfig:',
+      '  instanceType: m5.xlarge',
+      '  keyPairName: file-key-pair',
+      '  serverType: APACHE',
+      'certificateConfig:',
+      '  domainName: file.example.com',
+      'environments:',
+      '  - name: prod',
+      '    instanceConfig:',
+      '      keyPairName: prod-key-pair',
+      '      serverType: TOMCAT',
+    ].join('\n')));
+    const env = { ...TEST_ENV, AWS_REGION: 'eu-central-1', KEY_PAIR_NAME: 'env-key-pair', DOMAIN_NAME: 'env.example.com' };
+
+    const config = ConfigLoader.resolve({
+      configFile,
+      environment: 'prod',
+      cliConfig: { instanceConfig: { serverType: 'NGINX' } },
+    }, env);
+
+    // Base configuration, with the environment in the stack names
+    expect(config.instanceConfig.amiType).toBe('AL2023');
+    expect(config.instanceConfig.stackName).toBe('test-prod-InstanceStack');
+    // Config file over the base configuration
+    expect(config.instanceConfig.instanceType).toBe('m5.xlarge');
+    // Env vars over the config file
+    expect(config.region).toBe('eu-central-1');
+    expect(config.certificateConfig.domainName).toBe('env.example.com');
+    // Environment over the env vars
+    expect(config.instanceConfig.keyPairName).toBe('prod-key-pair');
+    // CLI flags over the environment
+    expect(config.instanceConfig.serverType).toBe('NGINX');
+  });
+
+  test('requires an environment when the config file declares some', () => {
+    const configFile = ConfigLoader.loadFile(writeConfigFile('environments.yaml', [
+      'setupName: test',
+      'environments:',
+      '  - name: dev',
+      '  - name: prod',
+    ].join('\n')));
+
+    expect(() => ConfigLoader.resolve({ configFile }, TEST_ENV)).toThrow(/declares the environments dev, prod/);
+    expect(ConfigLoader.resolveEnvironments({ configFile }, TEST_ENV).map(environment => environment.config.instanceConfig.stackName))
+      .toEqual(['test-dev-InstanceStack', 'test-prod-InstanceStack']);
+  });
+
+  test('rejects the unknown fields of a config file', () => {
+    expect(() => ConfigLoader.loadFile(writeConfigFile('unknown.yaml', 'setupName: test\nunknownField: true\n')))
+      .toThrow(/unknownField: is not a known configuration field/);
+  });
+
+  test('locates the schema errors in the config file', () => {
+    const filePath = writeConfigFile('invalid.yaml', 'setupName: test\ninstanceConfig:\n  instanceType: 5\n');
+
+    expect(() => ConfigLoader.loadFile(filePath)).toThrow(`${filePath}:3:17 instanceConfig.instanceType: must be string`);
+  });
+
+  test('locates the validation issues of a list item in the config file', () => {
+    const configFile = ConfigLoader.loadFile(writeConfigFile('brownfield.yaml', [
+      'setupName: test',
+      'instanceConfig:',
+      '  existingInstanceIds:',
+      '    - i-0123456789abcdef0',
+      '    - instance-2',
+    ].join('\n')));
+    const config = ConfigLoader.resolve({ configFile }, TEST_ENV);
+
+    const report = ConfigLoader.locateIssues(ConfigValidator.validate(config), configFile);
+
+    expect(report.errors).toContainEqual(expect.objectContaining({
+      code: 'INVALID_INSTANCE_ID',
+      path: 'instanceConfig.existingInstanceIds.1',
+      location: `${configFile.path}:5:7`,
+    }));
+  });
+});
@@ -0,0 +1,63 @@
+import { ConfigValidator } from '../src/config/config-validator';
+import { getDefaultConfig } from '../src/config/default-config';
+import { NitroEnclavesAcmStreamlineConfig } from '../src/config/types';
+import { getTestConfig, synthSetup } from './test-config';
+
+const getErrorCodes = (config: NitroEnclavesAcmStreamlineConfig): string[] =>
+  ConfigValidator.validate(config).errors.map(issue => issue.code);
+
+describe('ConfigValidator', () => {
+  test('accepts a valid configuration', () => {
+    const report = ConfigValidator.validate(getTestConfig());
+
+    expect(report.errors).toEqual([]);
+    expect(report.hasErrors()).toBe(false);
+  });
+
+  test('reports every error at once', () => {
+    const config = getTestConfig({ region: 'eu-west-1', instanceConfig: { instanceType: 't3.micro' } });
+    config.account = '123456789';
+
+    expect(getErrorCodes(config)).toEqual(expect.arrayContaining(['INVALID_ACCOUNT', 'ARN_REGION_MISMATCH']));
+    expect(getErrorCodes(config).length).toBeGreaterThan(2);
+  });
+
+  test('rejects an account ID that is not 12 digits', () => {
+    const config = { ...getTestConfig(), account: '123456789' };
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({ code: 'INVALID_ACCOUNT', path: 'account' }));
+  });
+
+  test('rejects an ARN of another region', () => {
+    const config = getTestConfig({ certificateConfig: { pcaArn: 'arn:aws:acm-pca:eu-west-1:123456789012:certificate-authority/abcd-1234' } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({
+      code: 'ARN_REGION_MISMATCH',
+      path: 'certificateConfig.pcaArn',
+    }));
+  });
+
+  test('rejects the placeholder key pair name for a deployment only', () => {
+    const config = getTestConfig({ instanceConfig: { keyPairName: 'my-key-pair-name' } });
+    const issue = expect.objectContaining({ code: 'DEFAULT_KEY_PAIR_NAME', path: 'instanceConfig.keyPairName' });
+
+    expect(ConfigValidator.validate(config).warnings).toContainEqual(issue);
+    expect(ConfigValidator.validate(config).hasErrors()).toBe(false);
+    expect(ConfigValidator.validateDeployment(config).errors).toContainEqual(issue);
+  });
+});
+
+describe('default configuration', () => {
+  test('is valid, with the key pair placeholder as a warning', () => {
+    const report = ConfigValidator.validate(getDefaultConfig());
+
+    expect(report.errors).toEqual([]);
+    expect(report.warnings.map(issue => issue.code)).toContain('DEFAULT_KEY_PAIR_NAME');
+  });
+
+  test('synthesizes the stacks of the app entry point', () => {
+    const assembly = synthSetup(getDefaultConfig());
+
+    expect(assembly.stacks.map(stack => stack.stackName).sort()).toEqual(['CertificateStack', 'InstanceStack', 'RoleStack']);
+  });
+});
@@ -0,0 +1,47 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const getDocument = (template: Template) => Object.values(template.findResources('AWS::SSM::Document'))[0].Properties;
+
+// Hash of the commands, first part of the ConfigurationVersion
+const getCommandsHash = (template: Template): string => getDocument(template).Content.parameters.ConfigurationVersion.default['Fn::Join'][1][0];
+
+describe('configuration document', () => {
+  const template = getTemplate(synthSetup(getTestConfig()), 'test-InstanceStack');
+
+  test('creates a new version of the same command document on updates', () => {
+    template.hasResourceProperties('AWS::SSM::Document', {
+      DocumentType: 'Command',
+      DocumentFormat: 'JSON',
+      UpdateMethod: 'NewVersion',
+    });
+  });
+
+  test('versions the configuration with the hash of the commands and the imported certificate ARN', () => {
+    const version = { 'Fn::Join': ['-', [Match.stringLikeRegexp('^[0-9a-f]{16}$'), { 'Fn::ImportValue': Match.anyValue() }]] };
+
+    template.hasResourceProperties('AWS::SSM::Document', {
+      Content: Match.objectLike({ parameters: { ConfigurationVersion: Match.objectLike({ default: version }) } }),
+    });
+    template.hasResourceProperties('AWS::SSM::Association', {
+      DocumentVersion: '$LATEST',
+      Parameters: { ConfigurationVersion: [version] },
+    });
+  });
+
+  test('skips a run of the version applied last', () => {
+    const script = getConfigurationScript(template);
+
+    expect(script).toContain('flock 9');
+    expect(script).toMatch(/if \[ "\$\(cat \/var\/lib\/acmne\/configuration-version 2> \/dev\/null\)" = "[0-9a-f]{16}-\{"Fn::ImportValue":/);
+    expect(script).toMatch(/echo [0-9a-f]{16}-\{"Fn::ImportValue":.*\} \| sudo tee \/var\/lib\/acmne\/configuration-version > \/dev\/null$/);
+  });
+
+  test('changes the version with the configuration only', () => {
+    const sameTemplate = getTemplate(synthSetup(getTestConfig()), 'test-InstanceStack');
+    const otherTemplate = getTemplate(synthSetup(getTestConfig({ instanceConfig: { networkAccess: { httpsPort: 8443 } } })), 'test-InstanceStack');
+
+    expect(getCommandsHash(sameTemplate)).toBe(getCommandsHash(template));
+    expect(getCommandsHash(otherTemplate)).not.toBe(getCommandsHash(template));
+  });
+});
@@ -0,0 +1,55 @@
+import * as cdk from 'aws-cdk-lib';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { getDestroyPlan } from '../src/lib/destroy/destroy-plan';
+import { getTestConfig, synthSetup } from './test-config';
+
+describe('getDestroyPlan', () => {
+  const app = new cdk.App();
+  const certificateStack = new cdk.Stack(app, 'CertificateStack');
+  new s3.Bucket(certificateStack, 'Bucket', { removalPolicy: cdk.RemovalPolicy.RETAIN });
+  const roleStack = new cdk.Stack(app, 'RoleStack');
+  new sns.Topic(roleStack, 'Topic');
+  roleStack.addDependency(certificateStack);
+  const instanceStack = new cdk.Stack(app, 'InstanceStack');
+  instanceStack.addDependency(roleStack);
+  new sns.Topic(instanceStack, 'Topic');
+  const assembly = app.synth();
+
+  test('deletes the dependent stacks first', () => {
+    const plan = getDestroyPlan(assembly, ['CertificateStack']);
+
+    expect(plan.stacks.map(stack => [stack.stackName, stack.requiredBy])).toEqual([
+      ['InstanceStack', 'RoleStack'],
+      ['RoleStack', 'CertificateStack'],
+      ['CertificateStack', undefined],
+    ]);
+    expect(plan.unknownStackNames).toEqual([]);
+  });
+
+  test('lists the resources and the retained ones', () => {
+    const plan = getDestroyPlan(assembly, ['CertificateStack']);
+    const certificateStackPlan = plan.stacks.find(stack => stack.stackName === 'CertificateStack')!;
+
+    expect(certificateStackPlan.resources).toEqual([
+      expect.objectContaining({ type: 'AWS::S3::Bucket', retained: true }),
+    ]);
+  });
+
+  test('leaves out the stacks the selection does not depend on, and reports the unknown ones', () => {
+    const plan = getDestroyPlan(assembly, ['InstanceStack', 'UnknownStack']);
+
+    expect(plan.stacks.map(stack => stack.stackName)).toEqual(['InstanceStack']);
+    expect(plan.stacks[0].resources).toEqual([
+      expect.objectContaining({ type: 'AWS::SNS::Topic', retained: false }),
+    ]);
+    expect(plan.unknownStackNames).toEqual(['UnknownStack']);
+  });
+
+  test('deletes the stacks of a setup importing the certificate after its importers', () => {
+    const plan = getDestroyPlan(synthSetup(getTestConfig(), true), ['test-CertificateStack']);
+
+    expect(plan.stacks.map(stack => stack.stackName)).toEqual(['test-InstanceStack', 'test-RoleStack', 'test-CertificateStack']);
+    expect(plan.stacks[2].resources).toEqual([expect.objectContaining({ type: 'AWS::CertificateManager::Certificate' })]);
+  });
+});
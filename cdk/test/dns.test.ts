@@ -0,0 +1,71 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { EnclaveDns } from '../src/lib/constructs/dns';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const HOSTED_ZONE_ID = 'Z0123456789ABCDEFGHIJ';
+
+const getPublicConfig = (deploymentMode: 'single' | 'fleet' = 'single') => getTestConfig({
+  certificateConfig: {
+    domainName: 'example.com',
+    subjectAlternativeNames: ['www.example.com', '*.example.com'],
+    isPrivate: false,
+    pcaArn: undefined,
+    hostedZoneId: HOSTED_ZONE_ID,
+  },
+  instanceConfig: { deploymentMode, dns: { healthCheckPath: '/health' } },
+});
+
+describe('Route 53 records and health check', () => {
+  const template = getTemplate(synthSetup(getPublicConfig()), 'test-InstanceStack');
+
+  test('points the domain names to an Elastic IP of the instance', () => {
+    template.hasResourceProperties('AWS::EC2::EIP', { Domain: 'vpc', InstanceId: { Ref: Match.anyValue() } });
+    for (const name of ['example.com.', 'www.example.com.']) {
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: name,
+        Type: 'A',
+        HostedZoneId: HOSTED_ZONE_ID,
+        ResourceRecords: [{ 'Fn::GetAtt': [Match.anyValue(), 'PublicIp'] }],
+        TTL: '300',
+      });
+    }
+    // No record for the wildcard name
+    template.resourceCountIs('AWS::Route53::RecordSet', 2);
+  });
+
+  test('checks the primary domain over HTTPS and alarms when it fails', () => {
+    template.hasResourceProperties('AWS::Route53::HealthCheck', {
+      HealthCheckConfig: Match.objectLike({ Type: 'HTTPS', FullyQualifiedDomainName: 'example.com', Port: 443, ResourcePath: '/health', EnableSNI: true }),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'AWS/Route53',
+      MetricName: 'HealthCheckStatus',
+      ComparisonOperator: 'LessThanThreshold',
+      TreatMissingData: 'breaching',
+    });
+  });
+
+  test('aliases the domain names to the load balancer of a fleet', () => {
+    const fleetTemplate = getTemplate(synthSetup(getPublicConfig('fleet')), 'test-InstanceStack');
+
+    fleetTemplate.resourceCountIs('AWS::EC2::EIP', 0);
+    fleetTemplate.hasResourceProperties('AWS::Route53::RecordSet', {
+      Name: 'example.com.',
+      Type: 'A',
+      AliasTarget: Match.objectLike({ DNSName: Match.anyValue() }),
+    });
+  });
+});
+
+describe('EnclaveDns.getRecordNames', () => {
+  test('lists the unique non-wildcard names of the certificates with a hosted zone', () => {
+    expect(EnclaveDns.getRecordNames([
+      { certificateArn: 'arn1', domainName: 'example.com', subjectAlternativeNames: ['*.example.com', 'www.example.com'], isPrivate: false, hostedZoneId: 'Z1' },
+      { certificateArn: 'arn2', domainName: 'www.example.com', isPrivate: false, hostedZoneId: 'Z1' },
+      { certificateArn: 'arn3', domainName: 'private.example.com', isPrivate: true },
+    ])).toEqual([
+      { domainName: 'example.com', hostedZoneId: 'Z1' },
+      { domainName: 'www.example.com', hostedZoneId: 'Z1' },
+    ]);
+  });
+});
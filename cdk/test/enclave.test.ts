@@ -0,0 +1,37 @@
+import { ConfigValidator } from '../src/config/config-validator';
+import { EnclaveConfig } from '../src/config/types';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const getEnclaveIssues = (enclave: EnclaveConfig, instanceType: string = 'c5.xlarge'): string[][] =>
+  ConfigValidator.validate(getTestConfig({ instanceConfig: { instanceType, enclave } })).issues
+    .filter(issue => issue.path.startsWith('instanceConfig.enclave'))
+    .map(issue => [issue.severity, issue.code]);
+
+describe('enclave resources', () => {
+  test('are reserved by the allocator and used by the ACM service', () => {
+    const config = getTestConfig({ instanceConfig: { instanceType: 'c5.2xlarge', enclave: { cpuCount: 4, memoryMiB: 2048 } } });
+    const script = getConfigurationScript(getTemplate(synthSetup(config), 'test-InstanceStack'));
+
+    expect(script).toContain(`sudo tee /etc/nitro_enclaves/allocator.yaml > /dev/null << 'EOF'\n---\nmemory_mib: 2048\ncpu_count: 4\nEOF`);
+    expect(script).toContain('enclave:\n  cpu_count: 4\n  memory_mib: 2048');
+  });
+
+  test('fit the default instance type by default', () => {
+    expect(getEnclaveIssues({})).toEqual([]);
+  });
+
+  test('are given full cores', () => {
+    expect(getEnclaveIssues({ cpuCount: 3 })).toEqual([['error', 'INVALID_ENCLAVE_CPU_COUNT']]);
+    // Graviton instances have one thread per core
+    expect(getEnclaveIssues({ cpuCount: 3 }, 'c6g.2xlarge')).toEqual([]);
+  });
+
+  test('leave at least one core and 1 GiB of memory to the parent instance', () => {
+    expect(getEnclaveIssues({ cpuCount: 4 })).toEqual([['error', 'ENCLAVE_CPU_EXCEEDS_INSTANCE']]);
+    expect(getEnclaveIssues({ memoryMiB: 7680 })).toEqual([['error', 'ENCLAVE_MEMORY_EXCEEDS_INSTANCE']]);
+  });
+
+  test('cannot be checked against an unknown instance type', () => {
+    expect(getEnclaveIssues({ cpuCount: 2 }, 'c99.xlarge')).toEqual([['warning', 'UNKNOWN_INSTANCE_RESOURCES']]);
+  });
+});
@@ -0,0 +1,33 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const INSTANCE_IDS = ['i-0123456789abcdef0', 'i-0123456789abcdef1'];
+const ROLE_ARN = 'arn:aws:iam::123456789012:role/existing-web-server';
+
+describe('existing instances', () => {
+  const assembly = synthSetup(getTestConfig({
+    instanceConfig: { existingInstanceIds: INSTANCE_IDS },
+    roleConfig: { existingRoleArn: ROLE_ARN },
+  }));
+  const template = getTemplate(assembly, 'test-InstanceStack');
+
+  test('associates the configuration document with the instances instead of launching one', () => {
+    template.resourceCountIs('AWS::EC2::Instance', 0);
+    template.resourceCountIs('AWS::AutoScaling::AutoScalingGroup', 0);
+    template.hasResourceProperties('AWS::SSM::Association', {
+      Name: { Ref: Match.anyValue() },
+      Targets: [{ Key: 'InstanceIds', Values: INSTANCE_IDS }],
+      MaxConcurrency: '1',
+      MaxErrors: '0',
+      WaitForSuccessTimeoutSeconds: Match.anyValue(),
+    });
+  });
+
+  test('associates the certificate with the existing role', () => {
+    getTemplate(assembly, 'test-RoleStack').hasResourceProperties('AWS::EC2::EnclaveCertificateIamRoleAssociation', {
+      CertificateArn: { 'Fn::ImportValue': Match.anyValue() },
+      RoleArn: ROLE_ARN,
+    });
+    getTemplate(assembly, 'test-RoleStack').resourceCountIs('AWS::IAM::Role', 0);
+  });
+});
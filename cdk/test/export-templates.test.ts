@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { ExportedTemplate, exportTemplates } from '../src/lib/export/export-templates';
+import { getTsNodeCommand } from '../src/lib/shell';
+import { getTestConfig } from './test-config';
+
+const APP_COMMAND = 'ts-node src/bin/cli.ts export';
+
+describe('exportTemplates', () => {
+  let outputDir: string;
+
+  beforeAll(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acmne-export-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  test('writes the templates in deployment order, with parameters and named exports', () => {
+    const config = getTestConfig({ instanceConfig: { vpc: { mode: 'create', cidr: '10.1.0.0/16' } } });
+    // Availability zones of the created VPC, as looked up by the CDK CLI
+    process.env[cxapi.CONTEXT_ENV] = JSON.stringify({ 'availability-zones:account=123456789012:region=us-east-1': ['us-east-1a', 'us-east-1b'] });
+
+    let templates: ExportedTemplate[];
+    try {
+      templates = exportTemplates(config, { outputDir, appCommand: APP_COMMAND });
+    } finally {
+      delete process.env[cxapi.CONTEXT_ENV];
+    }
+
+    expect(templates.map(template => template.stackName)).toEqual(['test-CertificateStack', 'test-RoleStack', 'test-InstanceStack']);
+    const [certificateTemplate, roleTemplate, instanceTemplate] = templates.map(template => JSON.parse(fs.readFileSync(template.templateFile, 'utf8')));
+    expect(templates[0].parameters).toEqual(expect.objectContaining({ PrimaryDomainName: 'private.example.com' }));
+    expect(templates[2].parameters).toEqual(expect.objectContaining({ KeyPairName: 'test-key-pair' }));
+    expect(Object.values(certificateTemplate.Outputs)).toContainEqual(expect.objectContaining({
+      Export: { Name: expect.stringMatching(/^test-CertificateStack-/) },
+    }));
+    expect(JSON.stringify(roleTemplate)).toMatch(/"Fn::ImportValue":"test-CertificateStack-/);
+    expect(JSON.stringify(instanceTemplate)).not.toContain('BootstrapVersion');
+  });
+
+  test('asks for the lookups of the CDK CLI when the templates need values of the account', () => {
+    expect(() => exportTemplates(getTestConfig({ instanceConfig: { vpc: { mode: 'default' } } }), { outputDir, appCommand: APP_COMMAND }))
+      .toThrow(`cdk synth --app '${APP_COMMAND}'`);
+  });
+});
+
+describe('getTsNodeCommand', () => {
+  test('runs the ts-node and tsconfig.json of the project', () => {
+    expect(getTsNodeCommand('/opt/acmne/cdk', ['/opt/acmne/cdk/src/bin/cli.ts', 'export', '--setup-name', 'my setup']))
+      .toBe("/opt/acmne/cdk/node_modules/.bin/ts-node -P /opt/acmne/cdk/tsconfig.json --prefer-ts-exts /opt/acmne/cdk/src/bin/cli.ts export --setup-name 'my setup'");
+  });
+});
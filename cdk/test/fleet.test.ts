@@ -0,0 +1,52 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { ConfigValidator } from '../src/config/config-validator';
+import { FleetConfig } from '../src/config/types';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const getFleetConfig = (fleet: FleetConfig = {}) => getTestConfig({ instanceConfig: { deploymentMode: 'fleet', fleet } });
+
+describe('fleet mode', () => {
+  const template = getTemplate(synthSetup(getFleetConfig({ minCapacity: 2, maxCapacity: 6 })), 'test-InstanceStack');
+
+  test('replaces the instance with an Auto Scaling group keeping its size across deployments', () => {
+    template.resourceCountIs('AWS::EC2::Instance', 0);
+    template.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+      Properties: Match.objectLike({ MinSize: '2', MaxSize: '6', HealthCheckType: 'ELB', DesiredCapacity: Match.absent() }),
+      UpdatePolicy: { AutoScalingRollingUpdate: Match.objectLike({ MaxBatchSize: 1, MinInstancesInService: 2, WaitOnResourceSignals: true }) },
+      CreationPolicy: { ResourceSignal: Match.objectLike({ Count: 2 }) },
+    });
+    template.hasResourceProperties('AWS::EC2::LaunchTemplate', {
+      LaunchTemplateData: Match.objectLike({ EnclaveOptions: { Enabled: true } }),
+    });
+  });
+
+  test('passes HTTPS through a Network Load Balancer listening on 443', () => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', { Type: 'network', Scheme: 'internet-facing' });
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', { Port: 443, Protocol: 'TCP' });
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', { Port: 443, Protocol: 'TCP', HealthCheckProtocol: 'TCP' });
+  });
+
+  test('sets the desired capacity only when it is configured', () => {
+    const fleetTemplate = getTemplate(synthSetup(getFleetConfig({ desiredCapacity: 3 })), 'test-InstanceStack');
+
+    fleetTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', { DesiredCapacity: '3' });
+  });
+});
+
+describe('fleet validation', () => {
+  const getErrorPaths = (fleet: FleetConfig): string[] => ConfigValidator.validate(getFleetConfig(fleet)).errors
+    .filter(issue => issue.code === 'INVALID_FLEET_SIZE')
+    .map(issue => issue.path);
+
+  test('accepts a fleet without desired capacity', () => {
+    expect(getErrorPaths({ minCapacity: 2, maxCapacity: 4 })).toEqual([]);
+  });
+
+  test('rejects a desired capacity outside of the fleet size', () => {
+    expect(getErrorPaths({ minCapacity: 2, maxCapacity: 4, desiredCapacity: 5 })).toEqual(['instanceConfig.fleet.desiredCapacity']);
+  });
+
+  test('keeps an instance out of service for the rolling updates', () => {
+    expect(getErrorPaths({ minCapacity: 2, maxCapacity: 2 })).toEqual(['instanceConfig.fleet.minInstancesInService']);
+  });
+});
@@ -0,0 +1,51 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const PARAMETER_NAME = '/imagebuilder/acmne/test-ImageBuilderStack/image-id';
+
+describe('golden image', () => {
+  const assembly = synthSetup(getTestConfig({ imageBuilderConfig: { enabled: true, scheduleExpression: 'cron(0 0 ? * sun *)' } }));
+  const template = getTemplate(assembly, 'test-ImageBuilderStack');
+
+  test('installs the web server and ACM for Nitro Enclaves on the latest Amazon Linux image', () => {
+    template.hasResourceProperties('AWS::ImageBuilder::Component', {
+      Name: Match.stringLikeRegexp('^test-ImageBuilderStack-install-[0-9a-f]{8}$'),
+      Platform: 'Linux',
+      Data: Match.stringLikeRegexp('aws-nitro-enclaves-acm'),
+    });
+    template.hasResourceProperties('AWS::ImageBuilder::ImageRecipe', {
+      ParentImage: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':image/amazon-linux-2023-x86/x.x.x$')])] },
+    });
+    template.hasResourceProperties('AWS::ImageBuilder::InfrastructureConfiguration', {
+      InstanceTypes: ['c5.xlarge'],
+      InstanceMetadataOptions: { HttpTokens: 'required', HttpPutResponseHopLimit: 1 },
+    });
+  });
+
+  test('writes each image to the SSM parameter and rebuilds it on the schedule', () => {
+    template.hasResourceProperties('AWS::ImageBuilder::DistributionConfiguration', {
+      Distributions: [Match.objectLike({ SsmParameterConfigurations: [{ ParameterName: PARAMETER_NAME, DataType: 'aws:ec2:image' }] })],
+    });
+    template.resourceCountIs('AWS::ImageBuilder::Image', 1);
+    template.hasResourceProperties('AWS::ImageBuilder::ImagePipeline', {
+      Schedule: { ScheduleExpression: 'cron(0 0 ? * sun *)', PipelineExecutionStartCondition: 'EXPRESSION_MATCH_ONLY' },
+    });
+  });
+
+  test('launches the instance from the image, without installing the packages again', () => {
+    const instanceTemplate = getTemplate(assembly, 'test-InstanceStack');
+
+    instanceTemplate.hasParameter('*', { Type: 'AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>', Default: PARAMETER_NAME });
+    expect(getConfigurationScript(instanceTemplate)).not.toContain('# Install the web server and ACM for Nitro Enclaves');
+    expect(assembly.getStackByName('test-InstanceStack').dependencies.map(dependency => dependency.id)).toContain('test-ImageBuilderStack');
+  });
+});
+
+describe('custom AMI', () => {
+  test('launches the instance from the AMI ID', () => {
+    const template = getTemplate(synthSetup(getTestConfig({ instanceConfig: { image: { amiId: 'ami-0123456789abcdef0' } } })), 'test-InstanceStack');
+
+    template.hasResourceProperties('AWS::EC2::Instance', { ImageId: 'ami-0123456789abcdef0' });
+    expect(getConfigurationScript(template)).toContain('# Install the web server and ACM for Nitro Enclaves');
+  });
+});
@@ -0,0 +1,67 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { getSetupTags } from '../src/lib/tags';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+describe('hardening profile', () => {
+  const assembly = synthSetup(getTestConfig({
+    instanceConfig: {
+      hardening: {
+        volumeKms: { mode: 'create' },
+        volume: { sizeGiB: 20, type: 'gp3', iops: 3000 },
+        detailedMonitoring: true,
+        terminationProtection: true,
+        tags: { owner: 'web-team', costCenter: 'cc-42', additionalTags: { Environment: 'test' } },
+      },
+    },
+  }));
+  const template = getTemplate(assembly, 'test-InstanceStack');
+
+  test('requires IMDSv2 on the instance with a hop limit of 1', () => {
+    template.hasResourceProperties('AWS::EC2::LaunchTemplate', {
+      LaunchTemplateData: { MetadataOptions: { HttpEndpoint: 'enabled', HttpTokens: 'required', HttpPutResponseHopLimit: 1 } },
+    });
+    template.hasResourceProperties('AWS::EC2::Instance', {
+      LaunchTemplate: { LaunchTemplateId: { Ref: Match.anyValue() }, Version: { 'Fn::GetAtt': [Match.anyValue(), 'LatestVersionNumber'] } },
+    });
+  });
+
+  test('encrypts the root volume with a created key with rotation', () => {
+    template.hasResourceProperties('AWS::KMS::Key', { EnableKeyRotation: true });
+    template.hasResourceProperties('AWS::EC2::Instance', {
+      BlockDeviceMappings: [{
+        DeviceName: '/dev/xvda',
+        Ebs: { Encrypted: true, KmsKeyId: { 'Fn::GetAtt': [Match.anyValue(), 'Arn'] }, VolumeSize: 20, VolumeType: 'gp3', Iops: 3000 },
+      }],
+      Monitoring: true,
+      DisableApiTermination: true,
+    });
+  });
+
+  test('tags every resource of the setup', () => {
+    const tags = Match.arrayWith([
+      { Key: 'CostCenter', Value: 'cc-42' },
+      { Key: 'Environment', Value: 'test' },
+      { Key: 'Owner', Value: 'web-team' },
+      { Key: 'SetupName', Value: 'test' },
+    ]);
+
+    template.hasResourceProperties('AWS::EC2::Instance', { Tags: tags });
+    template.hasResourceProperties('AWS::KMS::Key', { Tags: tags });
+    getTemplate(assembly, 'test-CertificateStack').hasResourceProperties('AWS::CertificateManager::Certificate', { Tags: tags });
+  });
+
+  test('makes IMDSv1 available when IMDSv2 is not required', () => {
+    const optional = getTemplate(synthSetup(getTestConfig({ instanceConfig: { hardening: { requireImdsv2: false, imdsHopLimit: 2 } } })), 'test-InstanceStack');
+
+    optional.hasResourceProperties('AWS::EC2::LaunchTemplate', {
+      LaunchTemplateData: { MetadataOptions: { HttpEndpoint: 'enabled', HttpTokens: 'optional', HttpPutResponseHopLimit: 2 } },
+    });
+  });
+});
+
+describe('getSetupTags', () => {
+  test('maps the tag fields to their keys and keeps the additional tags', () => {
+    expect(getSetupTags({ setupName: 'web', owner: 'web-team', additionalTags: { Environment: 'prod' } }))
+      .toEqual({ SetupName: 'web', Owner: 'web-team', Environment: 'prod' });
+  });
+});
@@ -0,0 +1,71 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup, TEST_PCA_ARN } from './test-config';
+
+const getMonitoredConfig = (monitoringConfig: object = {}) => getTestConfig({
+  monitoringConfig: { enabled: true, notificationEmails: ['ops@example.com'], ...monitoringConfig },
+});
+
+describe('monitoring stack', () => {
+  const assembly = synthSetup(getMonitoredConfig({ expiryThresholdDays: 45 }));
+  const template = getTemplate(assembly, 'test-MonitoringStack');
+
+  test('alarms on the DaysToExpiry metric of the certificate', () => {
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: [Match.objectLike({
+        Label: 'private.example.com',
+        MetricStat: {
+          Metric: {
+            Namespace: 'AWS/CertificateManager',
+            MetricName: 'DaysToExpiry',
+            Dimensions: [{ Name: 'CertificateArn', Value: { 'Fn::ImportValue': Match.anyValue() } }],
+          },
+          Period: 86400,
+          Stat: 'Minimum',
+        },
+      })],
+      Threshold: 45,
+      ComparisonOperator: 'LessThanThreshold',
+      TreatMissingData: 'notBreaching',
+      AlarmActions: [{ Ref: Match.anyValue() }],
+    });
+  });
+
+  test('notifies the subscribed emails of the ACM and Private CA events', () => {
+    template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'ops@example.com' });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: Match.objectLike({ 'source': ['aws.acm'], 'detail-type': Match.arrayWith(['ACM Certificate Approaching Expiration']) }),
+      Targets: [Match.objectLike({ Arn: { Ref: Match.anyValue() } })],
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: { 'source': ['aws.acm-pca'], 'detail-type': Match.anyValue(), 'resources': [TEST_PCA_ARN], 'detail': { result: ['failure'] } },
+    });
+  });
+
+  test('creates the log groups, health check alarms and dashboard', () => {
+    for (const name of ['/acmne/test/nitro-enclaves-acm', '/acmne/test/web-server', '/acmne/test/health']) {
+      template.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: name, RetentionInDays: 30 });
+    }
+    template.hasResourceProperties('AWS::Logs::MetricFilter', {
+      LogGroupName: { Ref: Match.anyValue() },
+      MetricTransformations: [Match.objectLike({ MetricName: 'HealthCheckFailed', MetricNamespace: 'ACMNE/test', DefaultValue: 0 })],
+    });
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 3);
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'test' });
+  });
+
+  test('ships the instance logs to the log groups', () => {
+    const script = getConfigurationScript(getTemplate(assembly, 'test-InstanceStack'));
+
+    expect(script).toContain('amazon-cloudwatch-agent');
+    expect(script).toContain('/acmne/test/health');
+  });
+
+  test('uses an existing topic and no log groups when logs are disabled', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:alerts';
+    const existingTopic = getTemplate(synthSetup(getMonitoredConfig({ notificationTopicArn: topicArn, logs: false })), 'test-MonitoringStack');
+
+    existingTopic.resourceCountIs('AWS::SNS::Topic', 0);
+    existingTopic.resourceCountIs('AWS::Logs::LogGroup', 0);
+    existingTopic.hasResourceProperties('AWS::CloudWatch::Alarm', { AlarmActions: [topicArn] });
+  });
+});
@@ -0,0 +1,75 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { ConfigValidator } from '../src/config/config-validator';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+// Ingress rules of the instance stack, inline in the security group or on their own (e.g. prefix lists)
+const getIngressRules = (overrides: Parameters<typeof getTestConfig>[0]): object[] => {
+  const template = getTemplate(synthSetup(getTestConfig(overrides)), 'test-InstanceStack');
+  return [
+    ...Object.values(template.findResources('AWS::EC2::SecurityGroup')).flatMap(securityGroup => securityGroup.Properties.SecurityGroupIngress || []),
+    ...Object.values(template.findResources('AWS::EC2::SecurityGroupIngress')).map(ingress => ingress.Properties),
+  ];
+};
+
+describe('security group ingress', () => {
+  test('allows HTTP and HTTPS from anywhere and no SSH by default', () => {
+    const rules = getIngressRules({});
+
+    expect(rules).toContainEqual(expect.objectContaining({ CidrIp: '0.0.0.0/0', FromPort: 443, ToPort: 443 }));
+    expect(rules).toContainEqual(expect.objectContaining({ CidrIp: '0.0.0.0/0', FromPort: 80, ToPort: 80 }));
+    expect(rules).not.toContainEqual(expect.objectContaining({ FromPort: 22 }));
+  });
+
+  test('restricts the ingress to the configured sources and port', () => {
+    const rules = getIngressRules({
+      instanceConfig: {
+        allowSSHPort: true,
+        networkAccess: {
+          httpsPort: 8443,
+          httpsSources: { cidrs: ['203.0.113.0/24', '2001:db8::/32'], prefixListIds: ['pl-0123456789abcdef0'] },
+          allowHttp: false,
+          sshSources: { cidrs: ['198.51.100.10/32'] },
+        },
+      },
+    });
+
+    expect(rules).toEqual(expect.arrayContaining([
+      expect.objectContaining({ CidrIp: '203.0.113.0/24', FromPort: 8443, ToPort: 8443 }),
+      expect.objectContaining({ CidrIpv6: '2001:db8::/32', FromPort: 8443 }),
+      expect.objectContaining({ SourcePrefixListId: 'pl-0123456789abcdef0', FromPort: 8443 }),
+      expect.objectContaining({ CidrIp: '198.51.100.10/32', FromPort: 22 }),
+    ]));
+    expect(rules).not.toContainEqual(expect.objectContaining({ CidrIp: '0.0.0.0/0' }));
+    expect(rules).not.toContainEqual(expect.objectContaining({ FromPort: 80 }));
+  });
+
+  test('attaches the additional security groups', () => {
+    const template = getTemplate(synthSetup(getTestConfig({
+      instanceConfig: { networkAccess: { additionalSecurityGroupIds: ['sg-0123456789abcdef0'] } },
+    })), 'test-InstanceStack');
+
+    template.hasResourceProperties('AWS::EC2::Instance', {
+      SecurityGroupIds: Match.arrayWith(['sg-0123456789abcdef0']),
+    });
+  });
+});
+
+describe('network access validation', () => {
+  test('requires the SSH sources when the SSH port is open', () => {
+    const config = getTestConfig({ instanceConfig: { allowSSHPort: true } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({
+      code: 'MISSING_SSH_SOURCES',
+      path: 'instanceConfig.networkAccess.sshSources',
+    }));
+  });
+
+  test('rejects an invalid CIDR block and the reserved ports', () => {
+    const config = getTestConfig({ instanceConfig: { networkAccess: { httpsPort: 80, httpsSources: { cidrs: ['10.0.0.0/33'] } } } });
+
+    expect(ConfigValidator.validate(config).errors.map(issue => [issue.code, issue.path])).toEqual(expect.arrayContaining([
+      ['CONFLICTING_PORT', 'instanceConfig.networkAccess.httpsPort'],
+      ['INVALID_CIDR', 'instanceConfig.networkAccess.httpsSources.cidrs.0'],
+    ]));
+  });
+});
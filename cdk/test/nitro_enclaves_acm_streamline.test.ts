@@ -1,2 +1,68 @@
-// import * as cdk from 'aws-cdk-lib';
-// import { Template } from 'aws-cdk-lib/assertions';
\ No newline at end of file
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AcmForNitroEnclaves } from '../src/lib/constructs/acm-for-nitro-enclaves';
+import { getTemplate, getTestConfig, synthSetup, TEST_ACCOUNT } from './test-config';
+
+describe('NitroEnclavesAcmStreamline', () => {
+  const assembly = synthSetup(getTestConfig());
+
+  test('creates the Certificate, Role and Instance stacks, in their deployment order', () => {
+    expect(assembly.stacks.map(stack => stack.stackName).sort()).toEqual([
+      'test-CertificateStack',
+      'test-InstanceStack',
+      'test-RoleStack',
+    ]);
+    const dependencies = (stackName: string): string[] => assembly.getStackByName(stackName).dependencies
+      .map(dependency => dependency.id)
+      .filter(id => !id.endsWith('.assets'));
+    expect(dependencies('test-RoleStack')).toEqual(['test-CertificateStack']);
+    expect(dependencies('test-InstanceStack')).toContain('test-RoleStack');
+  });
+
+  test('issues the certificate from the private CA and grants the role access to it', () => {
+    getTemplate(assembly, 'test-CertificateStack').hasResourceProperties('AWS::CertificateManager::Certificate', {
+      DomainName: 'private.example.com',
+      CertificateAuthorityArn: `arn:aws:acm-pca:us-east-1:${TEST_ACCOUNT}:certificate-authority/abcd-1234`,
+    });
+    getTemplate(assembly, 'test-RoleStack').hasResourceProperties('AWS::EC2::EnclaveCertificateIamRoleAssociation', {
+      CertificateArn: { 'Fn::ImportValue': Match.anyValue() },
+    });
+  });
+});
+
+describe('AcmForNitroEnclaves', () => {
+  test('creates the certificate, role and instance in the stack it is added to', () => {
+    const config = getTestConfig();
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, 'ApplicationStack', { env: { account: TEST_ACCOUNT, region: 'us-east-1' } });
+
+    const acm = new AcmForNitroEnclaves(stack, 'Acm', config);
+
+    expect(acm.instance).toBeDefined();
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::CertificateManager::Certificate', 1);
+    template.resourceCountIs('AWS::IAM::Role', 1);
+    template.resourceCountIs('AWS::EC2::Instance', 1);
+    expect(app.synth().stacks.map(synthesized => synthesized.stackName)).toEqual(['ApplicationStack']);
+  });
+});
+
+describe('library entry point', () => {
+  test('leaves the env vars of the importing app unchanged', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'acmne-dotenv-'));
+    const cwd = process.cwd();
+    writeFileSync(join(directory, '.env'), 'ACMNE_TEST_DOMAIN_NAME=dotenv.example.com\n');
+    try {
+      process.chdir(directory);
+      jest.isolateModules(() => require('../src'));
+    } finally {
+      process.chdir(cwd);
+      rmSync(directory, { recursive: true, force: true });
+    }
+
+    expect(process.env.ACMNE_TEST_DOMAIN_NAME).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { ConfigValidator } from '../src/config/config-validator';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const getConfig = () => getTestConfig({
+  certificateConfig: {
+    pcaArn: undefined,
+    privateCa: { mode: 'create', subject: { commonName: 'Test Root CA', organization: 'Example' }, keyAlgorithm: 'EC_prime256v1', removalPolicy: 'RETAIN' },
+  },
+});
+
+describe('created private CA', () => {
+  const assembly = synthSetup(getConfig());
+  const template = getTemplate(assembly, 'test-CertificateStack');
+
+  test('creates and activates a root CA in the CertificateStack', () => {
+    template.hasResourceProperties('AWS::ACMPCA::CertificateAuthority', {
+      Type: 'ROOT',
+      KeyAlgorithm: 'EC_prime256v1',
+      SigningAlgorithm: 'SHA256WITHECDSA',
+      Subject: { CommonName: 'Test Root CA', Organization: 'Example' },
+    });
+    template.hasResourceProperties('AWS::ACMPCA::Certificate', {
+      TemplateArn: { 'Fn::Join': ['', Match.arrayWith([':acm-pca:::template/RootCACertificate/V1'])] },
+      Validity: { Type: 'YEARS', Value: 10 },
+    });
+    template.hasResourceProperties('AWS::ACMPCA::CertificateAuthorityActivation', { Status: 'ACTIVE' });
+  });
+
+  test('retains the CA with its activation', () => {
+    for (const type of ['AWS::ACMPCA::CertificateAuthority', 'AWS::ACMPCA::Certificate', 'AWS::ACMPCA::CertificateAuthorityActivation']) {
+      template.hasResource(type, { DeletionPolicy: 'Retain' });
+    }
+  });
+
+  test('issues the certificate once the CA is active', () => {
+    const [activationId] = Object.keys(template.findResources('AWS::ACMPCA::CertificateAuthorityActivation'));
+
+    template.hasResource('AWS::CertificateManager::Certificate', {
+      Properties: Match.objectLike({ CertificateAuthorityArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('CertificateAuthority'), 'Arn'] } }),
+      DependsOn: Match.arrayWith([activationId]),
+    });
+  });
+
+  test('adds the root certificate to the trust store of the instance', () => {
+    const script = getConfigurationScript(getTemplate(assembly, 'test-InstanceStack'));
+
+    expect(script).toContain("sudo tee /etc/pki/ca-trust/source/anchors/acmne-private-ca-1.pem > /dev/null << 'EOF'");
+    expect(script).toContain('sudo update-ca-trust extract');
+  });
+});
+
+describe('private CA validation', () => {
+  test('warns about the cost of a created CA', () => {
+    expect(ConfigValidator.validate(getConfig()).warnings).toContainEqual(expect.objectContaining({
+      code: 'PRIVATE_CA_COST',
+      path: 'certificateConfig.privateCa.mode',
+    }));
+  });
+
+  test('requires the parent of a subordinate CA', () => {
+    const config = getConfig();
+    config.certificateConfig.privateCa = { mode: 'create', type: 'SUBORDINATE' };
+
+    expect(ConfigValidator.validate(config).errors.map(issue => issue.path)).toContain('certificateConfig.privateCa.parentCaArn');
+  });
+});
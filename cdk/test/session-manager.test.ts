@@ -0,0 +1,63 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { ConfigValidator } from '../src/config/config-validator';
+import { SessionManagerConfig } from '../src/config/types';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const getRoleTemplate = (sessionManager?: SessionManagerConfig) =>
+  getTemplate(synthSetup(getTestConfig({ roleConfig: { sessionManager } })), 'test-RoleStack');
+
+const SSM_MANAGED_POLICY = Match.objectLike({ 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('AmazonSSMManagedInstanceCore')])] });
+
+describe('Session Manager', () => {
+  test('grants the managed instance policy and encrypts the sessions by default', () => {
+    const template = getRoleTemplate();
+
+    template.hasResourceProperties('AWS::IAM::Role', { ManagedPolicyArns: Match.arrayWith([SSM_MANAGED_POLICY]) });
+    template.resourceCountIs('AWS::KMS::Key', 1);
+    template.hasResourceProperties('AWS::SSM::Document', {
+      DocumentType: 'Session',
+      Content: Match.objectLike({
+        inputs: Match.objectLike({ kmsKeyId: { Ref: Match.anyValue() }, s3BucketName: '', cloudWatchLogGroupName: '', idleSessionTimeout: '20' }),
+      }),
+    });
+    template.resourceCountIs('AWS::S3::Bucket', 0);
+    template.resourceCountIs('AWS::Logs::LogGroup', 0);
+  });
+
+  test('logs the sessions to S3 and CloudWatch Logs', () => {
+    const template = getRoleTemplate({ logToS3: true, logToCloudWatch: true, logRetentionDays: 30, idleSessionTimeoutMinutes: 10 });
+
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketEncryption: { ServerSideEncryptionConfiguration: [Match.objectLike({ ServerSideEncryptionByDefault: Match.objectLike({ SSEAlgorithm: 'aws:kms' }) })] },
+    });
+    template.hasResourceProperties('AWS::Logs::LogGroup', { RetentionInDays: 30, KmsKeyId: Match.anyValue() });
+    template.hasResourceProperties('AWS::SSM::Document', {
+      Content: Match.objectLike({
+        inputs: Match.objectLike({
+          s3BucketName: { Ref: Match.anyValue() },
+          cloudWatchLogGroupName: { Ref: Match.anyValue() },
+          cloudWatchEncryptionEnabled: true,
+          idleSessionTimeout: '10',
+        }),
+      }),
+    });
+  });
+
+  test('is left out when disabled', () => {
+    const template = getRoleTemplate({ enabled: false });
+
+    template.resourceCountIs('AWS::SSM::Document', 0);
+    template.resourceCountIs('AWS::KMS::Key', 0);
+    const [role] = Object.values(template.findResources('AWS::IAM::Role'));
+    expect(JSON.stringify(role.Properties.ManagedPolicyArns || [])).not.toContain('AmazonSSMManagedInstanceCore');
+  });
+
+  test('rejects a log retention that CloudWatch Logs does not support', () => {
+    const config = getTestConfig({ roleConfig: { sessionManager: { logToCloudWatch: true, logRetentionDays: 10 } } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({
+      code: 'INVALID_LOG_RETENTION',
+      path: 'roleConfig.sessionManager.logRetentionDays',
+    }));
+  });
+});
@@ -0,0 +1,32 @@
+import * as cdk from 'aws-cdk-lib';
+import { SetupStage } from '../src/lib/setup-stage';
+import { getTestConfig, TEST_PCA_ARN } from './test-config';
+
+describe('SetupStage', () => {
+  const app = new cdk.App();
+  const environments = {
+    dev: getTestConfig({ setupName: 'test-dev', region: 'eu-west-1', certificateConfig: { pcaArn: TEST_PCA_ARN.replace('us-east-1', 'eu-west-1') } }),
+    prod: getTestConfig({ setupName: 'test-prod' }),
+  };
+  for (const [name, config] of Object.entries(environments)) {
+    new SetupStage(app, name, { config });
+  }
+  const assembly = app.synth();
+
+  test('synthesizes the stacks of each environment in its own nested assembly', () => {
+    for (const name of ['dev', 'prod']) {
+      const stage = assembly.getNestedAssembly(`assembly-${name}`);
+
+      expect(stage.stacks.map(stack => stack.stackName).sort())
+        .toEqual([`test-${name}-CertificateStack`, `test-${name}-InstanceStack`, `test-${name}-RoleStack`]);
+      expect(stage.getStackByName(`test-${name}-InstanceStack`).hierarchicalId).toBe(`${name}/test-${name}-InstanceStack`);
+    }
+  });
+
+  test('deploys each environment to its account and region', () => {
+    expect(assembly.getNestedAssembly('assembly-dev').getStackByName('test-dev-InstanceStack').environment)
+      .toEqual(expect.objectContaining({ account: '123456789012', region: 'eu-west-1' }));
+    expect(assembly.getNestedAssembly('assembly-prod').getStackByName('test-prod-InstanceStack').environment)
+      .toEqual(expect.objectContaining({ account: '123456789012', region: 'us-east-1' }));
+  });
+});
@@ -0,0 +1,68 @@
+import { PassThrough } from 'stream';
+import { ConsolePrompter } from '../src/lib/init/prompter';
+import { SetupWizard } from '../src/lib/init/setup-wizard';
+import { TEST_PCA_ARN } from './test-config';
+
+// Wizard answering the questions with the given lines, an empty line selecting the default value
+const runWizard = async (answers: string[]) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let transcript = '';
+  output.on('data', chunk => transcript += chunk);
+  input.end(answers.map(answer => `${answer}\n`).join(''));
+  const result = await new SetupWizard(new ConsolePrompter(input, output)).run();
+  return { ...result, transcript };
+};
+
+describe('SetupWizard', () => {
+  test('builds the config file of a private certificate and its deploy flags', async () => {
+    const { config, report, deployArgs, transcript } = await runWizard([
+      'web', // Setup name
+      '12345', // AWS account ID, invalid
+      '123456789012',
+      '', // AWS region
+      '1', // New private certificate
+      'private.example.com',
+      '1', // Existing private CA
+      TEST_PCA_ARN,
+      'web-key-pair',
+      '', // Instance type
+      'APACHE', // Web server, by value
+      '', // AMI type
+      'y', // Encrypt the root volume
+    ]);
+
+    expect(config).toEqual({
+      setupName: 'web',
+      account: '123456789012',
+      region: 'us-east-1',
+      certificateConfig: { domainName: 'private.example.com', isPrivate: true, pcaArn: TEST_PCA_ARN },
+      instanceConfig: { keyPairName: 'web-key-pair', instanceType: 'c5.xlarge', serverType: 'APACHE', amiType: 'AL2023', encryptVolume: true },
+    });
+    expect(report.hasErrors()).toBe(false);
+    expect(deployArgs).toEqual([
+      '--setup-name', 'web', '--aws-account-id', '123456789012', '--aws-region', 'us-east-1', '--domain-name', 'private.example.com',
+      '--is-private', '--pca-arn', TEST_PCA_ARN, '--key-pair-name', 'web-key-pair', '--instance-type', 'c5.xlarge',
+      '--web-server-type', 'APACHE', '--ami-type', 'AL2023', '--encrypt-volume',
+    ]);
+    expect(transcript).toContain('"12345" is not a valid AWS account ID (12 digits).');
+  });
+
+  test('asks for the validation of a public certificate and warns about the key pair placeholder', async () => {
+    const { config, transcript } = await runWizard([
+      'web', '123456789012', '',
+      '2', // New public certificate
+      'example.com',
+      '2', // Other DNS provider
+      '2', // Email validation
+      'my-key-pair-name', '', '', '', '',
+    ]);
+
+    expect(config.certificateConfig).toEqual({ domainName: 'example.com', isPrivate: false, validationType: 'EMAIL' });
+    expect(transcript).toContain('Warning: keyPairName is still the "my-key-pair-name" placeholder');
+  });
+
+  test('stops when the input ends', async () => {
+    await expect(runWizard(['web'])).rejects.toThrow('Setup wizard aborted: no more input.');
+  });
+});
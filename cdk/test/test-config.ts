@@ -0,0 +1,47 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { ConfigLoader } from '../src/config/config-loader';
+import { NitroEnclavesAcmStreamlineConfig, NitroEnclavesAcmStreamlineConfigFile } from '../src/config/types';
+import { NitroEnclavesAcmStreamline } from '../src/lib/nitro-enclaves-acm-streamline';
+
+// Configuration and synthesis helpers of the tests
+
+export const TEST_ACCOUNT = '123456789012';
+export const TEST_PCA_ARN = `arn:aws:acm-pca:us-east-1:${TEST_ACCOUNT}:certificate-authority/abcd-1234`;
+// Env vars of the tests (the account has no default), instead of those of the machine
+export const TEST_ENV = { AWS_ACCOUNT: TEST_ACCOUNT };
+
+// Valid "test" setup with a private certificate issued by an existing private CA, with overrides given like CLI flags
+export const getTestConfig = (overrides: NitroEnclavesAcmStreamlineConfigFile = {}): NitroEnclavesAcmStreamlineConfig => ConfigLoader.resolve({
+  cliConfig: {
+    setupName: 'test',
+    ...overrides,
+    certificateConfig: { domainName: 'private.example.com', isPrivate: true, pcaArn: TEST_PCA_ARN, ...overrides.certificateConfig },
+    instanceConfig: { keyPairName: 'test-key-pair', ...overrides.instanceConfig },
+  },
+}, TEST_ENV);
+
+export const synthSetup = (config: NitroEnclavesAcmStreamlineConfig, isDestroySubcommand: boolean = false): cxapi.CloudAssembly => {
+  const app = new cdk.App();
+  new NitroEnclavesAcmStreamline(config, isDestroySubcommand, app).deploy();
+  return app.synth();
+};
+
+export const getTemplate = (assembly: cxapi.CloudAssembly, stackName: string): Template =>
+  Template.fromJSON(assembly.getStackByName(stackName).template);
+
+// Fn::Join rendered as a string, the other CloudFormation functions (e.g. Fn::ImportValue) as JSON
+const renderValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const join = (value as { 'Fn::Join'?: [string, unknown[]] })['Fn::Join'];
+  return join ? join[1].map(renderValue).join(join[0]) : JSON.stringify(value);
+};
+
+// Shell script of the configuration document of an instance stack
+export const getConfigurationScript = (template: Template): string => {
+  const [document] = Object.values(template.findResources('AWS::SSM::Document'));
+  return document.Properties.Content.mainSteps[0].inputs.runCommand.map(renderValue).join('\n');
+};
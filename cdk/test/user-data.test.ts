@@ -0,0 +1,95 @@
+import { registerServerType } from '../src/lib/user-data/server-types';
+import { renderUserDataCommands, UserDataSettings } from '../src/lib/user-data/user-data';
+import { getConfigurationScript, getTemplate, getTestConfig, synthSetup } from './test-config';
+
+const SETTINGS: UserDataSettings = {
+  amiType: 'AL2023',
+  serverType: 'NGINX',
+  certificates: [{ certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abcd-1234', domainName: 'example.com' }],
+  httpsPort: 443,
+};
+
+const render = (settings: Partial<UserDataSettings>): string => renderUserDataCommands({ ...SETTINGS, ...settings }).join('\n');
+
+describe('renderUserDataCommands', () => {
+  test('configures nginx with a token target and the enclave of the ACM service', () => {
+    const commands = render({ enclave: { cpuCount: 4, memoryMiB: 1024 } });
+
+    expect(commands).toContain('/etc/nitro_enclaves/acm.yaml');
+    expect(commands).toMatch(/enclave:\n\s+cpu_count: 4\n\s+memory_mib: 1024/);
+    expect(commands).toContain('service: "nginx"');
+    expect(commands).toContain('NginxStanza:');
+    expect(commands).toContain('sudo systemctl start nitro-enclaves-acm.service');
+  });
+
+  test('restarts httpd after the token refreshes of an Apache server', () => {
+    const commands = render({ serverType: 'APACHE' });
+
+    expect(commands).toContain('service: "httpd"');
+    expect(commands).toContain('Conf:');
+  });
+
+  test('gives the Tomcat token a PIN and no target, and restarts Tomcat when the token changes', () => {
+    const commands = render({ serverType: 'TOMCAT' });
+
+    expect(commands).toContain('label: "tomcat-acm-token"');
+    expect(commands).not.toContain('target:');
+    expect(commands).not.toContain('service: "nginx"');
+    expect(commands).toContain('force_start: false');
+    expect(commands).toContain('openssl rand -hex 16');
+    expect(commands).toContain('pin: \\"$pin\\"');
+    expect(commands).toContain('Wants=tomcat9.service');
+    expect(commands).toContain('keytool -list -rfc -keystore NONE -storetype PKCS11 -providername SunPKCS11-acmne');
+    expect(commands).toContain('systemctl try-restart tomcat9');
+    expect(commands).toMatch(/\[Timer\]\nOnActiveSec=5min\nOnUnitActiveSec=600s/);
+    expect(commands).toContain('sudo systemctl enable --now acmne-tomcat-reload.timer');
+  });
+
+  test('puts HAProxy in front of nginx, which keeps the token target', () => {
+    const commands = render({ serverType: 'HAPROXY' });
+
+    expect(commands).toContain('service: "nginx"');
+    expect(commands).toContain('NginxStanza:');
+    expect(commands).toContain('listen       127.0.0.1:10443 ssl proxy_protocol default_server;');
+    expect(commands).toContain('sudo systemctl restart haproxy');
+  });
+
+  test('rejects more certificates than the server type serves', () => {
+    const certificates = [SETTINGS.certificates[0], { ...SETTINGS.certificates[0], domainName: 'other.example.com' }];
+
+    expect(() => render({ serverType: 'TOMCAT', certificates })).toThrow(/TOMCAT serves at most 1 certificate/);
+  });
+
+  test('rejects a server type with token targets but no service to restart', () => {
+    registerServerType('LIGHTTPD_TARGETS', {
+      description: 'lighttpd',
+      tokenPrefix: 'lighttpd',
+      getInstallCommands: () => [],
+      getTokenTarget: () => ({ type: 'Conf', path: '/etc/lighttpd/acm.conf', user: 'lighttpd' }),
+      getConfigureCommands: () => [],
+    });
+
+    expect(() => render({ serverType: 'LIGHTTPD_TARGETS' })).toThrow(/has no reloadService/);
+  });
+
+  test('rejects an unknown server type', () => {
+    expect(() => render({ serverType: 'LIGHTTPD' })).toThrow(/Unknown server type LIGHTTPD/);
+  });
+});
+
+describe('instance configuration', () => {
+  test('applies the rendered acm.yaml and server block', () => {
+    const script = getConfigurationScript(getTemplate(synthSetup(getTestConfig({ instanceConfig: { serverType: 'APACHE' } })), 'test-InstanceStack'));
+
+    expect(script).toContain(`sudo tee /etc/nitro_enclaves/acm.yaml > /dev/null << 'EOF'\n---\nenclave:\n  cpu_count: 2\n  memory_mib: 512\noptions:\n  service: "httpd"`);
+    expect(script).toContain('- label: "httpd-acm-token"');
+    expect(script).toContain('<VirtualHost *:443>\nServerName private.example.com');
+  });
+
+  test('applies the Tomcat reload timer', () => {
+    const script = getConfigurationScript(getTemplate(synthSetup(getTestConfig({ instanceConfig: { serverType: 'TOMCAT' } })), 'test-InstanceStack'));
+
+    expect(script).toContain('- label: "tomcat-acm-token"');
+    expect(script).toContain('sudo systemctl enable --now acmne-tomcat-reload.timer');
+  });
+});
@@ -0,0 +1,57 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { ConfigValidator } from '../src/config/config-validator';
+import { getTemplate, getTestConfig, synthSetup } from './test-config';
+
+describe('dedicated VPC with private subnets', () => {
+  const template = getTemplate(synthSetup(getTestConfig({
+    instanceConfig: { vpc: { mode: 'create', cidr: '10.1.0.0/16', subnetType: 'PRIVATE' } },
+  })), 'test-InstanceStack');
+
+  test('creates the VPC without NAT gateway', () => {
+    template.hasResourceProperties('AWS::EC2::VPC', { CidrBlock: '10.1.0.0/16' });
+    template.resourceCountIs('AWS::EC2::NatGateway', 0);
+  });
+
+  test('launches the instance in a private subnet', () => {
+    const [privateSubnetId] = Object.entries(template.findResources('AWS::EC2::Subnet'))
+      .filter(([logicalId]) => logicalId.includes('PrivateSubnet1'))
+      .map(([logicalId]) => logicalId);
+
+    expect(privateSubnetId).toBeDefined();
+    template.hasResourceProperties('AWS::EC2::Instance', { SubnetId: { Ref: privateSubnetId } });
+  });
+
+  test('reaches ACM, KMS, S3 and Systems Manager through VPC endpoints', () => {
+    for (const service of ['acm', 'kms', 'ssm', 'ssmmessages', 'ec2messages']) {
+      template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+        ServiceName: `com.amazonaws.us-east-1.${service}`,
+        VpcEndpointType: 'Interface',
+        PrivateDnsEnabled: true,
+      });
+    }
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: Match.objectLike({ 'Fn::Join': Match.anyValue() }),
+      VpcEndpointType: 'Gateway',
+    });
+  });
+});
+
+describe('VPC validation', () => {
+  test('requires the ID of an existing VPC', () => {
+    const config = getTestConfig({ instanceConfig: { vpc: { mode: 'existing' } } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({ code: 'MISSING_VPC_ID', path: 'instanceConfig.vpc.vpcId' }));
+  });
+
+  test('rejects private subnets in the default VPC', () => {
+    const config = getTestConfig({ instanceConfig: { vpc: { mode: 'default', subnetType: 'PRIVATE' } } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({ code: 'NO_PRIVATE_SUBNETS' }));
+  });
+
+  test('rejects subnet IDs outside of an existing VPC', () => {
+    const config = getTestConfig({ instanceConfig: { vpc: { mode: 'create', subnetIds: ['subnet-0123456789abcdef0'] } } });
+
+    expect(ConfigValidator.validate(config).errors).toContainEqual(expect.objectContaining({ code: 'CONFLICTING_FIELD', path: 'instanceConfig.vpc.subnetIds' }));
+  });
+});
@@ -0,0 +1,44 @@
+import { renderHttpdVirtualHost, renderNginxServerBlock, VirtualServer } from '../src/lib/user-data/web-server-config';
+
+const SERVER: VirtualServer = {
+  serverNames: ['example.com', 'www.example.com'],
+  httpsPort: 443,
+  isDefault: true,
+  tokenPath: '/etc/pki/nginx/nginx-acm.conf',
+};
+
+describe('renderNginxServerBlock', () => {
+  test('renders the default server block including the token stanza', () => {
+    const block = renderNginxServerBlock(SERVER, { protocols: ['TLSv1.2', 'TLSv1.3'], hstsMaxAgeSeconds: 300 });
+
+    expect(block).toContain('listen       443 ssl default_server;');
+    expect(block).toContain('server_name  example.com www.example.com;');
+    expect(block).toContain('ssl_protocols TLSv1.2 TLSv1.3;');
+    expect(block).toContain('add_header Strict-Transport-Security "max-age=300" always;');
+    expect(block).toContain('include "/etc/pki/nginx/nginx-acm.conf";');
+  });
+
+  test('defaults to TLSv1.2 without HSTS for the other server blocks', () => {
+    const block = renderNginxServerBlock({ ...SERVER, isDefault: false });
+
+    expect(block).toContain('listen       443 ssl;');
+    expect(block).toContain('ssl_protocols TLSv1.2;');
+    expect(block).not.toContain('Strict-Transport-Security');
+  });
+});
+
+describe('renderHttpdVirtualHost', () => {
+  test('renders the global directives once, with the first VirtualHost', () => {
+    const server = { ...SERVER, tokenPath: '/etc/httpd/conf.d/httpd-acm.conf' };
+    const withGlobals = renderHttpdVirtualHost(server, {}, true);
+    const withoutGlobals = renderHttpdVirtualHost(server);
+
+    expect(withGlobals).toContain('Listen 443 https');
+    expect(withGlobals).toContain('SSLCryptoDevice pkcs11');
+    expect(withoutGlobals).not.toContain('Listen 443 https');
+    expect(withoutGlobals).toContain('<VirtualHost *:443>');
+    expect(withoutGlobals).toContain('ServerName example.com');
+    expect(withoutGlobals).toContain('ServerAlias www.example.com');
+    expect(withoutGlobals).toContain('SSLProtocol -all +TLSv1.2');
+  });
+});